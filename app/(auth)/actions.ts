@@ -1,11 +1,30 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
+import { headers } from "next/headers";
 import { redirect } from "next/navigation";
 import { AuthError } from "next-auth";
 import { z } from "zod";
-import { createUser, getUser } from "@/lib/db/queries";
-import { signIn } from "./auth";
+import {
+  consumeAuthToken,
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+} from "@/lib/auth-tokens";
+import { clearChatCapabilities, getChatCapabilities } from "@/lib/capabilities";
+import { guestRegex } from "@/lib/constants";
+import {
+  claimChats,
+  createUser,
+  getUser,
+  getUserById,
+  markEmailVerified,
+  updateUserPassword,
+} from "@/lib/db/queries";
+import type { User } from "@/lib/db/schema";
+import { logger } from "@/lib/logger";
+import { isOAuthProvider, setOAuthIntent } from "@/lib/oauth";
+import { getRateLimitIdentifier, rateLimit } from "@/lib/rate-limit/limiter";
+import { AccountBannedError, auth, signIn } from "./auth";
 
 const signInSchema = z.object({
   email: z.string().email("Please enter a valid email."),
@@ -17,11 +36,99 @@ const signUpSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters."),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email."),
+});
+
+const resetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "This reset link is invalid."),
+    password: z.string().min(6, "Password must be at least 6 characters."),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords don't match.",
+  });
+
 interface ActionResult {
   type: "error" | "success";
   message: string;
 }
 
+// Auth attempts are limited per IP address to slow down credential guessing
+async function checkAuthRateLimit(): Promise<ActionResult | undefined> {
+  const result = await rateLimit(
+    "auth",
+    getRateLimitIdentifier(await headers()),
+  );
+
+  if (result.success) {
+    return;
+  }
+
+  return {
+    type: "error",
+    message: `Too many attempts. Please try again in ${result.retryAfter} seconds.`,
+  };
+}
+
+interface ClaimSource {
+  guestUserId?: string;
+  anonymousChatIds: string[];
+}
+
+// Captured before signing in, since signing in replaces the guest session
+async function getClaimSource(): Promise<ClaimSource> {
+  const session = await auth();
+
+  return {
+    guestUserId: session?.user?.type === "guest" ? session.user.id : undefined,
+    anonymousChatIds: await getChatCapabilities(),
+  };
+}
+
+// Imports the guest's and anonymous visitor's chats into the account that
+// just signed in. Returns how many chats were imported; failures are logged
+// rather than blocking sign-in.
+async function claimChatsForUser(
+  userId: string,
+  source: ClaimSource,
+): Promise<number> {
+  if (!source.guestUserId && source.anonymousChatIds.length === 0) {
+    return 0;
+  }
+
+  try {
+    const claimed = await claimChats({ userId, ...source });
+    await clearChatCapabilities();
+    logger.info("Chats claimed", { userId, count: claimed.length });
+    return claimed.length;
+  } catch (error) {
+    logger.error("Failed to claim chats", { userId, error });
+    return 0;
+  }
+}
+
+// Registration goes ahead even if the email can't be sent, since it can be
+// resent from settings
+async function requestEmailVerification(user: Pick<User, "id" | "email">) {
+  try {
+    await sendVerificationEmail(user);
+  } catch (error) {
+    logger.error("Failed to send verification email", {
+      userId: user.id,
+      error,
+    });
+  }
+}
+
+function getPostAuthRedirect(claimedCount: number) {
+  // Send users to their chat list so they can review what was imported
+  return claimedCount > 0
+    ? "/chats?imported=true&refresh=session"
+    : "/?refresh=session";
+}
+
 export async function signInAction(
   _prevState: ActionResult | undefined,
   formData: FormData,
@@ -32,14 +139,26 @@ export async function signInAction(
       password: formData.get("password"),
     });
 
+    const rateLimitError = await checkAuthRateLimit();
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
+    const claimSource = await getClaimSource();
+
     await signIn("credentials", {
       email: validatedData.email,
       password: validatedData.password,
       redirect: false,
     });
 
+    const [user] = await getUser(validatedData.email);
+    const claimedCount = user
+      ? await claimChatsForUser(user.id, claimSource)
+      : 0;
+
     revalidatePath("/");
-    redirect("/?refresh=session");
+    redirect(getPostAuthRedirect(claimedCount));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return {
@@ -53,7 +172,10 @@ export async function signInAction(
         case "CredentialsSignin":
           return {
             type: "error",
-            message: "Invalid credentials. Please try again.",
+            message:
+              error instanceof AccountBannedError
+                ? "This account has been suspended."
+                : "Invalid credentials. Please try again.",
           };
         default:
           return {
@@ -78,6 +200,11 @@ export async function signUpAction(
       password: formData.get("password"),
     });
 
+    const rateLimitError = await checkAuthRateLimit();
+    if (rateLimitError) {
+      return rateLimitError;
+    }
+
     const existingUsers = await getUser(validatedData.email);
 
     if (existingUsers.length > 0) {
@@ -87,7 +214,12 @@ export async function signUpAction(
       };
     }
 
-    await createUser(validatedData.email, validatedData.password);
+    const claimSource = await getClaimSource();
+
+    const [user] = await createUser(
+      validatedData.email,
+      validatedData.password,
+    );
 
     const result = await signIn("credentials", {
       email: validatedData.email,
@@ -103,8 +235,11 @@ export async function signUpAction(
       };
     }
 
+    const claimedCount = await claimChatsForUser(user.id, claimSource);
+    await requestEmailVerification(user);
+
     revalidatePath("/");
-    redirect("/?refresh=session");
+    redirect(getPostAuthRedirect(claimedCount));
   } catch (error) {
     if (error instanceof z.ZodError) {
       return {
@@ -124,3 +259,149 @@ export async function signUpAction(
     throw error;
   }
 }
+
+// Starts a sign-in with GitHub or Google. Guest chats are imported once the
+// provider sends the user back.
+export async function oauthSignInAction(formData: FormData) {
+  const provider = formData.get("provider");
+  if (!isOAuthProvider(provider)) {
+    redirect("/login?error=OAuthFailed");
+  }
+
+  const rateLimitError = await checkAuthRateLimit();
+  if (rateLimitError) {
+    redirect("/login?error=RateLimited");
+  }
+
+  const { guestUserId } = await getClaimSource();
+  await setOAuthIntent({ guestUserId });
+
+  await signIn(provider, { redirectTo: "/?refresh=session" });
+}
+
+// Links GitHub or Google to the signed-in user, who can then sign in with it
+export async function linkAccountAction(formData: FormData) {
+  const provider = formData.get("provider");
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.type === "guest") {
+    redirect("/login");
+  }
+  if (!isOAuthProvider(provider)) {
+    redirect("/settings?error=OAuthFailed");
+  }
+
+  await setOAuthIntent({ linkUserId: session.user.id });
+
+  await signIn(provider, { redirectTo: "/settings" });
+}
+
+// Sends a new verification link to the signed-in user
+export async function resendVerificationAction(): Promise<ActionResult> {
+  const session = await auth();
+  if (!session?.user?.id || session.user.type === "guest") {
+    return { type: "error", message: "Please sign in first." };
+  }
+  if (session.user.verified) {
+    return { type: "success", message: "Your email is already verified." };
+  }
+
+  const rateLimitError = await checkAuthRateLimit();
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
+  try {
+    const user = await getUserById({ id: session.user.id });
+    if (!user) {
+      return { type: "error", message: "Please sign in first." };
+    }
+
+    await sendVerificationEmail(user);
+    return {
+      type: "success",
+      message: "We sent a new verification link to your email.",
+    };
+  } catch (error) {
+    logger.error("Failed to send verification email", {
+      userId: session.user.id,
+      error,
+    });
+    return {
+      type: "error",
+      message: "We couldn't send the email. Please try again later.",
+    };
+  }
+}
+
+// Emails a reset link if the address belongs to an account. The response is
+// the same either way, so it can't be used to find out who has an account.
+export async function requestPasswordResetAction(
+  _prevState: ActionResult | undefined,
+  formData: FormData,
+): Promise<ActionResult> {
+  const parsed = forgotPasswordSchema.safeParse({
+    email: formData.get("email"),
+  });
+  if (!parsed.success) {
+    return { type: "error", message: parsed.error.issues[0].message };
+  }
+
+  const rateLimitError = await checkAuthRateLimit();
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
+  const { email } = parsed.data;
+  const [user] = guestRegex.test(email) ? [] : await getUser(email);
+  if (user) {
+    try {
+      await sendPasswordResetEmail(user);
+    } catch (error) {
+      logger.error("Failed to send password reset email", {
+        userId: user.id,
+        error,
+      });
+    }
+  }
+
+  return {
+    type: "success",
+    message:
+      "If an account exists for that email, we sent a link to reset its password.",
+  };
+}
+
+export async function resetPasswordAction(
+  _prevState: ActionResult | undefined,
+  formData: FormData,
+): Promise<ActionResult> {
+  const parsed = resetPasswordSchema.safeParse({
+    token: formData.get("token"),
+    password: formData.get("password"),
+    confirmPassword: formData.get("confirmPassword"),
+  });
+  if (!parsed.success) {
+    return { type: "error", message: parsed.error.issues[0].message };
+  }
+
+  const rateLimitError = await checkAuthRateLimit();
+  if (rateLimitError) {
+    return rateLimitError;
+  }
+
+  const userId = await consumeAuthToken(parsed.data.token, "password_reset");
+  if (!userId) {
+    return {
+      type: "error",
+      message: "This reset link is invalid or has expired. Request a new one.",
+    };
+  }
+
+  await updateUserPassword({ userId, password: parsed.data.password });
+  // Following the emailed link proves the user owns the address
+  await markEmailVerified({ userId });
+  logger.info("Password reset", { userId });
+
+  redirect("/login?reset=true");
+}
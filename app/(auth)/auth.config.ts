@@ -4,6 +4,8 @@ export const authConfig = {
   pages: {
     signIn: "/login",
     newUser: "/",
+    // Failed provider sign-ins land back on the login page with the reason
+    error: "/login",
   },
   providers: [
     // added later in auth.ts since it requires bcrypt which is only compatible with Node.js
@@ -1,9 +1,21 @@
 import { compare } from "bcrypt-ts";
-import NextAuth, { type DefaultSession } from "next-auth";
+import NextAuth, { CredentialsSignin, type DefaultSession } from "next-auth";
 import type { DefaultJWT } from "next-auth/jwt";
 import Credentials from "next-auth/providers/credentials";
+import GitHub from "next-auth/providers/github";
+import Google from "next-auth/providers/google";
 import { DUMMY_PASSWORD } from "@/lib/constants";
-import { createGuestUser, getUser } from "@/lib/db/queries";
+import {
+  createGuestUser,
+  getUser,
+  getUserById,
+  isBanned,
+} from "@/lib/db/queries";
+import {
+  getEnabledOAuthProviders,
+  isOAuthProvider,
+  resolveOAuthUser,
+} from "@/lib/oauth";
 import { authConfig } from "./auth.config";
 
 const isDevelopment = process.env.NODE_ENV === "development";
@@ -18,13 +30,31 @@ if (!process.env.AUTH_SECRET && isDevelopment) {
   process.env.AUTH_SECRET = "dev-secret-key-not-for-production";
 }
 
-export type UserType = "guest" | "regular";
+// Admins are regular accounts whose verified email is listed in ADMIN_EMAILS
+export type UserType = "guest" | "regular" | "admin";
+
+// Tells the sign-in form why a correct password was refused
+export class AccountBannedError extends CredentialsSignin {
+  code = "banned";
+}
+
+export function isAdminEmail(email: string | null | undefined) {
+  const adminEmails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((adminEmail) => adminEmail.trim().toLowerCase())
+    .filter(Boolean);
+
+  return Boolean(email && adminEmails.includes(email.toLowerCase()));
+}
 
 declare module "next-auth" {
   interface Session extends DefaultSession {
     user: {
       id: string;
       type: UserType;
+      // Whether the email is verified. Unverified accounts get guest
+      // entitlements.
+      verified: boolean;
     } & DefaultSession["user"];
   }
 
@@ -39,9 +69,16 @@ declare module "next-auth/jwt" {
   interface JWT extends DefaultJWT {
     id: string;
     type: UserType;
+    verified?: boolean;
   }
 }
 
+// GitHub and Google read their client ID and secret from AUTH_GITHUB_* and
+// AUTH_GOOGLE_*, and are only offered when those are set
+const oauthProviders = getEnabledOAuthProviders().map((provider) =>
+  provider === "github" ? GitHub : Google,
+);
+
 export const {
   handlers: { GET, POST },
   auth,
@@ -83,6 +120,10 @@ export const {
           return null;
         }
 
+        if (await isBanned({ userId: user.id })) {
+          throw new AccountBannedError();
+        }
+
         return { ...user, type: "regular" };
       },
     }),
@@ -94,20 +135,58 @@ export const {
         return { ...guestUser, type: "guest" };
       },
     }),
+    ...oauthProviders,
   ],
   callbacks: {
+    // Provider sign-ins are resolved to one of our users, which replaces the
+    // provider's profile as the signed-in user
+    async signIn({ user, account, profile }) {
+      if (!(account && isOAuthProvider(account.provider))) {
+        return true;
+      }
+
+      const resolution = await resolveOAuthUser({
+        provider: account.provider,
+        account,
+        profile,
+        email: user.email,
+      });
+      if ("redirectTo" in resolution) {
+        return resolution.redirectTo;
+      }
+
+      user.id = resolution.user.id;
+      user.email = resolution.user.email;
+      user.type = "regular";
+      return true;
+    },
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id as string;
         token.type = user.type;
       }
 
+      // Unverified accounts are checked again on every session read, so a
+      // link opened on another device takes effect without signing in again
+      if (token.type === "regular" && !token.verified) {
+        const account = await getUserById({ id: token.id });
+        token.verified = !!account?.email_verified_at;
+      }
+
+      // Also checked on every read, so removing an address from
+      // ADMIN_EMAILS takes effect right away
+      if (token.type !== "guest") {
+        token.type =
+          token.verified && isAdminEmail(token.email) ? "admin" : "regular";
+      }
+
       return token;
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id;
         session.user.type = token.type;
+        session.user.verified = !!token.verified;
       }
 
       return session;
@@ -1,11 +1,21 @@
 import { redirect } from "next/navigation";
 import { AuthForm } from "@/components/auth-form";
+import { OAuthButtons } from "@/components/oauth-buttons";
+import { getEnabledOAuthProviders } from "@/lib/oauth";
+import { getOAuthErrorMessage } from "@/lib/oauth-providers";
 import { auth } from "../auth";
 
-export default async function LoginPage() {
+interface PageProps {
+  searchParams: Promise<{ error?: string; reset?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: PageProps) {
   const session = await auth();
+  const { error, reset } = await searchParams;
+  const oauthError = getOAuthErrorMessage(error);
 
-  if (session) {
+  // Guests may sign in or register; their chats are imported afterwards
+  if (session && session.user.type !== "guest") {
     redirect("/");
   }
 
@@ -19,6 +29,15 @@ export default async function LoginPage() {
           </p>
         </div>
         <div className="flex flex-col space-y-4 bg-muted/50 px-4 py-8 sm:px-16">
+          {reset === "true" && (
+            <div className="text-green-600 text-sm dark:text-green-400">
+              Your password was reset. Sign in with your new password.
+            </div>
+          )}
+          {oauthError && (
+            <div className="text-red-500 text-sm">{oauthError}</div>
+          )}
+          <OAuthButtons providers={getEnabledOAuthProviders()} />
           <AuthForm type="signin" />
         </div>
       </div>
@@ -1,11 +1,21 @@
 import { redirect } from "next/navigation";
 import { AuthForm } from "@/components/auth-form";
+import { OAuthButtons } from "@/components/oauth-buttons";
+import { getEnabledOAuthProviders } from "@/lib/oauth";
+import { getOAuthErrorMessage } from "@/lib/oauth-providers";
 import { auth } from "../auth";
 
-export default async function RegisterPage() {
+interface PageProps {
+  searchParams: Promise<{ error?: string }>;
+}
+
+export default async function RegisterPage({ searchParams }: PageProps) {
   const session = await auth();
+  const { error } = await searchParams;
+  const oauthError = getOAuthErrorMessage(error);
 
-  if (session) {
+  // Guests may sign in or register; their chats are imported afterwards
+  if (session && session.user.type !== "guest") {
     redirect("/");
   }
 
@@ -21,6 +31,10 @@ export default async function RegisterPage() {
           </p>
         </div>
         <div className="flex flex-col space-y-4 bg-muted/50 px-4 py-8 sm:px-16">
+          {oauthError && (
+            <div className="text-red-500 text-sm">{oauthError}</div>
+          )}
+          <OAuthButtons providers={getEnabledOAuthProviders()} />
           <AuthForm type="signup" />
         </div>
       </div>
@@ -0,0 +1,40 @@
+import Link from "next/link";
+import { ResetPasswordForm } from "@/components/password-reset-forms";
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function ResetPasswordPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="flex h-screen w-screen items-center justify-center bg-background">
+      <div className="w-full max-w-md overflow-hidden rounded-2xl border border-border shadow-xl">
+        <div className="flex flex-col items-center justify-center space-y-3 border-border border-b bg-background px-4 py-6 pt-8 text-center sm:px-16">
+          <h3 className="font-semibold text-foreground text-xl">
+            Reset Password
+          </h3>
+          <p className="text-muted-foreground text-sm">
+            Choose a new password for your account
+          </p>
+        </div>
+        <div className="flex flex-col space-y-4 bg-muted/50 px-4 py-8 sm:px-16">
+          {token ? (
+            <ResetPasswordForm token={token} />
+          ) : (
+            <p className="text-center text-muted-foreground text-sm">
+              This reset link is invalid.{" "}
+              <Link
+                href="/forgot-password"
+                className="text-primary hover:underline"
+              >
+                Request a new one
+              </Link>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
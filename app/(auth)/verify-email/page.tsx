@@ -0,0 +1,59 @@
+import Link from "next/link";
+import { consumeAuthToken } from "@/lib/auth-tokens";
+import { markEmailVerified } from "@/lib/db/queries";
+import { logger } from "@/lib/logger";
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+async function verifyEmail(token: string | undefined) {
+  if (!token) {
+    return false;
+  }
+
+  const userId = await consumeAuthToken(token, "email_verification");
+  if (!userId) {
+    return false;
+  }
+
+  await markEmailVerified({ userId });
+  logger.info("Email verified", { userId });
+  return true;
+}
+
+export default async function VerifyEmailPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+  const verified = await verifyEmail(token);
+
+  return (
+    <div className="flex h-screen w-screen items-center justify-center bg-background">
+      <div className="w-full max-w-md overflow-hidden rounded-2xl border border-border shadow-xl">
+        <div className="flex flex-col items-center justify-center space-y-3 border-border border-b bg-background px-4 py-6 pt-8 text-center sm:px-16">
+          <h3 className="font-semibold text-foreground text-xl">
+            {verified ? "Email Verified" : "Verification Failed"}
+          </h3>
+          <p className="text-muted-foreground text-sm">
+            {verified
+              ? "Thanks for confirming your email. Your account is all set."
+              : "This verification link is invalid or has expired."}
+          </p>
+        </div>
+        <div className="flex flex-col space-y-4 bg-muted/50 px-4 py-8 text-center text-sm sm:px-16">
+          {verified ? (
+            <Link
+              href="/?refresh=session"
+              className="text-primary hover:underline"
+            >
+              Start building
+            </Link>
+          ) : (
+            <Link href="/settings" className="text-primary hover:underline">
+              Send a new link from settings
+            </Link>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { notFound } from "next/navigation";
+import { auth } from "@/app/(auth)/auth";
+import { AdminConsole } from "@/components/admin/admin-console";
+import { AppHeader } from "@/components/shared/app-header";
+
+export default async function AdminPage() {
+  const session = await auth();
+
+  // Don't reveal the console to anyone else
+  if (session?.user?.type !== "admin") {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-black">
+      <AppHeader />
+
+      <main className="mx-auto max-w-5xl px-4 py-8 sm:px-6 lg:px-8">
+        <AdminConsole />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { accountParamsSchema, parseInput } from "@/lib/api-schemas";
+import {
+  deleteAccount,
+  getAccountsByUserId,
+  getUserById,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Unlinks a provider. Users without a password must keep at least one
+// provider so they can still sign in.
+export const DELETE = withRequestLogging(
+  "/api/accounts/[provider]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ provider: string }> },
+  ) => {
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
+
+      if (!session?.user?.id || session.user.type === "guest") {
+        return new ChatSDKError("unauthorized:account").toResponse();
+      }
+      const userId = session.user.id;
+
+      const parsedParams = parseInput(accountParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { provider } = parsedParams;
+
+      const [user, linkedAccounts] = await Promise.all([
+        getUserById({ id: userId }),
+        getAccountsByUserId({ userId }),
+      ]);
+      if (!linkedAccounts.some((account) => account.provider === provider)) {
+        return new ChatSDKError("not_found:account").toResponse();
+      }
+      if (!user?.password && linkedAccounts.length === 1) {
+        return new ChatSDKError(
+          "bad_request:account",
+          "It's the only way left to sign in to this account",
+        ).toResponse();
+      }
+
+      await deleteAccount({ userId, provider });
+
+      logger.info("Account unlinked", { userId, provider });
+
+      return NextResponse.json({ provider, deleted: true });
+    } catch (error) {
+      logger.error("Error unlinking account", { error });
+      return toChatSDKError(error, "account").toResponse();
+    }
+  },
+);
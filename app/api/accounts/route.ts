@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { getAccountsByUserId, getUserById } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import { getEnabledOAuthProviders } from "@/lib/oauth";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// The providers linked to the user, and which ones they could link
+export const GET = withRequestLogging("/api/accounts", async () => {
+  try {
+    const session = await auth();
+    setRequestContext({ userType: session?.user?.type });
+
+    if (!session?.user?.id || session.user.type === "guest") {
+      return new ChatSDKError("unauthorized:account").toResponse();
+    }
+
+    const [user, linkedAccounts] = await Promise.all([
+      getUserById({ id: session.user.id }),
+      getAccountsByUserId({ userId: session.user.id }),
+    ]);
+
+    return NextResponse.json({
+      accounts: linkedAccounts.map((account) => ({
+        provider: account.provider,
+        createdAt: account.created_at.toISOString(),
+      })),
+      providers: getEnabledOAuthProviders(),
+      hasPassword: !!user?.password,
+    });
+  } catch (error) {
+    logger.error("Error fetching accounts", { error });
+    return toChatSDKError(error, "account").toResponse();
+  }
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/admin";
+import { getTopAnonymousIPs } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+const WINDOW_DAYS = 7;
+const TOP_IP_COUNT = 50;
+
+// Client addresses that created the most anonymous chats recently
+export const GET = withRequestLogging("/api/admin/anonymous", async () => {
+  try {
+    const admin = await authorizeAdmin();
+    if (admin instanceof ChatSDKError) {
+      return admin.toResponse();
+    }
+
+    const ips = await getTopAnonymousIPs({
+      since: new Date(Date.now() - WINDOW_DAYS * 24 * 60 * 60 * 1000),
+      limit: TOP_IP_COUNT,
+    });
+
+    return NextResponse.json({
+      days: WINDOW_DAYS,
+      ips: ips.map((ip) => ({
+        ipAddress: ip.ipAddress,
+        chatCount: ip.chatCount,
+        lastSeenAt: ip.lastSeenAt?.toISOString(),
+        banId: ip.banId ?? undefined,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error fetching anonymous usage for admin", { error });
+    return toChatSDKError(error, "admin").toResponse();
+  }
+});
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/admin";
+import { adminAuditQuerySchema, parseInput } from "@/lib/api-schemas";
+import { getAdminAuditLogs } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// The most recent admin actions
+export const GET = withRequestLogging(
+  "/api/admin/audit",
+  async (request: NextRequest) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const query = parseInput(
+        adminAuditQuerySchema,
+        Object.fromEntries(request.nextUrl.searchParams),
+      );
+      if (query instanceof ChatSDKError) {
+        return query.toResponse();
+      }
+
+      const entries = await getAdminAuditLogs({
+        limit: query.limit ?? DEFAULT_PAGE_SIZE,
+        offset: query.offset,
+      });
+
+      return NextResponse.json({
+        entries: entries.map((entry) => ({
+          id: entry.id,
+          adminEmail: entry.adminEmail ?? undefined,
+          action: entry.action,
+          target: entry.target,
+          details: entry.details ? JSON.parse(entry.details) : undefined,
+          createdAt: entry.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      logger.error("Error fetching admin audit log", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin, recordAdminAction } from "@/lib/admin";
+import { banParamsSchema, parseInput } from "@/lib/api-schemas";
+import { deleteBan } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Lifts a ban
+export const DELETE = withRequestLogging(
+  "/api/admin/bans/[banId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ banId: string }> },
+  ) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const parsedParams = parseInput(banParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { banId } = parsedParams;
+
+      const ban = await deleteBan({ id: banId });
+      if (!ban) {
+        return new ChatSDKError("not_found:admin").toResponse();
+      }
+
+      await recordAdminAction(
+        admin.userId,
+        "ban.removed",
+        ban.user_id ?? ban.ip_address ?? banId,
+      );
+
+      return NextResponse.json({ id: banId, deleted: true });
+    } catch (error) {
+      logger.error("Error removing ban", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
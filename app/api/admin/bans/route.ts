@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin, getUserType, recordAdminAction } from "@/lib/admin";
+import { createBanSchema, parseRequestBody } from "@/lib/api-schemas";
+import { createBan, getBans, getUserById } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+export const GET = withRequestLogging("/api/admin/bans", async () => {
+  try {
+    const admin = await authorizeAdmin();
+    if (admin instanceof ChatSDKError) {
+      return admin.toResponse();
+    }
+
+    const bans = await getBans();
+
+    return NextResponse.json({
+      bans: bans.map((ban) => ({
+        id: ban.id,
+        userId: ban.userId ?? undefined,
+        email: ban.email ?? undefined,
+        ipAddress: ban.ipAddress ?? undefined,
+        reason: ban.reason ?? undefined,
+        createdAt: ban.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    logger.error("Error fetching bans", { error });
+    return toChatSDKError(error, "admin").toResponse();
+  }
+});
+
+// Bans a user or a client address
+export const POST = withRequestLogging(
+  "/api/admin/bans",
+  async (request: NextRequest) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const body = await parseRequestBody(request, createBanSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      if ("userId" in body) {
+        const user = await getUserById({ id: body.userId });
+        if (!user) {
+          return new ChatSDKError("not_found:admin").toResponse();
+        }
+        if (user.id === admin.userId || getUserType(user) === "admin") {
+          return new ChatSDKError(
+            "bad_request:admin",
+            "Admins can't be banned",
+          ).toResponse();
+        }
+      }
+
+      const ban = await createBan({ ...body, createdBy: admin.userId });
+      if (!ban) {
+        return new ChatSDKError(
+          "bad_request:admin",
+          "Already banned",
+        ).toResponse();
+      }
+
+      if ("userId" in body) {
+        await recordAdminAction(admin.userId, "user.banned", body.userId, {
+          reason: body.reason,
+        });
+      } else {
+        await recordAdminAction(admin.userId, "ip.banned", body.ipAddress, {
+          reason: body.reason,
+        });
+      }
+
+      return NextResponse.json({
+        id: ban.id,
+        userId: ban.user_id ?? undefined,
+        ipAddress: ban.ip_address ?? undefined,
+        reason: ban.reason ?? undefined,
+        createdAt: ban.created_at.toISOString(),
+      });
+    } catch (error) {
+      logger.error("Error creating ban", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
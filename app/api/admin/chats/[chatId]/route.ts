@@ -0,0 +1,56 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin, recordAdminAction } from "@/lib/admin";
+import { chatParamsSchema, parseInput } from "@/lib/api-schemas";
+import {
+  deleteChat,
+  deleteChatOwnership,
+  getChatOwnership,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { getV0ForChat } from "@/lib/v0/keys";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+// Deletes any chat, such as one reported for abuse
+export const DELETE = withRequestLogging(
+  "/api/admin/chats/[chatId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
+
+      const ownership = await getChatOwnership({ v0ChatId: chatId });
+      const { v0 } = await getV0ForChat(ownership);
+      const result = await v0.chats.delete({ chatId });
+
+      // Remove local records only once v0 has deleted the chat
+      await deleteChat({ v0ChatId: chatId });
+      await deleteChatOwnership({ v0ChatId: chatId });
+
+      await recordAdminAction(admin.userId, "chat.deleted", chatId, {
+        ownerId: ownership?.user_id,
+      });
+
+      if (ownership) {
+        await emitWebhookEvent(ownership.user_id, "chat.deleted", { chatId });
+      }
+
+      return NextResponse.json(result);
+    } catch (error) {
+      logger.error("Error deleting chat for admin", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
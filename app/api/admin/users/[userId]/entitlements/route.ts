@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin, recordAdminAction } from "@/lib/admin";
+import {
+  adminUserParamsSchema,
+  parseInput,
+  parseRequestBody,
+  updateEntitlementsSchema,
+} from "@/lib/api-schemas";
+import {
+  deleteEntitlementOverride,
+  getUserById,
+  setEntitlementOverride,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Overrides the user's limits. Limits left null keep the default for the
+// user's type.
+export const PUT = withRequestLogging(
+  "/api/admin/users/[userId]/entitlements",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> },
+  ) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const parsedParams = parseInput(adminUserParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { userId } = parsedParams;
+
+      const body = await parseRequestBody(request, updateEntitlementsSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const user = await getUserById({ id: userId });
+      if (!user) {
+        return new ChatSDKError("not_found:admin").toResponse();
+      }
+
+      await setEntitlementOverride({
+        userId,
+        ...body,
+        updatedBy: admin.userId,
+      });
+      await recordAdminAction(admin.userId, "entitlements.updated", userId, {
+        ...body,
+      });
+
+      return NextResponse.json({ userId, overrides: body });
+    } catch (error) {
+      logger.error("Error updating entitlements", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
+
+// Removes the user's overrides so the defaults for their type apply again
+export const DELETE = withRequestLogging(
+  "/api/admin/users/[userId]/entitlements",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> },
+  ) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const parsedParams = parseInput(adminUserParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { userId } = parsedParams;
+
+      const deleted = await deleteEntitlementOverride({ userId });
+      if (!deleted) {
+        return new ChatSDKError("not_found:admin").toResponse();
+      }
+
+      await recordAdminAction(admin.userId, "entitlements.reset", userId);
+
+      return NextResponse.json({ userId, overrides: null });
+    } catch (error) {
+      logger.error("Error resetting entitlements", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
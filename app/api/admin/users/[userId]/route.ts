@@ -0,0 +1,80 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin, getUserType } from "@/lib/admin";
+import { adminUserParamsSchema, parseInput } from "@/lib/api-schemas";
+import {
+  getChatsByUserId,
+  getEntitlementOverride,
+  getUserById,
+} from "@/lib/db/queries";
+import { getUserEntitlements } from "@/lib/entitlements";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// A user with their effective entitlements, the overrides behind them and
+// the chats they own
+export const GET = withRequestLogging(
+  "/api/admin/users/[userId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ userId: string }> },
+  ) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const parsedParams = parseInput(adminUserParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { userId } = parsedParams;
+
+      const user = await getUserById({ id: userId });
+      if (!user) {
+        return new ChatSDKError("not_found:admin").toResponse();
+      }
+
+      const type = getUserType(user);
+      const verified = Boolean(user.email_verified_at);
+
+      const [entitlements, override, chats] = await Promise.all([
+        getUserEntitlements({ id: user.id, type, verified }),
+        getEntitlementOverride({ userId }),
+        getChatsByUserId({ userId }),
+      ]);
+
+      return NextResponse.json({
+        id: user.id,
+        email: user.email,
+        type,
+        verified,
+        createdAt: user.created_at.toISOString(),
+        entitlements,
+        overrides: override
+          ? {
+              maxMessagesPerDay: override.max_messages_per_day,
+              maxAttachmentSize: override.max_attachment_size,
+              maxWebhooks: override.max_webhooks,
+              maxTeams: override.max_teams,
+              updatedAt: override.updated_at.toISOString(),
+            }
+          : null,
+        // Team chats the user can see belong to their teammates
+        chats: chats
+          .filter((chat) => chat.ownerId === userId)
+          .map((chat) => ({
+            id: chat.v0ChatId,
+            name: chat.name ?? undefined,
+            privacy: chat.privacy ?? "private",
+            messageCount: chat.messageCount ?? 0,
+            createdAt: chat.createdAt.toISOString(),
+          })),
+      });
+    } catch (error) {
+      logger.error("Error fetching user for admin", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
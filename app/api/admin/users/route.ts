@@ -0,0 +1,54 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { authorizeAdmin } from "@/lib/admin";
+import { adminUsersQuerySchema, parseInput } from "@/lib/api-schemas";
+import { getUsersWithUsage } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Registered users with their chat counts and message usage
+export const GET = withRequestLogging(
+  "/api/admin/users",
+  async (request: NextRequest) => {
+    try {
+      const admin = await authorizeAdmin();
+      if (admin instanceof ChatSDKError) {
+        return admin.toResponse();
+      }
+
+      const query = parseInput(
+        adminUsersQuerySchema,
+        Object.fromEntries(request.nextUrl.searchParams),
+      );
+      if (query instanceof ChatSDKError) {
+        return query.toResponse();
+      }
+
+      const users = await getUsersWithUsage({
+        search: query.search || undefined,
+        sort: query.sort,
+        limit: query.limit ?? DEFAULT_PAGE_SIZE,
+        offset: query.offset,
+      });
+
+      return NextResponse.json({
+        users: users.map((user) => ({
+          id: user.id,
+          email: user.email,
+          verified: Boolean(user.emailVerifiedAt),
+          chatCount: user.chatCount,
+          messageCount: user.messageCount,
+          messagesToday: user.messagesToday,
+          banId: user.banId ?? undefined,
+          hasEntitlementOverrides: user.hasEntitlementOverrides,
+          createdAt: user.createdAt.toISOString(),
+        })),
+      });
+    } catch (error) {
+      logger.error("Error fetching users for admin", { error });
+      return toChatSDKError(error, "admin").toResponse();
+    }
+  },
+);
@@ -0,0 +1,54 @@
+import type { NextRequest } from "next/server";
+import {
+  getAttachment,
+  isAttachmentId,
+  verifyAttachmentSignature,
+} from "@/lib/attachments/storage";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Serves an uploaded attachment to holders of a signed URL, which is how v0
+// fetches the files attached to a message
+export const GET = withRequestLogging(
+  "/api/attachments/[attachmentId]",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ attachmentId: string }> },
+  ) => {
+    try {
+      const { attachmentId } = await params;
+      const { searchParams } = request.nextUrl;
+
+      const remainingSeconds = isAttachmentId(attachmentId)
+        ? verifyAttachmentSignature(
+            attachmentId,
+            searchParams.get("expires"),
+            searchParams.get("signature"),
+          )
+        : null;
+
+      if (remainingSeconds === null) {
+        return new ChatSDKError("forbidden:attachment").toResponse();
+      }
+
+      const attachment = await getAttachment(attachmentId);
+      if (!attachment) {
+        return new ChatSDKError("not_found:attachment").toResponse();
+      }
+
+      return new Response(attachment.data, {
+        headers: {
+          "Content-Type": attachment.metadata.contentType,
+          "Content-Length": String(attachment.data.byteLength),
+          "Cache-Control": `private, max-age=${remainingSeconds}`,
+          "Content-Security-Policy": "default-src 'none'",
+          "X-Content-Type-Options": "nosniff",
+        },
+      });
+    } catch (error) {
+      logger.error("Attachment fetch error", { error });
+      return toChatSDKError(error, "attachment").toResponse();
+    }
+  },
+);
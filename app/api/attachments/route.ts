@@ -0,0 +1,147 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { checkBan } from "@/lib/admin";
+import { extractAttachmentText } from "@/lib/attachments/extract";
+import {
+  matchesFileSignature,
+  resolveContentType,
+} from "@/lib/attachments/file-types";
+import {
+  getSignedAttachmentUrl,
+  saveAttachment,
+} from "@/lib/attachments/storage";
+import { anonymousEntitlements, getUserEntitlements } from "@/lib/entitlements";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 16 * 1024;
+const MAX_FILE_NAME_LENGTH = 255;
+
+function formatSize(bytes: number): string {
+  return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`;
+}
+
+export const POST = withRequestLogging(
+  "/api/attachments",
+  async (request: NextRequest) => {
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
+
+      const rateLimitResult = await rateLimit(
+        "upload",
+        getRateLimitIdentifier(request.headers, session?.user?.id),
+      );
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      const banError = await checkBan(session?.user?.id, request.headers);
+      if (banError) {
+        return banError.toResponse();
+      }
+
+      const entitlements = session?.user
+        ? await getUserEntitlements(session.user)
+        : anonymousEntitlements;
+      const tooLarge = new ChatSDKError(
+        "bad_request:attachment",
+        `Files can be at most ${formatSize(entitlements.maxAttachmentSize)}.`,
+      );
+
+      // Reject oversized uploads before reading the body into memory
+      const contentLength = Number(request.headers.get("content-length"));
+      if (
+        contentLength >
+        entitlements.maxAttachmentSize + MULTIPART_OVERHEAD_BYTES
+      ) {
+        return tooLarge.toResponse();
+      }
+
+      const formData = await request.formData().catch(() => null);
+      const file = formData?.get("file");
+
+      if (!(file instanceof File)) {
+        return new ChatSDKError(
+          "bad_request:attachment",
+          "No file was uploaded.",
+        ).toResponse();
+      }
+
+      const name = file.name.slice(0, MAX_FILE_NAME_LENGTH);
+      const contentType = resolveContentType(file.name, file.type);
+
+      if (!entitlements.attachmentTypes.includes(contentType)) {
+        return new ChatSDKError(
+          "bad_request:attachment",
+          `${name} isn't a supported file type.`,
+        ).toResponse();
+      }
+
+      if (file.size > entitlements.maxAttachmentSize) {
+        return tooLarge.toResponse();
+      }
+
+      const data = new Uint8Array(await file.arrayBuffer());
+
+      const unreadable = new ChatSDKError(
+        "bad_request:attachment",
+        `${name} doesn't look like a valid ${contentType} file.`,
+      );
+
+      if (!matchesFileSignature(contentType, data)) {
+        return unreadable.toResponse();
+      }
+
+      let extractedText: string | null;
+      try {
+        extractedText = extractAttachmentText(contentType, data);
+      } catch {
+        return unreadable.toResponse();
+      }
+
+      const id = await saveAttachment({
+        data,
+        metadata: {
+          name,
+          contentType,
+          ...(extractedText !== null && { extractedText }),
+        },
+      });
+      const { url, expiresAt } = getSignedAttachmentUrl(
+        id,
+        request.nextUrl.origin,
+      );
+
+      logger.info("Attachment uploaded", {
+        attachmentId: id,
+        contentType,
+        size: file.size,
+        extracted: extractedText !== null,
+      });
+
+      return withRateLimitHeaders(
+        NextResponse.json({
+          id,
+          url,
+          name,
+          contentType,
+          size: file.size,
+          expiresAt: expiresAt.toISOString(),
+        }),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Attachment upload error", { error });
+      return toChatSDKError(error, "attachment").toResponse();
+    }
+  },
+);
@@ -1,10 +1,24 @@
 import { redirect } from "next/navigation";
 import { signIn } from "@/app/(auth)/auth";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+} from "@/lib/rate-limit/limiter";
 
 export async function GET(request: Request) {
   const url = new URL(request.url);
   const redirectUrl = url.searchParams.get("redirectUrl");
 
+  // Each guest sign-in creates a user, so it shares the auth limits
+  const rateLimitResult = await rateLimit(
+    "auth",
+    getRateLimitIdentifier(request.headers),
+  );
+  if (!rateLimitResult.success) {
+    return rateLimitExceededResponse(rateLimitResult);
+  }
+
   await signIn("guest", {
     redirect: false,
   });
@@ -1,35 +1,45 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "v0-sdk";
+import { chatIdBodySchema, parseRequestBody } from "@/lib/api-schemas";
+import { authorizeChatOwner } from "@/lib/chat-access";
+import { deleteChat, deleteChatOwnership } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { getV0ForChat } from "@/lib/v0/keys";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
+export const POST = withRequestLogging(
+  "/api/chat/delete",
+  async (request: NextRequest) => {
+    try {
+      const body = await parseRequestBody(request, chatIdBodySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+      const { chatId } = body;
 
-export async function POST(request: NextRequest) {
-  try {
-    const { chatId } = await request.json();
+      const owner = await authorizeChatOwner(chatId);
+      if (owner instanceof ChatSDKError) {
+        return owner.toResponse();
+      }
 
-    if (!chatId) {
-      return NextResponse.json(
-        { error: "Chat ID is required" },
-        { status: 400 },
-      );
-    }
+      // Delete the chat using v0 SDK
+      const { v0 } = await getV0ForChat(owner.ownership);
+      const result = await v0.chats.delete({
+        chatId,
+      });
+
+      await deleteChat({ v0ChatId: chatId });
+      await deleteChatOwnership({ v0ChatId: chatId });
 
-    // Delete the chat using v0 SDK
-    const result = await v0.chats.delete({
-      chatId,
-    });
+      logger.info("Chat deleted", { chatId });
 
-    console.log("Chat deleted successfully:", chatId);
+      await emitWebhookEvent(owner.userId, "chat.deleted", { chatId });
 
-    return NextResponse.json(result);
-  } catch (error) {
-    console.error("Error deleting chat:", error);
-    return NextResponse.json(
-      { error: "Failed to delete chat" },
-      { status: 500 },
-    );
-  }
-}
+      return NextResponse.json(result);
+    } catch (error) {
+      logger.error("Error deleting chat", { error });
+      return toChatSDKError(error, "chat").toResponse();
+    }
+  },
+);
@@ -1,33 +1,139 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "v0-sdk";
+import { auth } from "@/app/(auth)/auth";
+import { checkBan } from "@/lib/admin";
+import { chatIdBodySchema, parseRequestBody } from "@/lib/api-schemas";
+import { grantChatCapability } from "@/lib/capabilities";
+import { authorizeChatRead, authorizeChatWrite } from "@/lib/chat-access";
+import { createChatOwnership, getChatOwnership } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { v0 } from "@/lib/v0/client";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { getV0ForChat, getV0ForUser } from "@/lib/v0/keys";
+import { saveChatMetadata } from "@/lib/v0/sync";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
+// Both the user who forked the chat and the source chat's owner, if someone
+// else, are told about the fork
+async function notifyForked({
+  chatId,
+  forkedChatId,
+  userIds,
+}: {
+  chatId: string;
+  forkedChatId: string;
+  userIds: Array<string | undefined>;
+}) {
+  for (const userId of new Set(userIds)) {
+    if (userId) {
+      await emitWebhookEvent(userId, "chat.forked", { chatId, forkedChatId });
+    }
+  }
+}
 
-export async function POST(request: NextRequest) {
-  try {
-    const { chatId } = await request.json();
+export const POST = withRequestLogging(
+  "/api/chat/fork",
+  async (request: NextRequest) => {
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
 
-    if (!chatId) {
-      return NextResponse.json(
-        { error: "Chat ID is required" },
-        { status: 400 },
+      const rateLimitResult = await rateLimit(
+        "fork",
+        getRateLimitIdentifier(request.headers, session?.user?.id),
       );
-    }
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
 
-    // Fork the chat using v0 SDK
-    const forkedChat = await v0.chats.fork({
-      chatId,
-      privacy: "private", // Default to private
-    });
+      const banError = await checkBan(session?.user?.id, request.headers);
+      if (banError) {
+        return banError.toResponse();
+      }
 
-    console.log("Chat forked successfully:", forkedChat.id);
+      const body = await parseRequestBody(request, chatIdBodySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+      const { chatId } = body;
 
-    return NextResponse.json(forkedChat);
-  } catch (error) {
-    console.error("Error forking chat:", error);
-    return NextResponse.json({ error: "Failed to fork chat" }, { status: 500 });
-  }
-}
+      if (!session?.user?.id) {
+        // Anonymous visitors can only fork chats they hold a capability for
+        const access = await authorizeChatWrite(chatId);
+        if (access instanceof ChatSDKError) {
+          return new ChatSDKError(`${access.type}:fork`).toResponse();
+        }
+
+        // Anonymous chats always use the shared key
+        const forkedChat = await v0.chats.fork({ chatId, privacy: "private" });
+
+        await grantChatCapability(forkedChat.id);
+        await saveChatMetadata(forkedChat);
+
+        logger.info("Chat forked anonymously", {
+          chatId,
+          forkedChatId: forkedChat.id,
+        });
+
+        return withRateLimitHeaders(
+          NextResponse.json(forkedChat),
+          rateLimitResult,
+        );
+      }
+
+      const ownership = await getChatOwnership({ v0ChatId: chatId });
+      const isOwner = ownership?.user_id === session.user.id;
+
+      if (!isOwner) {
+        // Other users' chats can only be forked by those who can read them,
+        // such as when they are shared or shared with the user's team
+        const access = await authorizeChatRead(chatId);
+        if (access instanceof ChatSDKError) {
+          return new ChatSDKError(`${access.type}:fork`).toResponse();
+        }
+      }
+
+      // Owners fork their chats in the v0 account the chat lives in. Anyone
+      // else forks with their own key or the shared one, never the owner's.
+      const { v0: chatV0, keyUserId } = isOwner
+        ? await getV0ForChat(ownership)
+        : await getV0ForUser(session.user.id);
+      const forkedChat = await chatV0.chats.fork({
+        chatId,
+        privacy: "private", // Default to private
+      });
+
+      await createChatOwnership({
+        v0ChatId: forkedChat.id,
+        userId: session.user.id,
+        v0KeyUserId: keyUserId,
+        // Keep attribution when forking someone else's chat
+        ...(!isOwner && { forkedFrom: chatId }),
+      });
+
+      await saveChatMetadata(forkedChat);
+
+      logger.info("Chat forked", { chatId, forkedChatId: forkedChat.id });
+
+      await notifyForked({
+        chatId,
+        forkedChatId: forkedChat.id,
+        userIds: [session.user.id, ownership?.user_id],
+      });
+
+      return withRateLimitHeaders(
+        NextResponse.json(forkedChat),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Error forking chat", { error });
+      return toChatSDKError(error, "fork").toResponse();
+    }
+  },
+);
@@ -1,220 +1,369 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { type ChatDetail, createClient } from "v0-sdk";
+import type { Session } from "next-auth";
+import type { ChatDetail } from "v0-sdk";
 import { auth } from "@/app/(auth)/auth";
+import { checkBan } from "@/lib/admin";
+import { parseRequestBody, sendMessageSchema } from "@/lib/api-schemas";
+import { prepareV0MessageInput } from "@/lib/attachments/forward";
+import { grantChatCapability } from "@/lib/capabilities";
+import { authorizeChatWrite } from "@/lib/chat-access";
+import { getClientIPBucket } from "@/lib/client-ip";
 import {
   createAnonymousChatLog,
   createChatOwnership,
-  getChatCountByIP,
-  getChatCountByUserId,
+  createGeneration,
+  createMessageUsage,
+  getMessageCountByIP,
+  getMessageCountByUserId,
+  updateMessageUsage,
 } from "@/lib/db/queries";
-import {
-  anonymousEntitlements,
-  entitlementsByUserType,
-} from "@/lib/entitlements";
+import type { MessageUsageOutcome } from "@/lib/db/schema";
+import { anonymousEntitlements, getUserEntitlements } from "@/lib/entitlements";
 import { ChatSDKError } from "@/lib/errors";
+import { CHAT_ID_HEADER, GENERATION_ID_HEADER } from "@/lib/generations";
+import {
+  logger,
+  redact,
+  setRequestContext,
+  withRequestLogging,
+} from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { branchChatAtMessage } from "@/lib/v0/branch";
+import { toChatSDKError } from "@/lib/v0/errors";
+import {
+  captureGeneration,
+  getRegenerationInput,
+  type RegenerationInput,
+  recordGeneration,
+  recordGenerationFailure,
+  stopGeneration,
+} from "@/lib/v0/generation";
+import { getV0ForChatId, getV0ForUser } from "@/lib/v0/keys";
+import { saveChatMetadata } from "@/lib/v0/sync";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
+// Usage bookkeeping shouldn't fail a message v0 has already handled
+async function recordUsageOutcome(
+  usageId: string,
+  outcome: MessageUsageOutcome,
+  v0ChatId?: string,
+) {
+  try {
+    await updateMessageUsage({ id: usageId, outcome, v0ChatId });
+  } catch (error) {
+    logger.error("Failed to record message usage outcome", { error });
+  }
+}
+
+// New chats belong to the signed-in user, or to the anonymous visitor's
+// browser through a capability cookie. Anonymous chats are also logged by IP
+// for rate limiting.
+async function recordNewChat(
+  chatId: string,
+  userId: string | undefined,
+  clientIP: string | null,
+  parentChatId: string | undefined,
+  v0KeyUserId: string | null,
+) {
+  try {
+    if (userId) {
+      await createChatOwnership({
+        v0ChatId: chatId,
+        userId,
+        parentChatId,
+        v0KeyUserId,
+      });
+      logger.info("Chat ownership created", { chatId });
+      await emitWebhookEvent(userId, "chat.created", { chatId, parentChatId });
+    } else if (clientIP) {
+      await grantChatCapability(chatId);
+      await createAnonymousChatLog({ ipAddress: clientIP, v0ChatId: chatId });
+      logger.info("Anonymous chat logged", { chatId, ip: clientIP });
+    }
+  } catch (error) {
+    // Don't fail the request if the database save fails
+    logger.error("Failed to create chat ownership/log", { error });
+  }
+}
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get("x-forwarded-for");
-  const realIP = request.headers.get("x-real-ip");
+// Daily message allowance for the shared key, counted per message sent to v0
+async function checkDailyAllowance(
+  session: Session | null,
+  clientIP: string | null,
+): Promise<ChatSDKError | undefined> {
+  if (session?.user?.id) {
+    // Authenticated user rate limiting
+    const messageCount = await getMessageCountByUserId({
+      userId: session.user.id,
+      differenceInHours: 24,
+    });
 
-  if (forwarded) {
-    return forwarded.split(",")[0].trim();
+    const { maxMessagesPerDay } = await getUserEntitlements(session.user);
+    if (messageCount >= maxMessagesPerDay) {
+      return new ChatSDKError("rate_limit:chat");
+    }
+    return;
   }
 
-  if (realIP) {
-    return realIP;
+  // Anonymous user rate limiting, which needs a trustworthy IP
+  if (!clientIP) {
+    return new ChatSDKError(
+      "bad_request:api",
+      "Unable to determine your IP address. Please sign in to continue.",
+    );
   }
 
-  // Fallback to connection remote address or unknown
-  return "unknown";
+  const messageCount = await getMessageCountByIP({
+    ipAddress: clientIP,
+    differenceInHours: 24,
+  });
+
+  if (messageCount >= anonymousEntitlements.maxMessagesPerDay) {
+    return new ChatSDKError("rate_limit:chat");
+  }
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const session = await auth();
-    const { message, chatId, streaming, attachments } = await request.json();
+export const POST = withRequestLogging(
+  "/api/chat",
+  async (request: NextRequest) => {
+    let usageId: string | undefined;
+    let generationId: string | undefined;
+
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
+
+      const body = await parseRequestBody(request, sendMessageSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+      const { chatId, streaming } = body;
 
-    if (!message) {
-      return NextResponse.json(
-        { error: "Message is required" },
-        { status: 400 },
+      const rateLimitResult = await rateLimit(
+        "chat",
+        getRateLimitIdentifier(request.headers, session?.user?.id),
       );
-    }
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
 
-    // Rate limiting
-    if (session?.user?.id) {
-      // Authenticated user rate limiting
-      const chatCount = await getChatCountByUserId({
-        userId: session.user.id,
-        differenceInHours: 24,
-      });
+      const banError = await checkBan(session?.user?.id, request.headers);
+      if (banError) {
+        return banError.toResponse();
+      }
 
-      const userType = session.user.type;
-      if (chatCount >= entitlementsByUserType[userType].maxMessagesPerDay) {
-        return new ChatSDKError("rate_limit:chat").toResponse();
+      // Existing chats can only be continued by their owner, the anonymous
+      // visitor holding the chat's capability, or its team when "team-edit"
+      if (chatId) {
+        const access = await authorizeChatWrite(chatId);
+        if (access instanceof ChatSDKError) {
+          return access.toResponse();
+        }
       }
 
-      console.log("API request:", {
-        message,
-        chatId,
-        streaming,
-        userId: session.user.id,
-      });
-    } else {
-      // Anonymous user rate limiting
-      const clientIP = getClientIP(request);
-      const chatCount = await getChatCountByIP({
-        ipAddress: clientIP,
-        differenceInHours: 24,
-      });
+      // Existing chats are continued with the key they were created with, and
+      // new ones use the user's own key if they saved one
+      const { v0, keyUserId } = chatId
+        ? await getV0ForChatId(chatId)
+        : await getV0ForUser(session?.user?.id);
 
-      if (chatCount >= anonymousEntitlements.maxMessagesPerDay) {
-        return new ChatSDKError("rate_limit:chat").toResponse();
+      // Messages sent with the sender's own key draw on their own v0 quota
+      // instead of the daily allowance. Teammates continuing a chat created
+      // with its owner's key are charged to their own allowance.
+      const clientIP = getClientIPBucket(request.headers);
+      if (keyUserId === null || keyUserId !== session?.user?.id) {
+        const allowanceError = await checkDailyAllowance(session, clientIP);
+        if (allowanceError) {
+          return allowanceError.toResponse();
+        }
+      }
+
+      const v0Input: RegenerationInput | ChatSDKError = body.regenerate
+        ? await getRegenerationInput(body.chatId)
+        : await prepareV0MessageInput(body.message, body.attachments);
+      if (v0Input instanceof ChatSDKError) {
+        return v0Input.toResponse();
+      }
+      const { message, attachments, alternativeOf } = v0Input;
+
+      // An edited prompt is sent to a branch of the chat, or starts a new
+      // chat if it was the first one. The chat it was edited in is kept as
+      // the branch's parent.
+      let targetChatId = chatId;
+      let parentChatId: string | undefined;
+      if (!body.regenerate && body.editMessageId && chatId) {
+        const branch = await branchChatAtMessage(chatId, body.editMessageId);
+        if (branch instanceof ChatSDKError) {
+          return branch.toResponse();
+        }
+        parentChatId = chatId;
+        targetChatId = branch.chatId;
+        if (targetChatId) {
+          await recordNewChat(
+            targetChatId,
+            session?.user?.id,
+            clientIP,
+            parentChatId,
+            keyUserId,
+          );
+        }
       }
 
-      console.log("API request (anonymous):", {
-        message,
-        chatId,
-        streaming,
+      logger.info("Chat message received", {
+        chatId: targetChatId,
+        parentChatId,
+        streaming: Boolean(streaming),
+        regenerate: Boolean(body.regenerate),
+        userId: session?.user?.id,
         ip: clientIP,
+        message: redact(message),
+        attachments: redact(attachments),
       });
-    }
 
-    console.log("Using baseUrl:", process.env.V0_API_URL || "default");
+      const [usage] = await createMessageUsage({
+        userId: session?.user?.id,
+        ipAddress: clientIP,
+        v0ChatId: targetChatId,
+        attachmentCount: body.regenerate ? 0 : (body.attachments?.length ?? 0),
+      });
+      usageId = usage.id;
+
+      const startedAt = Date.now();
+      const generation = await createGeneration({
+        v0ChatId: targetChatId,
+        userId: session?.user?.id,
+        messageUsageId: usageId,
+        alternativeOf,
+      });
+      generationId = generation.id;
 
-    let chat: ChatDetail | ReadableStream<Uint8Array> | null = null;
+      const v0Attachments = attachments.length > 0 ? { attachments } : {};
 
-    if (chatId) {
-      // continue existing chat
       if (streaming) {
-        // Return streaming response for existing chat
-        console.log("Sending streaming message to existing chat:", {
-          chatId,
-          message,
-          responseMode: "experimental_stream",
-        });
-        chat = await v0.chats.sendMessage({
-          chatId: chatId,
-          message,
-          responseMode: "experimental_stream",
-          ...(attachments && attachments.length > 0 && { attachments }),
-        });
-        console.log("Streaming message sent to existing chat successfully");
-
-        // Return the stream directly
-        return new Response(chat as ReadableStream<Uint8Array>, {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
+        const stream = targetChatId
+          ? await v0.chats.sendMessage({
+              chatId: targetChatId,
+              message,
+              responseMode: "experimental_stream",
+              ...v0Attachments,
+            })
+          : await v0.chats.create({
+              message,
+              responseMode: "experimental_stream",
+              ...v0Attachments,
+            });
+
+        // Read the start of the stream server-side, so a new chat's owner
+        // can be recorded before the response begins
+        const captured = await captureGeneration(
+          stream as ReadableStream<Uint8Array>,
+          {
+            generationId,
+            chatId: targetChatId,
+            messageUsageId: usageId,
+            startedAt,
           },
-        });
+        );
+
+        await recordUsageOutcome(
+          usageId,
+          "success",
+          captured.chatId ?? undefined,
+        );
+
+        if (!targetChatId && captured.chatId) {
+          await recordNewChat(
+            captured.chatId,
+            session?.user?.id,
+            clientIP,
+            parentChatId,
+            keyUserId,
+          );
+        }
+
+        // The browser stopped the request before the stream began
+        if (request.signal.aborted) {
+          stopGeneration(generationId);
+        }
+
+        return withRateLimitHeaders(
+          new Response(captured.stream, {
+            headers: {
+              "Content-Type": "text/event-stream",
+              "Cache-Control": "no-cache",
+              Connection: "keep-alive",
+              [GENERATION_ID_HEADER]: generationId,
+              ...(captured.chatId && { [CHAT_ID_HEADER]: captured.chatId }),
+            },
+          }),
+          rateLimitResult,
+        );
       }
-      // Non-streaming response for existing chat
-      chat = await v0.chats.sendMessage({
-        chatId: chatId,
-        message,
-        ...(attachments && attachments.length > 0 && { attachments }),
-      });
-    } else {
-      // create new chat
-      if (streaming) {
-        // Return streaming response
-        console.log("Creating streaming chat with params:", {
-          message,
-          responseMode: "experimental_stream",
-        });
-        chat = await v0.chats.create({
-          message,
-          responseMode: "experimental_stream",
-          ...(attachments && attachments.length > 0 && { attachments }),
-        });
-        console.log("Streaming chat created successfully");
-
-        // Return the stream directly
-        return new Response(chat as ReadableStream<Uint8Array>, {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            Connection: "keep-alive",
-          },
-        });
+
+      const chat = targetChatId
+        ? await v0.chats.sendMessage({
+            chatId: targetChatId,
+            message,
+            ...v0Attachments,
+          })
+        : await v0.chats.create({
+            message,
+            responseMode: "sync",
+            ...v0Attachments,
+          });
+
+      // Type guard to ensure we have a ChatDetail and not a stream
+      if (chat instanceof ReadableStream) {
+        throw new Error("Unexpected streaming response");
       }
-      // Use sync mode
-      console.log("Creating sync chat with params:", {
-        message,
-        responseMode: "sync",
-      });
-      chat = await v0.chats.create({
-        message,
-        responseMode: "sync",
-        ...(attachments && attachments.length > 0 && { attachments }),
-      });
-      console.log("Sync chat created successfully");
-    }
 
-    // Type guard to ensure we have a ChatDetail and not a stream
-    if (chat instanceof ReadableStream) {
-      throw new Error("Unexpected streaming response");
-    }
+      const chatDetail = chat as ChatDetail;
 
-    const chatDetail = chat as ChatDetail;
+      await recordUsageOutcome(usageId, "success", chatDetail.id);
 
-    // Create ownership mapping or anonymous log for new chat
-    if (!chatId && chatDetail.id) {
-      try {
-        if (session?.user?.id) {
-          // Authenticated user - create ownership mapping
-          await createChatOwnership({
-            v0ChatId: chatDetail.id,
-            userId: session.user.id,
-          });
-          console.log("Chat ownership created:", chatDetail.id);
-        } else {
-          // Anonymous user - log for rate limiting
-          const clientIP = getClientIP(request);
-          await createAnonymousChatLog({
-            ipAddress: clientIP,
-            v0ChatId: chatDetail.id,
-          });
-          console.log("Anonymous chat logged:", chatDetail.id, "IP:", clientIP);
-        }
-      } catch (error) {
-        console.error("Failed to create chat ownership/log:", error);
-        // Don't fail the request if database save fails
+      // Recorded before the generation, so its owner is notified of both
+      if (!targetChatId && chatDetail.id) {
+        await recordNewChat(
+          chatDetail.id,
+          session?.user?.id,
+          clientIP,
+          parentChatId,
+          keyUserId,
+        );
       }
-    }
 
-    return NextResponse.json({
-      id: chatDetail.id,
-      demo: chatDetail.demo,
-      messages: chatDetail.messages?.map((msg) => ({
-        ...msg,
-        experimental_content: (
-          msg as typeof msg & { experimental_content?: unknown }
-        ).experimental_content,
-      })),
-    });
-  } catch (error) {
-    console.error("V0 API Error:", error);
+      await recordGeneration({ generationId, chat: chatDetail, startedAt });
+      await saveChatMetadata(chatDetail);
 
-    // Log more detailed error information
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
-    }
+      return withRateLimitHeaders(
+        NextResponse.json({
+          id: chatDetail.id,
+          demo: chatDetail.demo,
+          messages: chatDetail.messages?.map((msg) => ({
+            ...msg,
+            experimental_content: (
+              msg as typeof msg & { experimental_content?: unknown }
+            ).experimental_content,
+          })),
+        }),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("V0 API error", { error });
 
-    return NextResponse.json(
-      {
-        error: "Failed to process request",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    );
-  }
-}
+      if (usageId) {
+        await recordUsageOutcome(usageId, "error");
+      }
+      if (generationId) {
+        await recordGenerationFailure(generationId, error);
+      }
+
+      return toChatSDKError(error, "chat").toResponse();
+    }
+  },
+);
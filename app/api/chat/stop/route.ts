@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { generationIdBodySchema, parseRequestBody } from "@/lib/api-schemas";
+import { authorizeChatWrite } from "@/lib/chat-access";
+import { getGenerationById } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { stopGeneration } from "@/lib/v0/generation";
+
+// Stops an in-flight generation and aborts its request to v0. The stopped
+// message is recorded, and refunded, once the stream has wound down.
+export const POST = withRequestLogging(
+  "/api/chat/stop",
+  async (request: NextRequest) => {
+    try {
+      const body = await parseRequestBody(request, generationIdBodySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+      const { generationId } = body;
+
+      // The browser only learns the generation ID once a new chat has its
+      // v0 ID. Before then it stops by aborting the chat request instead.
+      const generation = await getGenerationById({ id: generationId });
+      if (!generation?.v0_chat_id) {
+        return new ChatSDKError("not_found:stream").toResponse();
+      }
+
+      // Anyone who may send messages to the chat may stop them
+      const access = await authorizeChatWrite(generation.v0_chat_id);
+      if (access instanceof ChatSDKError) {
+        return access.toResponse();
+      }
+
+      // False when the generation has already finished, or is running on
+      // another server instance
+      const stopped =
+        generation.status === "streaming" && stopGeneration(generationId);
+
+      logger.info("Generation stop requested", {
+        chatId: generation.v0_chat_id,
+        generationId,
+        stopped,
+      });
+
+      return NextResponse.json({ generationId, stopped });
+    } catch (error) {
+      logger.error("Error stopping generation", { error });
+      return toChatSDKError(error, "stream").toResponse();
+    }
+  },
+);
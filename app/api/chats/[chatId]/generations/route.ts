@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { chatParamsSchema, parseInput } from "@/lib/api-schemas";
+import { authorizeChatRead } from "@/lib/chat-access";
+import { getCompletedGenerationsByChatId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// The chat's completed generations, which tie its assistant messages to the
+// versions they produced and group regenerated responses together
+export const GET = withRequestLogging(
+  "/api/chats/[chatId]/generations",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
+
+      const result = await authorizeChatRead(chatId);
+      if (result instanceof ChatSDKError) {
+        return result.toResponse();
+      }
+
+      const generations = await getCompletedGenerationsByChatId({
+        v0ChatId: chatId,
+      });
+
+      return NextResponse.json({ generations });
+    } catch (error) {
+      logger.error("Error fetching chat generations", { error });
+      return toChatSDKError(error, "chat").toResponse();
+    }
+  },
+);
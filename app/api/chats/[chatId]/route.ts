@@ -1,67 +1,155 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "v0-sdk";
-import { auth } from "@/app/(auth)/auth";
-import { getChatOwnership } from "@/lib/db/queries";
+import {
+  chatParamsSchema,
+  parseInput,
+  parseRequestBody,
+  updateChatSchema,
+} from "@/lib/api-schemas";
+import { authorizeChatOwner, authorizeChatRead } from "@/lib/chat-access";
+import { deleteChat, deleteChatOwnership, setChatTeam } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { resolveChatTeam } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { getV0ForChat } from "@/lib/v0/keys";
+import { saveChatMetadata } from "@/lib/v0/sync";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
+export const GET = withRequestLogging(
+  "/api/chats/[chatId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
+
+      // Owners, capability holders and anyone for shared chats may read
+      const result = await authorizeChatRead(chatId);
+      if (result instanceof ChatSDKError) {
+        return result.toResponse();
+      }
+
+      const chatDetails = result.chat;
+
+      logger.info("Chat details fetched", { chatId, access: result.access });
+
+      // Clients re-fetch a chat after each generation, which keeps the local
+      // metadata mirror current for streamed messages
+      await saveChatMetadata(chatDetails);
 
-export async function GET(
-  _request: NextRequest,
-  { params }: { params: Promise<{ chatId: string }> },
-) {
-  try {
-    const session = await auth();
-    const { chatId } = await params;
-
-    console.log("Fetching chat details for ID:", chatId);
-
-    if (!chatId) {
-      return NextResponse.json(
-        { error: "Chat ID is required" },
-        { status: 400 },
-      );
+      return NextResponse.json(chatDetails);
+    } catch (error) {
+      logger.error("Error fetching chat details", { error });
+
+      return toChatSDKError(error, "chat").toResponse();
     }
+  },
+);
 
-    if (session?.user?.id) {
-      // Authenticated user - check ownership
-      const ownership = await getChatOwnership({ v0ChatId: chatId });
+export const PATCH = withRequestLogging(
+  "/api/chats/[chatId]",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
 
-      if (!ownership) {
-        return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+      const owner = await authorizeChatOwner(chatId);
+      if (owner instanceof ChatSDKError) {
+        return owner.toResponse();
       }
 
-      if (ownership.user_id !== session.user.id) {
-        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      const body = await parseRequestBody(request, updateChatSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
       }
-    } else {
-      // Anonymous user - allow access to any chat (they can only access via direct URL)
-      console.log("Anonymous access to chat:", chatId);
-    }
+      const { name, privacy } = body;
 
-    // Fetch chat details using v0 SDK
-    const chatDetails = await v0.chats.getById({ chatId });
+      const teamId =
+        privacy === undefined
+          ? owner.ownership.team_id
+          : await resolveChatTeam({
+              userId: owner.userId,
+              ownership: owner.ownership,
+              privacy,
+              teamId: body.teamId,
+            });
+      if (teamId instanceof ChatSDKError) {
+        return teamId.toResponse();
+      }
+
+      const { v0 } = await getV0ForChat(owner.ownership);
+      const updatedChat = await v0.chats.update({
+        chatId,
+        ...(name !== undefined && { name }),
+        ...(privacy !== undefined && { privacy }),
+      });
 
-    console.log("Chat details fetched:", chatDetails);
+      await saveChatMetadata(updatedChat);
+      if (teamId !== owner.ownership.team_id) {
+        await setChatTeam({ v0ChatId: chatId, teamId });
+      }
 
-    return NextResponse.json(chatDetails);
-  } catch (error) {
-    console.error("Error fetching chat details:", error);
+      logger.info("Chat updated", { chatId });
 
-    // Log more detailed error information
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
+      if (privacy !== undefined) {
+        await emitWebhookEvent(owner.userId, "chat.visibility_changed", {
+          chatId,
+          privacy,
+        });
+      }
+
+      return NextResponse.json(updatedChat);
+    } catch (error) {
+      logger.error("Error updating chat", { error });
+      return toChatSDKError(error, "chat").toResponse();
     }
+  },
+);
+
+export const DELETE = withRequestLogging(
+  "/api/chats/[chatId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
+
+      const owner = await authorizeChatOwner(chatId);
+      if (owner instanceof ChatSDKError) {
+        return owner.toResponse();
+      }
 
-    return NextResponse.json(
-      {
-        error: "Failed to fetch chat details",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    );
-  }
-}
+      const { v0 } = await getV0ForChat(owner.ownership);
+      const result = await v0.chats.delete({ chatId });
+
+      // Remove local records only once v0 has deleted the chat
+      await deleteChat({ v0ChatId: chatId });
+      await deleteChatOwnership({ v0ChatId: chatId });
+
+      logger.info("Chat deleted", { chatId });
+
+      await emitWebhookEvent(owner.userId, "chat.deleted", { chatId });
+
+      return NextResponse.json(result);
+    } catch (error) {
+      logger.error("Error deleting chat", { error });
+      return toChatSDKError(error, "chat").toResponse();
+    }
+  },
+);
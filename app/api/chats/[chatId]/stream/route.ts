@@ -0,0 +1,64 @@
+import type { NextRequest } from "next/server";
+import { chatParamsSchema, parseInput } from "@/lib/api-schemas";
+import { authorizeChatRead } from "@/lib/chat-access";
+import { getStreamingGenerationByChatId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { GENERATION_ID_HEADER } from "@/lib/generations";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { readStreamBuffer } from "@/lib/v0/stream-buffer";
+
+// Re-attaches to a chat's in-flight generation, replaying the stream from
+// the start. Responds with 204 when nothing is streaming, or when the
+// generation is buffered on another server instance.
+export const GET = withRequestLogging(
+  "/api/chats/[chatId]/stream",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
+
+      // Checked before authorizing, which has to fetch the chat from v0.
+      // The empty response is the same whether or not the chat exists.
+      const generation = await getStreamingGenerationByChatId({
+        v0ChatId: chatId,
+      });
+      if (!generation) {
+        return new Response(null, { status: 204 });
+      }
+
+      const result = await authorizeChatRead(chatId);
+      if (result instanceof ChatSDKError) {
+        return result.toResponse();
+      }
+
+      const stream = readStreamBuffer(generation.id);
+      if (!stream) {
+        return new Response(null, { status: 204 });
+      }
+
+      logger.info("Generation stream resumed", {
+        chatId,
+        generationId: generation.id,
+      });
+
+      return new Response(stream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+          [GENERATION_ID_HEADER]: generation.id,
+        },
+      });
+    } catch (error) {
+      logger.error("Error resuming generation stream", { error });
+      return toChatSDKError(error, "chat").toResponse();
+    }
+  },
+);
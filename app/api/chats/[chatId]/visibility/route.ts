@@ -1,84 +1,106 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "v0-sdk";
 import { auth } from "@/app/(auth)/auth";
-import { getChatOwnership } from "@/lib/db/queries";
+import {
+  chatParamsSchema,
+  parseInput,
+  parseRequestBody,
+  updateVisibilitySchema,
+} from "@/lib/api-schemas";
+import { getChatOwnership, setChatTeam } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { resolveChatTeam } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { getV0ForChat } from "@/lib/v0/keys";
+import { saveChatMetadata } from "@/lib/v0/sync";
+import { emitWebhookEvent } from "@/lib/webhooks";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
+export const PATCH = withRequestLogging(
+  "/api/chats/[chatId]/visibility",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ chatId: string }> },
+  ) => {
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
 
-export async function PATCH(
-  request: NextRequest,
-  { params }: { params: Promise<{ chatId: string }> },
-) {
-  try {
-    const session = await auth();
-    const { chatId } = await params;
+      if (!session?.user?.id) {
+        return new ChatSDKError("unauthorized:visibility").toResponse();
+      }
 
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: "Authentication required" },
-        { status: 401 },
+      const rateLimitResult = await rateLimit(
+        "visibility",
+        getRateLimitIdentifier(request.headers, session.user.id),
       );
-    }
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
 
-    if (!chatId) {
-      return NextResponse.json(
-        { error: "Chat ID is required" },
-        { status: 400 },
-      );
-    }
+      const parsedParams = parseInput(chatParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { chatId } = parsedParams;
 
-    // Check if user owns this chat
-    const ownership = await getChatOwnership({ v0ChatId: chatId });
-    if (!ownership || ownership.user_id !== session.user.id) {
-      return NextResponse.json(
-        { error: "Chat not found or access denied" },
-        { status: 404 },
-      );
-    }
+      // Check if user owns this chat
+      const ownership = await getChatOwnership({ v0ChatId: chatId });
+      if (!ownership) {
+        return new ChatSDKError("not_found:chat").toResponse();
+      }
+      if (ownership.user_id !== session.user.id) {
+        return new ChatSDKError("forbidden:chat").toResponse();
+      }
 
-    const { privacy } = await request.json();
+      const body = await parseRequestBody(request, updateVisibilitySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+      const { privacy } = body;
 
-    if (
-      !(
-        privacy &&
-        ["public", "private", "team", "team-edit", "unlisted"].includes(privacy)
-      )
-    ) {
-      return NextResponse.json(
-        { error: "Invalid privacy setting" },
-        { status: 400 },
-      );
-    }
+      const teamId = await resolveChatTeam({
+        userId: session.user.id,
+        ownership,
+        privacy,
+        teamId: body.teamId,
+      });
+      if (teamId instanceof ChatSDKError) {
+        return teamId.toResponse();
+      }
 
-    console.log("Changing chat visibility:", chatId, "to:", privacy);
+      // Update chat privacy via v0 API
+      const { v0 } = await getV0ForChat(ownership);
+      const updatedChat = await v0.chats.update({
+        chatId,
+        privacy,
+      });
 
-    // Update chat privacy via v0 API
-    const updatedChat = await v0.chats.update({
-      chatId,
-      privacy,
-    });
+      await saveChatMetadata(updatedChat);
+      if (teamId !== ownership.team_id) {
+        await setChatTeam({ v0ChatId: chatId, teamId });
+      }
 
-    console.log("Chat visibility changed successfully:", chatId);
+      logger.info("Chat visibility changed", { chatId, privacy });
 
-    return NextResponse.json(updatedChat);
-  } catch (error) {
-    console.error("Change Chat Visibility Error:", error);
+      await emitWebhookEvent(session.user.id, "chat.visibility_changed", {
+        chatId,
+        privacy,
+      });
 
-    // Log more detailed error information
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
-    }
+      return withRateLimitHeaders(
+        NextResponse.json(updatedChat),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Change chat visibility error", { error });
 
-    return NextResponse.json(
-      {
-        error: "Failed to change chat visibility",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    );
-  }
-}
+      return toChatSDKError(error, "visibility").toResponse();
+    }
+  },
+);
@@ -1,56 +1,67 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createClient } from "v0-sdk";
 import { auth } from "@/app/(auth)/auth";
-import { getChatIdsByUserId } from "@/lib/db/queries";
+import { listChatsQuerySchema, parseInput } from "@/lib/api-schemas";
+import { getChatsByUserId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
 
-// Create v0 client with custom baseUrl if V0_API_URL is set
-const v0 = createClient(
-  process.env.V0_API_URL ? { baseUrl: process.env.V0_API_URL } : {},
-);
-
-export async function GET(_request: NextRequest) {
-  try {
-    const session = await auth();
+export const GET = withRequestLogging(
+  "/api/chats",
+  async (request: NextRequest) => {
+    try {
+      const session = await auth();
+      setRequestContext({ userType: session?.user?.type });
 
-    // Anonymous users don't have saved chats
-    if (!session?.user?.id) {
-      return NextResponse.json({ data: [] });
-    }
+      // Anonymous users don't have saved chats
+      if (!session?.user?.id) {
+        return NextResponse.json({ object: "list", data: [] });
+      }
 
-    console.log("Fetching chats for user:", session.user.id);
+      const query = parseInput(
+        listChatsQuerySchema,
+        Object.fromEntries(request.nextUrl.searchParams),
+      );
+      if (query instanceof ChatSDKError) {
+        return query.toResponse();
+      }
+      const { limit, offset } = query;
 
-    // Get user's chat IDs from our ownership mapping
-    const userChatIds = await getChatIdsByUserId({ userId: session.user.id });
-
-    if (userChatIds.length === 0) {
-      return NextResponse.json({ data: [] });
-    }
+      // Chat metadata is mirrored locally, so the list is served from
+      // Postgres and scoped to the user's own chats and their teams' chats
+      const userChats = await getChatsByUserId({
+        userId: session.user.id,
+        limit,
+        offset,
+      });
 
-    // Fetch actual chat data from v0 API
-    const allChats = await v0.chats.find();
+      logger.info("Chats fetched", {
+        userId: session.user.id,
+        count: userChats.length,
+      });
 
-    // Filter to only include chats owned by this user
-    const userChats =
-      allChats.data?.filter((chat) => userChatIds.includes(chat.id)) || [];
+      return NextResponse.json({
+        object: "list",
+        data: userChats.map((chat) => ({
+          id: chat.v0ChatId,
+          object: "chat",
+          name: chat.name ?? undefined,
+          privacy: chat.privacy ?? "private",
+          demoUrl: chat.demoUrl ?? undefined,
+          messageCount: chat.messageCount ?? 0,
+          forkedFrom: chat.forkedFrom ?? undefined,
+          parentChatId: chat.parentChatId ?? undefined,
+          teamId: chat.teamId ?? undefined,
+          isOwner: chat.ownerId === session.user.id,
+          claimedAt: chat.claimedAt?.toISOString(),
+          createdAt: chat.createdAt.toISOString(),
+          updatedAt: (chat.updatedAt ?? chat.createdAt).toISOString(),
+        })),
+      });
+    } catch (error) {
+      logger.error("Chats fetch error", { error });
 
-    console.log("Chats fetched successfully:", userChats.length, "chats");
-
-    return NextResponse.json({ data: userChats });
-  } catch (error) {
-    console.error("Chats fetch error:", error);
-
-    // Log more detailed error information
-    if (error instanceof Error) {
-      console.error("Error message:", error.message);
-      console.error("Error stack:", error.stack);
+      return toChatSDKError(error, "history").toResponse();
     }
-
-    return NextResponse.json(
-      {
-        error: "Failed to fetch chats",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    );
-  }
-}
+  },
+);
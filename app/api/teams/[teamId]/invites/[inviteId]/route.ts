@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { parseInput, teamInviteParamsSchema } from "@/lib/api-schemas";
+import { deleteTeamInvite } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { authorizeTeamMember } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Revokes an invite so its link stops working
+export const DELETE = withRequestLogging(
+  "/api/teams/[teamId]/invites/[inviteId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ teamId: string; inviteId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamInviteParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId, inviteId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId, "admin");
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const deleted = await deleteTeamInvite({ id: inviteId, teamId });
+      if (!deleted) {
+        return new ChatSDKError("not_found:team").toResponse();
+      }
+
+      logger.info("Team invite revoked", { teamId, inviteId });
+
+      return NextResponse.json({ id: inviteId, deleted: true });
+    } catch (error) {
+      logger.error("Error revoking team invite", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
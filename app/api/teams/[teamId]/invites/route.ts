@@ -0,0 +1,93 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  createTeamInviteSchema,
+  parseInput,
+  parseRequestBody,
+  teamParamsSchema,
+} from "@/lib/api-schemas";
+import { getTeamMembers } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { authorizeTeamMember, sendTeamInvite } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Emails an invite to join the team. Inviting the same address again
+// replaces its pending invite.
+export const POST = withRequestLogging(
+  "/api/teams/[teamId]/invites",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ teamId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId, "admin");
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        "team",
+        getRateLimitIdentifier(request.headers, member.userId),
+      );
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      const body = await parseRequestBody(request, createTeamInviteSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const members = await getTeamMembers({ teamId });
+      if (
+        members.some(
+          (teamMember) => teamMember.email.toLowerCase() === body.email,
+        )
+      ) {
+        return new ChatSDKError(
+          "bad_request:team",
+          "That person is already a member of this team",
+        ).toResponse();
+      }
+
+      const invite = await sendTeamInvite({
+        teamId,
+        teamName: member.teamName,
+        email: body.email,
+        role: body.role,
+        invitedBy: member.userId,
+      });
+
+      logger.info("Team invite sent", { teamId, inviteId: invite.id });
+
+      return withRateLimitHeaders(
+        NextResponse.json(
+          {
+            id: invite.id,
+            email: invite.email,
+            role: invite.role,
+            expiresAt: invite.expires_at.toISOString(),
+            createdAt: invite.created_at.toISOString(),
+          },
+          { status: 201 },
+        ),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Error sending team invite", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
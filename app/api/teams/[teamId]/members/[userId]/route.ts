@@ -0,0 +1,117 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  parseInput,
+  parseRequestBody,
+  teamMemberParamsSchema,
+  updateTeamMemberSchema,
+} from "@/lib/api-schemas";
+import {
+  getTeamMembership,
+  removeTeamMember,
+  updateTeamMemberRole,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { authorizeTeamMember, hasTeamRole } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Changes a member's role. Only the owner manages roles, and the owner's
+// own role can't change.
+export const PATCH = withRequestLogging(
+  "/api/teams/[teamId]/members/[userId]",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ teamId: string; userId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamMemberParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId, userId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId, "owner");
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const body = await parseRequestBody(request, updateTeamMemberSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const target = await getTeamMembership({ teamId, userId });
+      if (!target) {
+        return new ChatSDKError("not_found:team").toResponse();
+      }
+      if (target.role === "owner") {
+        return new ChatSDKError(
+          "bad_request:team",
+          "The team owner's role can't be changed",
+        ).toResponse();
+      }
+
+      await updateTeamMemberRole({ teamId, userId, role: body.role });
+
+      logger.info("Team member role changed", { teamId, role: body.role });
+
+      return NextResponse.json({ userId, role: body.role });
+    } catch (error) {
+      logger.error("Error updating team member", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
+
+// Removes a member, or lets a member leave. Admins can remove members, and
+// the owner can remove anyone but themselves.
+export const DELETE = withRequestLogging(
+  "/api/teams/[teamId]/members/[userId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ teamId: string; userId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamMemberParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId, userId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId);
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const target = await getTeamMembership({ teamId, userId });
+      if (!target) {
+        return new ChatSDKError("not_found:team").toResponse();
+      }
+
+      // Owners delete the team instead of leaving it
+      if (target.role === "owner") {
+        return new ChatSDKError(
+          "bad_request:team",
+          "The team owner can't leave. Delete the team instead.",
+        ).toResponse();
+      }
+
+      const isSelf = userId === member.userId;
+      const outranksTarget =
+        hasTeamRole(member.role, "admin") &&
+        !hasTeamRole(target.role, member.role);
+      if (!(isSelf || outranksTarget)) {
+        return new ChatSDKError("forbidden:team").toResponse();
+      }
+
+      await removeTeamMember({ teamId, userId });
+
+      logger.info(isSelf ? "Team left" : "Team member removed", { teamId });
+
+      return NextResponse.json({ userId, deleted: true });
+    } catch (error) {
+      logger.error("Error removing team member", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
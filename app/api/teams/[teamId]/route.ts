@@ -0,0 +1,133 @@
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  parseInput,
+  parseRequestBody,
+  teamNameBodySchema,
+  teamParamsSchema,
+} from "@/lib/api-schemas";
+import {
+  deleteTeam,
+  getPendingTeamInvites,
+  getTeamMembers,
+  updateTeam,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { authorizeTeamMember, hasTeamRole } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// The team's members. Admins and the owner also see pending invites.
+export const GET = withRequestLogging(
+  "/api/teams/[teamId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ teamId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId);
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const members = await getTeamMembers({ teamId });
+      const invites = hasTeamRole(member.role, "admin")
+        ? await getPendingTeamInvites({ teamId })
+        : [];
+
+      return NextResponse.json({
+        id: teamId,
+        name: member.teamName,
+        role: member.role,
+        members: members.map((teamMember) => ({
+          userId: teamMember.userId,
+          email: teamMember.email,
+          role: teamMember.role,
+          joinedAt: teamMember.joinedAt.toISOString(),
+        })),
+        invites: invites.map((invite) => ({
+          id: invite.id,
+          email: invite.email,
+          role: invite.role,
+          expiresAt: invite.expires_at.toISOString(),
+          createdAt: invite.created_at.toISOString(),
+        })),
+      });
+    } catch (error) {
+      logger.error("Error fetching team", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
+
+// Renames the team
+export const PATCH = withRequestLogging(
+  "/api/teams/[teamId]",
+  async (
+    request: NextRequest,
+    { params }: { params: Promise<{ teamId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId, "admin");
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      const body = await parseRequestBody(request, teamNameBodySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const team = await updateTeam({ id: teamId, name: body.name });
+
+      logger.info("Team renamed", { teamId });
+
+      return NextResponse.json({ id: team.id, name: team.name });
+    } catch (error) {
+      logger.error("Error updating team", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
+
+// Deletes the team. Its chats are no longer shared with anyone.
+export const DELETE = withRequestLogging(
+  "/api/teams/[teamId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ teamId: string }> },
+  ) => {
+    try {
+      const parsedParams = parseInput(teamParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { teamId } = parsedParams;
+
+      const member = await authorizeTeamMember(teamId, "owner");
+      if (member instanceof ChatSDKError) {
+        return member.toResponse();
+      }
+
+      await deleteTeam({ id: teamId });
+
+      logger.info("Team deleted", { teamId });
+
+      return NextResponse.json({ id: teamId, deleted: true });
+    } catch (error) {
+      logger.error("Error deleting team", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
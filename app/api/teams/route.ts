@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { parseRequestBody, teamNameBodySchema } from "@/lib/api-schemas";
+import { createTeam, getTeamsByUserId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { authorizeTeamUser } from "@/lib/teams";
+import { toChatSDKError } from "@/lib/v0/errors";
+
+// Teams the user belongs to, with their role in each
+export const GET = withRequestLogging("/api/teams", async () => {
+  try {
+    const user = await authorizeTeamUser();
+    if (user instanceof ChatSDKError) {
+      return user.toResponse();
+    }
+
+    const userTeams = await getTeamsByUserId({ userId: user.userId });
+
+    return NextResponse.json({
+      teams: userTeams.map((team) => ({
+        id: team.id,
+        name: team.name,
+        role: team.role,
+        createdAt: team.createdAt.toISOString(),
+      })),
+      canCreate: user.entitlements.maxTeams > 0,
+    });
+  } catch (error) {
+    logger.error("Error fetching teams", { error });
+    return toChatSDKError(error, "team").toResponse();
+  }
+});
+
+// Creates a team with the user as its owner
+export const POST = withRequestLogging(
+  "/api/teams",
+  async (request: NextRequest) => {
+    try {
+      const user = await authorizeTeamUser();
+      if (user instanceof ChatSDKError) {
+        return user.toResponse();
+      }
+
+      const { maxTeams } = user.entitlements;
+      if (maxTeams === 0) {
+        return new ChatSDKError(
+          "forbidden:team",
+          "Verify your email to create teams",
+        ).toResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        "team",
+        getRateLimitIdentifier(request.headers, user.userId),
+      );
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      const body = await parseRequestBody(request, teamNameBodySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const existing = await getTeamsByUserId({ userId: user.userId });
+      const owned = existing.filter((team) => team.role === "owner");
+      if (owned.length >= maxTeams) {
+        return new ChatSDKError(
+          "bad_request:team",
+          `You can own at most ${maxTeams} teams`,
+        ).toResponse();
+      }
+
+      const team = await createTeam({ name: body.name, userId: user.userId });
+
+      logger.info("Team created", { teamId: team.id });
+
+      return withRateLimitHeaders(
+        NextResponse.json(
+          {
+            id: team.id,
+            name: team.name,
+            role: "owner",
+            createdAt: team.created_at.toISOString(),
+          },
+          { status: 201 },
+        ),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Error creating team", { error });
+      return toChatSDKError(error, "team").toResponse();
+    }
+  },
+);
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { isV0EmulatorEnabled } from "@/lib/v0/client";
+import { renderEmulatorDemo } from "@/lib/v0/emulator";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ versionId: string }> },
+) {
+  if (!isV0EmulatorEnabled) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const { versionId } = await params;
+  const html = renderEmulatorDemo(versionId);
+
+  if (!html) {
+    return NextResponse.json({ error: "Version not found" }, { status: 404 });
+  }
+
+  return new Response(html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { parseRequestBody, saveV0ApiKeySchema } from "@/lib/api-schemas";
+import { getV0ApiKey } from "@/lib/db/queries";
+import type { V0ApiKey } from "@/lib/db/schema";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { isValidV0ApiKey } from "@/lib/v0/client";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { removeApiKey, saveApiKey } from "@/lib/v0/keys";
+
+// Personal keys are for signed-in accounts
+async function authorizeKeyUser() {
+  const session = await auth();
+  setRequestContext({ userType: session?.user?.type });
+
+  if (!session?.user?.id || session.user.type === "guest") {
+    return new ChatSDKError("unauthorized:api_key");
+  }
+
+  return { userId: session.user.id };
+}
+
+// The key itself is never sent back, only its last characters
+function toKeyResponse(key: V0ApiKey | undefined) {
+  return {
+    key: key
+      ? {
+          hint: key.key_hint,
+          createdAt: key.created_at.toISOString(),
+          updatedAt: key.updated_at.toISOString(),
+        }
+      : null,
+  };
+}
+
+export const GET = withRequestLogging("/api/v0-key", async () => {
+  try {
+    const user = await authorizeKeyUser();
+    if (user instanceof ChatSDKError) {
+      return user.toResponse();
+    }
+
+    const key = await getV0ApiKey({ userId: user.userId });
+
+    return NextResponse.json(toKeyResponse(key));
+  } catch (error) {
+    logger.error("Error fetching v0 API key", { error });
+    return toChatSDKError(error, "api_key").toResponse();
+  }
+});
+
+// Saves or replaces the user's key, once v0 has accepted it
+export const PUT = withRequestLogging(
+  "/api/v0-key",
+  async (request: NextRequest) => {
+    try {
+      const user = await authorizeKeyUser();
+      if (user instanceof ChatSDKError) {
+        return user.toResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        "apiKey",
+        getRateLimitIdentifier(request.headers, user.userId),
+      );
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      const body = await parseRequestBody(request, saveV0ApiKeySchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      if (!(await isValidV0ApiKey(body.apiKey))) {
+        return new ChatSDKError("bad_request:api_key").toResponse();
+      }
+
+      const key = await saveApiKey(user.userId, body.apiKey);
+
+      logger.info("v0 API key saved", { userId: user.userId });
+
+      return withRateLimitHeaders(
+        NextResponse.json(toKeyResponse(key)),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Error saving v0 API key", { error });
+      return toChatSDKError(error, "api_key").toResponse();
+    }
+  },
+);
+
+// Removes the user's key. New chats go back to the shared key.
+export const DELETE = withRequestLogging("/api/v0-key", async () => {
+  try {
+    const user = await authorizeKeyUser();
+    if (user instanceof ChatSDKError) {
+      return user.toResponse();
+    }
+
+    const deleted = await removeApiKey(user.userId);
+    if (!deleted) {
+      return new ChatSDKError("not_found:api_key").toResponse();
+    }
+
+    logger.info("v0 API key removed", { userId: user.userId });
+
+    return NextResponse.json(toKeyResponse(undefined));
+  } catch (error) {
+    logger.error("Error removing v0 API key", { error });
+    return toChatSDKError(error, "api_key").toResponse();
+  }
+});
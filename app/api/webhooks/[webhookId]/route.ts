@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { parseInput, webhookParamsSchema } from "@/lib/api-schemas";
+import { deleteWebhook } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { authorizeWebhookUser } from "@/lib/webhooks";
+
+// Removes a webhook along with its delivery log
+export const DELETE = withRequestLogging(
+  "/api/webhooks/[webhookId]",
+  async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ webhookId: string }> },
+  ) => {
+    try {
+      const user = await authorizeWebhookUser();
+      if (user instanceof ChatSDKError) {
+        return user.toResponse();
+      }
+
+      const parsedParams = parseInput(webhookParamsSchema, await params);
+      if (parsedParams instanceof ChatSDKError) {
+        return parsedParams.toResponse();
+      }
+      const { webhookId } = parsedParams;
+
+      // Other users' webhooks aren't found either
+      const deleted = await deleteWebhook({
+        id: webhookId,
+        userId: user.userId,
+      });
+      if (!deleted) {
+        return new ChatSDKError("not_found:webhook").toResponse();
+      }
+
+      logger.info("Webhook deleted", { webhookId });
+
+      return NextResponse.json({ id: webhookId, deleted: true });
+    } catch (error) {
+      logger.error("Error deleting webhook", { error });
+      return toChatSDKError(error, "webhook").toResponse();
+    }
+  },
+);
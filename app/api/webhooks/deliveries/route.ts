@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getWebhookDeliveriesByUserId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import { toChatSDKError } from "@/lib/v0/errors";
+import { authorizeWebhookUser } from "@/lib/webhooks";
+
+// Deliveries shown in the settings log
+const DELIVERY_LOG_SIZE = 50;
+
+export const GET = withRequestLogging("/api/webhooks/deliveries", async () => {
+  try {
+    const user = await authorizeWebhookUser();
+    if (user instanceof ChatSDKError) {
+      return user.toResponse();
+    }
+
+    const deliveries = await getWebhookDeliveriesByUserId({
+      userId: user.userId,
+      limit: DELIVERY_LOG_SIZE,
+    });
+
+    return NextResponse.json({
+      deliveries: deliveries.map((delivery) => ({
+        ...delivery,
+        createdAt: delivery.createdAt.toISOString(),
+        completedAt: delivery.completedAt?.toISOString() ?? null,
+      })),
+    });
+  } catch (error) {
+    logger.error("Error fetching webhook deliveries", { error });
+    return toChatSDKError(error, "webhook").toResponse();
+  }
+});
@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createWebhookSchema, parseRequestBody } from "@/lib/api-schemas";
+import { createWebhook, getWebhooksByUserId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, withRequestLogging } from "@/lib/logger";
+import {
+  getRateLimitIdentifier,
+  rateLimit,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from "@/lib/rate-limit/limiter";
+import { toChatSDKError } from "@/lib/v0/errors";
+import {
+  authorizeWebhookUser,
+  generateWebhookSecret,
+  toWebhookResponse,
+} from "@/lib/webhooks";
+
+export const GET = withRequestLogging("/api/webhooks", async () => {
+  try {
+    const user = await authorizeWebhookUser();
+    if (user instanceof ChatSDKError) {
+      return user.toResponse();
+    }
+
+    const userWebhooks = await getWebhooksByUserId({ userId: user.userId });
+
+    return NextResponse.json({
+      webhooks: userWebhooks.map(toWebhookResponse),
+    });
+  } catch (error) {
+    logger.error("Error fetching webhooks", { error });
+    return toChatSDKError(error, "webhook").toResponse();
+  }
+});
+
+// Registers a webhook. The response is the only time its signing secret is
+// shown.
+export const POST = withRequestLogging(
+  "/api/webhooks",
+  async (request: NextRequest) => {
+    try {
+      const user = await authorizeWebhookUser();
+      if (user instanceof ChatSDKError) {
+        return user.toResponse();
+      }
+
+      const { maxWebhooks } = user.entitlements;
+      if (maxWebhooks === 0) {
+        return new ChatSDKError("forbidden:webhook").toResponse();
+      }
+
+      const rateLimitResult = await rateLimit(
+        "webhook",
+        getRateLimitIdentifier(request.headers, user.userId),
+      );
+      if (!rateLimitResult.success) {
+        return rateLimitExceededResponse(rateLimitResult);
+      }
+
+      const body = await parseRequestBody(request, createWebhookSchema);
+      if (body instanceof ChatSDKError) {
+        return body.toResponse();
+      }
+
+      const existing = await getWebhooksByUserId({ userId: user.userId });
+      if (existing.length >= maxWebhooks) {
+        return new ChatSDKError(
+          "bad_request:webhook",
+          `You can register at most ${maxWebhooks} webhooks`,
+        ).toResponse();
+      }
+
+      const webhook = await createWebhook({
+        userId: user.userId,
+        url: body.url,
+        secret: generateWebhookSecret(),
+        events: body.events,
+      });
+
+      logger.info("Webhook created", {
+        webhookId: webhook.id,
+        events: webhook.events,
+      });
+
+      return withRateLimitHeaders(
+        NextResponse.json(
+          { ...toWebhookResponse(webhook), secret: webhook.secret },
+          { status: 201 },
+        ),
+        rateLimitResult,
+      );
+    } catch (error) {
+      logger.error("Error creating webhook", { error });
+      return toChatSDKError(error, "webhook").toResponse();
+    }
+  },
+);
@@ -0,0 +1,71 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { z } from "zod";
+import { auth } from "@/app/(auth)/auth";
+import { acceptTeamInvite } from "@/lib/db/queries";
+import { logger } from "@/lib/logger";
+import { getTeamInvite } from "@/lib/teams";
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1, "This invite link is invalid."),
+});
+
+interface ActionResult {
+  type: "error" | "success";
+  message: string;
+}
+
+// Joins the invite's team. The invite is only for the address it was sent
+// to, so the signed-in account must have that email and have verified it.
+export async function acceptInviteAction(
+  _prevState: ActionResult | undefined,
+  formData: FormData,
+): Promise<ActionResult> {
+  const parsed = acceptInviteSchema.safeParse({
+    token: formData.get("token"),
+  });
+  if (!parsed.success) {
+    return { type: "error", message: parsed.error.issues[0].message };
+  }
+
+  const session = await auth();
+  if (!session?.user?.id || session.user.type === "guest") {
+    return { type: "error", message: "Please sign in first." };
+  }
+
+  const invite = await getTeamInvite(parsed.data.token);
+  if (!invite) {
+    return { type: "error", message: "This invite link is invalid." };
+  }
+  if (invite.email !== session.user.email?.toLowerCase()) {
+    return {
+      type: "error",
+      message: `This invite was sent to ${invite.email}. Sign in with that email to accept it.`,
+    };
+  }
+  if (!session.user.verified) {
+    return {
+      type: "error",
+      message: "Verify your email before accepting the invite.",
+    };
+  }
+
+  const accepted = await acceptTeamInvite({
+    inviteId: invite.id,
+    userId: session.user.id,
+  });
+  if (!accepted) {
+    return {
+      type: "error",
+      message: "This invite has already been used or has expired.",
+    };
+  }
+
+  logger.info("Team invite accepted", {
+    teamId: invite.teamId,
+    inviteId: invite.id,
+  });
+
+  redirect("/chats");
+}
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import { auth } from "@/app/(auth)/auth";
+import { AcceptInviteForm } from "@/components/teams/accept-invite-form";
+import { getTeamInvite } from "@/lib/teams";
+
+interface PageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+async function findPendingInvite(token: string | undefined) {
+  if (!token) {
+    return;
+  }
+
+  const invite = await getTeamInvite(token);
+  if (!invite || invite.acceptedAt || invite.expiresAt < new Date()) {
+    return;
+  }
+
+  return invite;
+}
+
+export default async function InvitePage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+  const invite = await findPendingInvite(token);
+  const session = await auth();
+  const isSignedIn = session?.user && session.user.type !== "guest";
+
+  return (
+    <div className="flex h-screen w-screen items-center justify-center bg-background">
+      <div className="w-full max-w-md overflow-hidden rounded-2xl border border-border shadow-xl">
+        <div className="flex flex-col items-center justify-center space-y-3 border-border border-b bg-background px-4 py-6 pt-8 text-center sm:px-16">
+          <h3 className="font-semibold text-foreground text-xl">
+            {invite ? `Join ${invite.teamName}` : "Invite Not Found"}
+          </h3>
+          <p className="text-muted-foreground text-sm">
+            {invite
+              ? `You've been invited to join as ${invite.role === "admin" ? "an admin" : "a member"}. Members can open the chats shared with the team.`
+              : "This invite link is invalid, has expired, or has already been used."}
+          </p>
+        </div>
+        <div className="flex flex-col space-y-4 bg-muted/50 px-4 py-8 text-center text-sm sm:px-16">
+          {!invite ? (
+            <Link href="/" className="text-primary hover:underline">
+              Go home
+            </Link>
+          ) : isSignedIn && token ? (
+            <AcceptInviteForm token={token} />
+          ) : (
+            <p className="text-muted-foreground">
+              <Link href="/login" className="text-primary hover:underline">
+                Sign in
+              </Link>{" "}
+              or{" "}
+              <Link href="/register" className="text-primary hover:underline">
+                create an account
+              </Link>{" "}
+              with {invite.email}, then open this link again.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import { auth } from "@/app/(auth)/auth";
+import { AccountsSettings } from "@/components/settings/accounts-settings";
+import { EmailVerification } from "@/components/settings/email-verification";
+import { TeamsSettings } from "@/components/settings/teams-settings";
+import { V0KeySettings } from "@/components/settings/v0-key-settings";
+import { WebhooksSettings } from "@/components/settings/webhooks-settings";
+import { AppHeader } from "@/components/shared/app-header";
+import { getOAuthErrorMessage } from "@/lib/oauth-providers";
+
+interface SettingsPageProps {
+  searchParams: Promise<{ error?: string }>;
+}
+
+export default async function SettingsPage({
+  searchParams,
+}: SettingsPageProps) {
+  const { error } = await searchParams;
+  const session = await auth();
+  const isUnverified =
+    session?.user?.type === "regular" && !session.user.verified;
+  const isSignedIn = session && session.user.type !== "guest";
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-black">
+      <AppHeader />
+
+      <main className="mx-auto max-w-4xl space-y-12 px-4 py-8 sm:px-6 lg:px-8">
+        {isUnverified && <EmailVerification email={session.user.email} />}
+        <AccountsSettings linkError={getOAuthErrorMessage(error)} />
+        {isSignedIn && <TeamsSettings />}
+        {isSignedIn && <V0KeySettings />}
+        <WebhooksSettings />
+      </main>
+    </div>
+  );
+}
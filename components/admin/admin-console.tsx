@@ -0,0 +1,637 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+import useSWR, { useSWRConfig } from "swr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+
+interface UserItem {
+  id: string;
+  email: string;
+  verified: boolean;
+  chatCount: number;
+  messageCount: number;
+  messagesToday: number;
+  banId?: string;
+  hasEntitlementOverrides: boolean;
+  createdAt: string;
+}
+
+interface Limits {
+  maxMessagesPerDay: number | null;
+  // In bytes
+  maxAttachmentSize: number | null;
+  maxWebhooks: number | null;
+  maxTeams: number | null;
+}
+
+interface UserDetails {
+  id: string;
+  email: string;
+  type: "guest" | "regular" | "admin";
+  entitlements: Limits;
+  overrides: (Limits & { updatedAt: string }) | null;
+  chats: {
+    id: string;
+    name?: string;
+    privacy: string;
+    messageCount: number;
+    createdAt: string;
+  }[];
+}
+
+interface AnonymousIP {
+  ipAddress: string;
+  chatCount: number;
+  lastSeenAt?: string;
+  banId?: string;
+}
+
+interface BanItem {
+  id: string;
+  userId?: string;
+  email?: string;
+  ipAddress?: string;
+  reason?: string;
+  createdAt: string;
+}
+
+interface AuditEntry {
+  id: string;
+  adminEmail?: string;
+  action: string;
+  target: string;
+  details?: Record<string, unknown>;
+  createdAt: string;
+}
+
+const LIMIT_FIELDS: { key: keyof Limits; label: string }[] = [
+  { key: "maxMessagesPerDay", label: "Messages per day" },
+  { key: "maxAttachmentSize", label: "Attachment size (MB)" },
+  { key: "maxWebhooks", label: "Webhooks" },
+  { key: "maxTeams", label: "Teams" },
+];
+
+const MB = 1024 * 1024;
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm dark:bg-input/30";
+
+const sectionHeadingClassName =
+  "mb-4 font-bold text-2xl text-gray-900 dark:text-white";
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  await assertOk(response);
+  return response.json();
+}
+
+// Attachment sizes are edited in MB but stored in bytes
+function toFormValue(key: keyof Limits, value: number | null) {
+  if (value === null) {
+    return "";
+  }
+  return String(key === "maxAttachmentSize" ? value / MB : value);
+}
+
+function fromFormValue(key: keyof Limits, value: string) {
+  if (value.trim() === "") {
+    return null;
+  }
+  const number = Number(value);
+  return key === "maxAttachmentSize" ? Math.round(number * MB) : number;
+}
+
+export function AdminConsole() {
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { mutate } = useSWRConfig();
+
+  // Runs an admin action, then refreshes everything it may have changed,
+  // including the audit log
+  const runAction = async (
+    action: () => Promise<unknown>,
+    description: string,
+  ) => {
+    setActionError(null);
+
+    try {
+      await action();
+      mutate((key) => typeof key === "string" && key.startsWith("/api/admin/"));
+      return true;
+    } catch (error) {
+      console.error(`Error trying to ${description}:`, error);
+      setActionError(getErrorMessage(error));
+      return false;
+    }
+  };
+
+  return (
+    <div className="space-y-12">
+      {actionError && <p className="text-destructive text-sm">{actionError}</p>}
+      <UsersSection runAction={runAction} />
+      <AnonymousSection runAction={runAction} />
+      <BansSection runAction={runAction} />
+      <AuditSection />
+    </div>
+  );
+}
+
+type RunAction = (
+  action: () => Promise<unknown>,
+  description: string,
+) => Promise<boolean>;
+
+interface SectionProps {
+  runAction: RunAction;
+}
+
+function UsersSection({ runAction }: SectionProps) {
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState<"recent" | "usage">("recent");
+  const params = new URLSearchParams({ sort });
+  if (search.trim()) {
+    params.set("search", search.trim());
+  }
+
+  const { data, error, isLoading } = useSWR<{ users: UserItem[] }>(
+    `/api/admin/users?${params}`,
+  );
+  const users = data?.users ?? [];
+
+  return (
+    <section>
+      <h2 className={sectionHeadingClassName}>Users</h2>
+
+      <div className="mb-4 flex gap-2">
+        <Input
+          type="search"
+          placeholder="Search by email"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          maxLength={64}
+        />
+        <select
+          aria-label="Sort users"
+          className={selectClassName}
+          value={sort}
+          onChange={(e) => setSort(e.target.value as "recent" | "usage")}
+        >
+          <option value="recent">Newest</option>
+          <option value="usage">Most messages today</option>
+        </select>
+      </div>
+
+      <div className="space-y-3">
+        {isLoading && (
+          <p className="text-gray-600 text-sm dark:text-gray-300">
+            Loading users...
+          </p>
+        )}
+        {error && (
+          <p className="text-destructive text-sm">
+            {error.message || "Failed to load users"}
+          </p>
+        )}
+        {!(isLoading || error) && users.length === 0 && (
+          <p className="text-gray-500 text-sm dark:text-gray-400">
+            No users found.
+          </p>
+        )}
+        {users.map((user) => (
+          <UserCard key={user.id} user={user} runAction={runAction} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+interface UserCardProps extends SectionProps {
+  user: UserItem;
+}
+
+function UserCard({ user, runAction }: UserCardProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data } = useSWR<UserDetails>(
+    isOpen ? `/api/admin/users/${user.id}` : null,
+  );
+
+  const handleBan = async () => {
+    const reason = prompt(`Ban ${user.email}? Enter a reason (optional):`);
+    if (reason === null) {
+      return;
+    }
+
+    await runAction(
+      () =>
+        sendJson("/api/admin/bans", "POST", {
+          userId: user.id,
+          reason: reason.trim() || undefined,
+        }),
+      "ban user",
+    );
+  };
+
+  const handleUnban = (banId: string) =>
+    runAction(
+      () => sendJson(`/api/admin/bans/${banId}`, "DELETE"),
+      "unban user",
+    );
+
+  const handleDeleteChat = async (chatId: string) => {
+    if (!confirm("Delete this chat? This can't be undone.")) {
+      return;
+    }
+
+    await runAction(
+      () => sendJson(`/api/admin/chats/${chatId}`, "DELETE"),
+      "delete chat",
+    );
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 dark:border-input">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="truncate font-medium text-gray-900 text-sm dark:text-white">
+            {user.email}
+            {user.banId && (
+              <span className="ml-2 text-destructive text-xs">Banned</span>
+            )}
+          </p>
+          <p className="mt-1 text-gray-500 text-sm dark:text-gray-400">
+            {user.chatCount} chats · {user.messageCount} messages ·{" "}
+            {user.messagesToday} today
+            {!user.verified && " · unverified"}
+            {user.hasEntitlementOverrides && " · custom limits"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {user.banId ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => user.banId && handleUnban(user.banId)}
+            >
+              Unban
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={handleBan}>
+              Ban
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setIsOpen((open) => !open)}
+          >
+            {isOpen ? "Hide" : "Details"}
+          </Button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 border-border border-t pt-4 dark:border-input">
+          {!data && (
+            <p className="text-gray-600 text-sm dark:text-gray-300">
+              Loading user...
+            </p>
+          )}
+
+          {data && (
+            <>
+              <EntitlementsForm user={data} runAction={runAction} />
+
+              <div>
+                <h3 className="mb-2 font-medium text-gray-900 text-sm dark:text-white">
+                  Chats
+                </h3>
+                {data.chats.length === 0 && (
+                  <p className="text-gray-500 text-sm dark:text-gray-400">
+                    No chats.
+                  </p>
+                )}
+                <ul className="space-y-2">
+                  {data.chats.map((chat) => (
+                    <li
+                      key={chat.id}
+                      className="flex items-center justify-between gap-4 text-gray-600 text-sm dark:text-gray-300"
+                    >
+                      <a
+                        href={`/chats/${chat.id}`}
+                        className="min-w-0 truncate hover:underline"
+                      >
+                        {chat.name || chat.id} · {chat.privacy} ·{" "}
+                        {chat.messageCount} messages
+                      </a>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDeleteChat(chat.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete chat</span>
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface EntitlementsFormProps extends SectionProps {
+  user: UserDetails;
+}
+
+function EntitlementsForm({ user, runAction }: EntitlementsFormProps) {
+  const [values, setValues] = useState<Record<keyof Limits, string>>(() => ({
+    maxMessagesPerDay: toFormValue(
+      "maxMessagesPerDay",
+      user.overrides?.maxMessagesPerDay ?? null,
+    ),
+    maxAttachmentSize: toFormValue(
+      "maxAttachmentSize",
+      user.overrides?.maxAttachmentSize ?? null,
+    ),
+    maxWebhooks: toFormValue(
+      "maxWebhooks",
+      user.overrides?.maxWebhooks ?? null,
+    ),
+    maxTeams: toFormValue("maxTeams", user.overrides?.maxTeams ?? null),
+  }));
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    const body = Object.fromEntries(
+      LIMIT_FIELDS.map(({ key }) => [key, fromFormValue(key, values[key])]),
+    );
+    await runAction(
+      () => sendJson(`/api/admin/users/${user.id}/entitlements`, "PUT", body),
+      "update entitlements",
+    );
+    setIsSaving(false);
+  };
+
+  const handleReset = async () => {
+    const reset = await runAction(
+      () => sendJson(`/api/admin/users/${user.id}/entitlements`, "DELETE"),
+      "reset entitlements",
+    );
+    if (reset) {
+      setValues({
+        maxMessagesPerDay: "",
+        maxAttachmentSize: "",
+        maxWebhooks: "",
+        maxTeams: "",
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave}>
+      <h3 className="mb-2 font-medium text-gray-900 text-sm dark:text-white">
+        Limits
+      </h3>
+      <p className="mb-3 text-gray-500 text-sm dark:text-gray-400">
+        Leave a limit empty to use the default for {user.type} accounts. The
+        current value is shown as the placeholder.
+      </p>
+      <div className="mb-3 grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {LIMIT_FIELDS.map(({ key, label }) => (
+          <div key={key} className="space-y-1">
+            <label
+              htmlFor={`${user.id}-${key}`}
+              className="text-gray-600 text-sm dark:text-gray-300"
+            >
+              {label}
+            </label>
+            <Input
+              id={`${user.id}-${key}`}
+              type="number"
+              min={0}
+              step={key === "maxAttachmentSize" ? "any" : 1}
+              placeholder={toFormValue(key, user.entitlements[key])}
+              value={values[key]}
+              onChange={(e) =>
+                setValues((current) => ({ ...current, [key]: e.target.value }))
+              }
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="submit" size="sm" disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save limits"}
+        </Button>
+        {user.overrides && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleReset}
+          >
+            Reset to defaults
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function AnonymousSection({ runAction }: SectionProps) {
+  const { data, error, isLoading } = useSWR<{
+    days: number;
+    ips: AnonymousIP[];
+  }>("/api/admin/anonymous");
+  const ips = data?.ips ?? [];
+
+  const handleBan = async (ipAddress: string) => {
+    const reason = prompt(`Ban ${ipAddress}? Enter a reason (optional):`);
+    if (reason === null) {
+      return;
+    }
+
+    await runAction(
+      () =>
+        sendJson("/api/admin/bans", "POST", {
+          ipAddress,
+          reason: reason.trim() || undefined,
+        }),
+      "ban address",
+    );
+  };
+
+  return (
+    <section>
+      <h2 className={sectionHeadingClassName}>Anonymous usage</h2>
+      <p className="mb-4 text-gray-600 text-sm dark:text-gray-300">
+        Addresses that created the most chats without signing in
+        {data && ` over the last ${data.days} days`}. IPv6 addresses are grouped
+        by their /64 prefix.
+      </p>
+
+      {isLoading && (
+        <p className="text-gray-600 text-sm dark:text-gray-300">
+          Loading usage...
+        </p>
+      )}
+      {error && (
+        <p className="text-destructive text-sm">
+          {error.message || "Failed to load anonymous usage"}
+        </p>
+      )}
+      {!(isLoading || error) && ips.length === 0 && (
+        <p className="text-gray-500 text-sm dark:text-gray-400">
+          No anonymous chats yet.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {ips.map((ip) => (
+          <li
+            key={ip.ipAddress}
+            className="flex items-center justify-between gap-4 text-gray-600 text-sm dark:text-gray-300"
+          >
+            <span className="min-w-0 truncate">
+              <span className="font-mono">{ip.ipAddress}</span> · {ip.chatCount}{" "}
+              chats
+              {ip.lastSeenAt &&
+                ` · last seen ${new Date(ip.lastSeenAt).toLocaleString()}`}
+            </span>
+            {ip.banId ? (
+              <span className="text-destructive text-xs">Banned</span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleBan(ip.ipAddress)}
+              >
+                Ban
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function BansSection({ runAction }: SectionProps) {
+  const { data, error, isLoading } = useSWR<{ bans: BanItem[] }>(
+    "/api/admin/bans",
+  );
+  const bans = data?.bans ?? [];
+
+  const handleUnban = (banId: string) =>
+    runAction(
+      () => sendJson(`/api/admin/bans/${banId}`, "DELETE"),
+      "remove ban",
+    );
+
+  return (
+    <section>
+      <h2 className={sectionHeadingClassName}>Bans</h2>
+
+      {isLoading && (
+        <p className="text-gray-600 text-sm dark:text-gray-300">
+          Loading bans...
+        </p>
+      )}
+      {error && (
+        <p className="text-destructive text-sm">
+          {error.message || "Failed to load bans"}
+        </p>
+      )}
+      {!(isLoading || error) && bans.length === 0 && (
+        <p className="text-gray-500 text-sm dark:text-gray-400">
+          Nobody is banned.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {bans.map((ban) => (
+          <li
+            key={ban.id}
+            className="flex items-center justify-between gap-4 text-gray-600 text-sm dark:text-gray-300"
+          >
+            <span className="min-w-0 truncate">
+              {ban.email ?? <span className="font-mono">{ban.ipAddress}</span>}
+              {ban.reason && ` · ${ban.reason}`} ·{" "}
+              {new Date(ban.createdAt).toLocaleDateString()}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleUnban(ban.id)}
+            >
+              Unban
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+function AuditSection() {
+  const { data, error, isLoading } = useSWR<{ entries: AuditEntry[] }>(
+    "/api/admin/audit",
+  );
+  const entries = data?.entries ?? [];
+
+  return (
+    <section>
+      <h2 className={sectionHeadingClassName}>Audit log</h2>
+
+      {isLoading && (
+        <p className="text-gray-600 text-sm dark:text-gray-300">
+          Loading audit log...
+        </p>
+      )}
+      {error && (
+        <p className="text-destructive text-sm">
+          {error.message || "Failed to load audit log"}
+        </p>
+      )}
+      {!(isLoading || error) && entries.length === 0 && (
+        <p className="text-gray-500 text-sm dark:text-gray-400">
+          No admin actions yet.
+        </p>
+      )}
+      <ul className="space-y-2">
+        {entries.map((entry) => (
+          <li
+            key={entry.id}
+            className="text-gray-600 text-sm dark:text-gray-300"
+          >
+            <span className="text-gray-500 dark:text-gray-400">
+              {new Date(entry.createdAt).toLocaleString()}
+            </span>{" "}
+            · {entry.adminEmail ?? "Deleted admin"} ·{" "}
+            <span className="font-mono">{entry.action}</span> ·{" "}
+            <span className="break-all font-mono">{entry.target}</span>
+            {entry.details && (
+              <span className="block break-all text-gray-500 text-xs dark:text-gray-400">
+                {JSON.stringify(entry.details)}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -3,18 +3,22 @@
 import type { ChatStatus } from "ai";
 import {
   ArrowUpIcon,
-  ImageIcon,
+  FileArchiveIcon,
+  FileTextIcon,
   Loader2Icon,
   MicIcon,
   MicOffIcon,
+  PaperclipIcon,
   SquareIcon,
   XIcon,
 } from "lucide-react";
 import Image from "next/image";
 import type {
   ComponentProps,
+  Dispatch,
   HTMLAttributes,
   KeyboardEventHandler,
+  SetStateAction,
 } from "react";
 import { Children, useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
@@ -26,41 +30,92 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { getErrorMessage } from "@/lib/api-errors";
+import {
+  attachmentAccept,
+  getAttachmentKind,
+  isSupportedAttachment,
+  resolveContentType,
+} from "@/lib/attachments/file-types";
+import { uploadAttachment } from "@/lib/attachments/upload";
 import { cn } from "@/lib/utils";
 
-// Utility function to convert file to data URL
-export const fileToDataUrl = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+// Starts uploading files as attachments. They are added straight away so
+// their progress can be shown, then updated as each upload finishes.
+export const uploadImageAttachments = (
+  files: File[],
+  setAttachments: Dispatch<SetStateAction<ImageAttachment[]>>,
+) => {
+  const pending: ImageAttachment[] = files.map((file) => {
+    const contentType = resolveContentType(file.name, file.type);
+    return {
+      id: Math.random().toString(36).substr(2, 9),
+      file,
+      contentType,
+      preview:
+        getAttachmentKind(contentType) === "image"
+          ? URL.createObjectURL(file)
+          : "",
+      status: "uploading",
+      progress: 0,
+    };
   });
-};
 
-// Utility function to create image attachment
-export const createImageAttachment = async (
-  file: File,
-): Promise<ImageAttachment> => {
-  const dataUrl = await fileToDataUrl(file);
-  return {
-    id: Math.random().toString(36).substr(2, 9),
-    file,
-    dataUrl,
-    preview: dataUrl,
+  const update = (id: string, changes: Partial<ImageAttachment>) => {
+    setAttachments((prev) =>
+      prev.map((att) => (att.id === id ? { ...att, ...changes } : att)),
+    );
   };
+
+  setAttachments((prev) => [...prev, ...pending]);
+
+  for (const attachment of pending) {
+    uploadAttachment(attachment.file, {
+      onProgress: (progress) => update(attachment.id, { progress }),
+    })
+      .then(({ url, contentType, expiresAt }) =>
+        update(attachment.id, {
+          status: "uploaded",
+          progress: 100,
+          contentType,
+          url,
+          expiresAt,
+        }),
+      )
+      .catch((error) =>
+        update(attachment.id, {
+          status: "error",
+          error: getErrorMessage(error),
+        }),
+      );
+  }
 };
 
+export const hasPendingUploads = (attachments: ImageAttachment[]) =>
+  attachments.some((att) => att.status === "uploading");
+
+// The attachments to send with a message. Failed uploads are left out.
+export const getAttachmentUrls = (
+  attachments: ImageAttachment[],
+): Array<{ url: string }> =>
+  attachments.flatMap((att) =>
+    att.status === "uploaded" && att.url ? [{ url: att.url }] : [],
+  );
+
 // SessionStorage utilities for prompt persistence
 const PROMPT_STORAGE_KEY = "v0-prompt-data";
 
+// Restored attachments need enough time left on their URLs to be sent
+const MIN_RESTORED_ATTACHMENT_TTL_MS = 5 * 60 * 1000;
+
 export interface StoredPromptData {
   message: string;
   attachments: Array<{
     id: string;
     fileName: string;
-    dataUrl: string;
-    preview: string;
+    contentType: string;
+    url: string;
+    expiresAt: string;
   }>;
 }
 
@@ -69,14 +124,22 @@ export const savePromptToStorage = (
   attachments: ImageAttachment[],
 ) => {
   try {
+    // Only uploaded attachments are kept, as references to their URLs
     const data: StoredPromptData = {
       message,
-      attachments: attachments.map((att) => ({
-        id: att.id,
-        fileName: att.file.name,
-        dataUrl: att.dataUrl,
-        preview: att.preview,
-      })),
+      attachments: attachments.flatMap((att) =>
+        att.url && att.expiresAt
+          ? [
+              {
+                id: att.id,
+                fileName: att.file.name,
+                contentType: att.contentType,
+                url: att.url,
+                expiresAt: att.expiresAt,
+              },
+            ]
+          : [],
+      ),
     };
     sessionStorage.setItem(PROMPT_STORAGE_KEY, JSON.stringify(data));
   } catch (error) {
@@ -88,7 +151,15 @@ export const loadPromptFromStorage = (): StoredPromptData | null => {
   try {
     const stored = sessionStorage.getItem(PROMPT_STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const data: StoredPromptData = JSON.parse(stored);
+      const minExpiry = Date.now() + MIN_RESTORED_ATTACHMENT_TTL_MS;
+      return {
+        message: data.message,
+        attachments: data.attachments.filter(
+          (att) =>
+            att.url && att.contentType && Date.parse(att.expiresAt) > minExpiry,
+        ),
+      };
     }
   } catch (error) {
     console.warn("Failed to load prompt from sessionStorage:", error);
@@ -108,12 +179,19 @@ export const createImageAttachmentFromStored = (
   stored: StoredPromptData["attachments"][0],
 ): ImageAttachment => {
   // Create a mock File object from stored data
-  const mockFile = new File([""], stored.fileName, { type: "image/*" });
+  const mockFile = new File([""], stored.fileName, {
+    type: stored.contentType,
+  });
   return {
     id: stored.id,
     file: mockFile,
-    dataUrl: stored.dataUrl,
-    preview: stored.preview,
+    contentType: stored.contentType,
+    preview:
+      getAttachmentKind(stored.contentType) === "image" ? stored.url : "",
+    status: "uploaded",
+    progress: 100,
+    url: stored.url,
+    expiresAt: stored.expiresAt,
   };
 };
 
@@ -154,8 +232,8 @@ export const PromptInput = ({
       e.preventDefault();
       e.stopPropagation();
 
-      const files = Array.from(e.dataTransfer.files).filter((file) =>
-        file.type.startsWith("image/"),
+      const files = Array.from(e.dataTransfer.files).filter(
+        isSupportedAttachment,
       );
 
       if (files.length > 0) {
@@ -292,6 +370,8 @@ export const PromptInputButton = ({
 
 export type PromptInputSubmitProps = ComponentProps<typeof Button> & {
   status?: ChatStatus;
+  // Called instead of submitting while a response is streaming
+  onStop?: () => void;
 };
 
 export const PromptInputSubmit = ({
@@ -299,9 +379,25 @@ export const PromptInputSubmit = ({
   variant = "default",
   size = "icon",
   status,
+  onStop,
   children,
   ...props
 }: PromptInputSubmitProps) => {
+  if (onStop && status === "streaming") {
+    return (
+      <Button
+        aria-label="Stop generating"
+        className={cn("gap-1.5 rounded-lg", className)}
+        onClick={onStop}
+        size={size}
+        type="button"
+        variant={variant}
+      >
+        {children ?? <SquareIcon className="size-4" />}
+      </Button>
+    );
+  }
+
   let Icon = <ArrowUpIcon className="size-4" />;
 
   if (status === "submitted") {
@@ -514,8 +610,8 @@ export const PromptInputImageButton = ({
 
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const files = Array.from(e.target.files || []).filter((file) =>
-        file.type.startsWith("image/"),
+      const files = Array.from(e.target.files || []).filter(
+        isSupportedAttachment,
       );
 
       if (files.length > 0) {
@@ -535,7 +631,7 @@ export const PromptInputImageButton = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={attachmentAccept}
         multiple
         onChange={handleFileChange}
         className="hidden"
@@ -545,7 +641,7 @@ export const PromptInputImageButton = ({
         onClick={handleClick}
         {...props}
       >
-        <ImageIcon className="size-4" />
+        <PaperclipIcon className="size-4" />
       </PromptInputButton>
     </>
   );
@@ -554,8 +650,30 @@ export const PromptInputImageButton = ({
 export type ImageAttachment = {
   id: string;
   file: File;
-  dataUrl: string;
+  contentType: string;
+  // Thumbnail URL for images, empty for other files
   preview: string;
+  status: "uploading" | "uploaded" | "error";
+  // Upload progress as a percentage
+  progress: number;
+  // Signed URL of the uploaded file, sent to v0 with the message
+  url?: string;
+  expiresAt?: string;
+  error?: string;
+};
+
+const AttachmentFileIcon = ({ contentType }: { contentType: string }) => {
+  const kind = getAttachmentKind(contentType);
+  const Icon = kind === "archive" ? FileArchiveIcon : FileTextIcon;
+
+  return (
+    <div className="flex h-16 w-16 flex-col items-center justify-center gap-1 pb-4 text-muted-foreground">
+      <Icon className="size-5" />
+      <span className="font-medium text-[10px] uppercase">
+        {kind === "pdf" ? "PDF" : kind === "archive" ? "ZIP" : "Text"}
+      </span>
+    </div>
+  );
 };
 
 export type PromptInputImagePreviewProps = {
@@ -580,13 +698,31 @@ export const PromptInputImagePreview = ({
           key={attachment.id}
           className="group relative overflow-hidden rounded-lg border bg-muted"
         >
-          <Image
-            src={attachment.preview}
-            alt={attachment.file.name}
-            width={64}
-            height={64}
-            className="h-16 w-16 object-cover"
-          />
+          {attachment.preview ? (
+            <Image
+              src={attachment.preview}
+              alt={attachment.file.name}
+              width={64}
+              height={64}
+              className="h-16 w-16 object-cover"
+              unoptimized
+            />
+          ) : (
+            <AttachmentFileIcon contentType={attachment.contentType} />
+          )}
+          {attachment.status === "uploading" && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50 font-medium text-white text-xs">
+              {attachment.progress}%
+            </div>
+          )}
+          {attachment.status === "error" && (
+            <div
+              className="absolute inset-0 flex items-center justify-center bg-destructive/80 p-1 text-center text-destructive-foreground text-xs"
+              title={attachment.error}
+            >
+              Upload failed
+            </div>
+          )}
           {onRemove && (
             <button
               onClick={() => onRemove(attachment.id)}
@@ -39,6 +39,16 @@ export function AuthForm({ type }: AuthFormProps) {
           className="w-full"
           minLength={type === "signup" ? 6 : 1}
         />
+        {type === "signin" && (
+          <div className="mt-2 text-right text-sm">
+            <Link
+              href="/forgot-password"
+              className="text-muted-foreground hover:text-primary hover:underline"
+            >
+              Forgot password?
+            </Link>
+          </div>
+        )}
       </div>
 
       {state?.type === "error" && (
@@ -1,8 +1,15 @@
-import { useCallback, useEffect, useState } from "react";
+import {
+  type Dispatch,
+  type SetStateAction,
+  useCallback,
+  useEffect,
+  useState,
+} from "react";
 import {
   clearPromptFromStorage,
-  createImageAttachment,
   createImageAttachmentFromStored,
+  getAttachmentUrls,
+  hasPendingUploads,
   type ImageAttachment,
   loadPromptFromStorage,
   PromptInput,
@@ -14,6 +21,7 @@ import {
   PromptInputToolbar,
   PromptInputTools,
   savePromptToStorage,
+  uploadImageAttachments,
 } from "@/components/ai-elements/prompt-input";
 import { Suggestion, Suggestions } from "@/components/ai-elements/suggestion";
 
@@ -25,9 +33,11 @@ interface ChatInputProps {
     attachments?: Array<{ url: string }>,
   ) => void;
   isLoading: boolean;
+  isStreaming?: boolean;
+  onStop?: () => void;
   showSuggestions: boolean;
   attachments?: ImageAttachment[];
-  onAttachmentsChange?: (attachments: ImageAttachment[]) => void;
+  onAttachmentsChange?: Dispatch<SetStateAction<ImageAttachment[]>>;
   textareaRef?: React.RefObject<HTMLTextAreaElement | null>;
 }
 
@@ -36,6 +46,8 @@ export function ChatInput({
   setMessage,
   onSubmit,
   isLoading,
+  isStreaming = false,
+  onStop,
   showSuggestions,
   attachments = [],
   onAttachmentsChange,
@@ -44,21 +56,13 @@ export function ChatInput({
   const [isDragOver, setIsDragOver] = useState(false);
 
   const handleImageFiles = useCallback(
-    async (files: File[]) => {
+    (files: File[]) => {
       if (!onAttachmentsChange) {
         return;
       }
-
-      try {
-        const newAttachments = await Promise.all(
-          files.map((file) => createImageAttachment(file)),
-        );
-        onAttachmentsChange([...attachments, ...newAttachments]);
-      } catch (error) {
-        console.error("Error processing image files:", error);
-      }
+      uploadImageAttachments(files, onAttachmentsChange);
     },
-    [attachments, onAttachmentsChange],
+    [onAttachmentsChange],
   );
 
   const handleRemoveAttachment = useCallback(
@@ -66,9 +70,9 @@ export function ChatInput({
       if (!onAttachmentsChange) {
         return;
       }
-      onAttachmentsChange(attachments.filter((att) => att.id !== id));
+      onAttachmentsChange((prev) => prev.filter((att) => att.id !== id));
     },
-    [attachments, onAttachmentsChange],
+    [onAttachmentsChange],
   );
 
   const handleDragOver = useCallback(() => {
@@ -111,10 +115,16 @@ export function ChatInput({
 
   const handleSubmit = useCallback(
     (e: React.FormEvent<HTMLFormElement>) => {
+      // Wait for attachments to finish uploading before sending
+      if (hasPendingUploads(attachments)) {
+        e.preventDefault();
+        return;
+      }
+
       // Clear sessionStorage immediately upon submission
       clearPromptFromStorage();
 
-      const attachmentUrls = attachments.map((att) => ({ url: att.dataUrl }));
+      const attachmentUrls = getAttachmentUrls(attachments);
       onSubmit(e, attachmentUrls.length > 0 ? attachmentUrls : undefined);
     },
     [onSubmit, attachments],
@@ -157,8 +167,9 @@ export function ChatInput({
                 }}
               />
               <PromptInputSubmit
-                disabled={!message}
-                status={isLoading ? "streaming" : "ready"}
+                disabled={!message || hasPendingUploads(attachments)}
+                status={isLoading || isStreaming ? "streaming" : "ready"}
+                onStop={onStop}
               />
             </PromptInputTools>
           </PromptInputToolbar>
@@ -1,5 +1,15 @@
 import { type MessageBinaryFormat, StreamingMessage } from "@v0-sdk/react";
-import { useEffect, useRef } from "react";
+import { PencilIcon, RefreshCcwIcon } from "lucide-react";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Action, Actions } from "@/components/ai-elements/actions";
+import {
+  Branch,
+  BranchMessages,
+  BranchNext,
+  BranchPage,
+  BranchPrevious,
+  BranchSelector,
+} from "@/components/ai-elements/branch";
 import {
   Conversation,
   ConversationContent,
@@ -8,12 +18,18 @@ import { Loader } from "@/components/ai-elements/loader";
 import { Message } from "@/components/ai-elements/message";
 import { MessageRenderer } from "@/components/message-renderer";
 import { sharedComponents } from "@/components/shared-components";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import type { ResponseAlternative } from "@/lib/chat-history";
 
 interface ChatMessage {
+  id?: string;
   type: "user" | "assistant";
   content: string | MessageBinaryFormat;
   isStreaming?: boolean;
   stream?: ReadableStream<Uint8Array> | null;
+  stopped?: boolean;
+  alternatives?: ResponseAlternative[];
 }
 
 interface Chat {
@@ -29,6 +45,136 @@ interface ChatMessagesProps {
   onStreamingComplete: (finalContent: string | MessageBinaryFormat) => void;
   onChatData: (chatData: { id: string; demo?: string; url?: string }) => void;
   onStreamingStarted?: () => void;
+  // Receives the content streamed so far, e.g. to keep it if the user stops
+  onStreamingChunk?: (content: MessageBinaryFormat) => void;
+  // Shows a regenerate action on the last response
+  onRegenerate?: () => void;
+  onSelectAlternative?: (alternative: ResponseAlternative) => void;
+  // Shows an edit action on saved prompts. Editing one branches the chat.
+  onEditMessage?: (messageId: string, content: string) => void;
+}
+
+// Edits an earlier prompt in place
+function PromptEditor({
+  initialValue,
+  onCancel,
+  onSubmit,
+}: {
+  initialValue: string;
+  onCancel: () => void;
+  onSubmit: (value: string) => void;
+}) {
+  const [value, setValue] = useState(initialValue);
+  const isUnchanged = !value.trim() || value.trim() === initialValue.trim();
+
+  return (
+    <form
+      className="flex w-full flex-col gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(value);
+      }}
+    >
+      <Textarea
+        aria-label="Edit message"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <p className="text-muted-foreground text-xs">
+        Sending starts a new branch of this chat. The original is kept.
+      </p>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isUnchanged}>
+          Send
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// The attempts at a regenerated response, showing the latest first
+function ResponseAlternatives({
+  alternatives,
+  messageId,
+  role,
+  onSelect,
+}: {
+  alternatives: ResponseAlternative[];
+  messageId: string;
+  role: "user" | "assistant";
+  onSelect?: (alternative: ResponseAlternative) => void;
+}) {
+  return (
+    // Remount when an attempt is added, so the latest is selected
+    <Branch
+      key={alternatives.length}
+      defaultBranch={alternatives.length - 1}
+      onBranchChange={(branchIndex) => onSelect?.(alternatives[branchIndex])}
+    >
+      <BranchMessages>
+        {alternatives.map((alternative) => (
+          <MessageRenderer
+            key={alternative.id}
+            content={alternative.content}
+            role={role}
+            messageId={`${messageId}-${alternative.id}`}
+          />
+        ))}
+      </BranchMessages>
+      <BranchSelector from={role}>
+        <BranchPrevious />
+        <BranchPage />
+        <BranchNext />
+      </BranchSelector>
+    </Branch>
+  );
+}
+
+// A message that isn't streaming, with its alternatives if it has been
+// regenerated
+function CompletedMessage({
+  message,
+  messageId,
+  onSelectAlternative,
+}: {
+  message: ChatMessage;
+  messageId: string;
+  onSelectAlternative?: (alternative: ResponseAlternative) => void;
+}) {
+  if (message.stopped) {
+    return (
+      <div className="flex flex-col gap-1">
+        <MessageRenderer
+          content={message.content}
+          role={message.type}
+          messageId={messageId}
+        />
+        <p className="text-muted-foreground text-xs">Response stopped</p>
+      </div>
+    );
+  }
+
+  if (message.alternatives && message.alternatives.length > 1) {
+    return (
+      <ResponseAlternatives
+        alternatives={message.alternatives}
+        messageId={messageId}
+        role={message.type}
+        onSelect={onSelectAlternative}
+      />
+    );
+  }
+
+  return (
+    <MessageRenderer
+      content={message.content}
+      role={message.type}
+      messageId={messageId}
+    />
+  );
 }
 
 export function ChatMessages({
@@ -37,8 +183,31 @@ export function ChatMessages({
   onStreamingComplete,
   onChatData,
   onStreamingStarted,
+  onStreamingChunk,
+  onRegenerate,
+  onSelectAlternative,
+  onEditMessage,
 }: Omit<ChatMessagesProps, "currentChat">) {
   const streamingStartedRef = useRef(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const isResponding = isLoading || chatHistory.some((msg) => msg.isStreaming);
+
+  // Saved prompts can be edited while no response is coming in
+  const canEdit = (msg: ChatMessage, index: number) =>
+    Boolean(
+      onEditMessage &&
+        msg.type === "user" &&
+        msg.id &&
+        !isResponding &&
+        editingIndex !== index,
+    );
+
+  const handleEditSubmit = (msg: ChatMessage, value: string) => {
+    setEditingIndex(null);
+    if (msg.id) {
+      onEditMessage?.(msg.id, value);
+    }
+  };
 
   // Reset the streaming started flag when a new message starts loading
   useEffect(() => {
@@ -63,33 +232,65 @@ export function ChatMessages({
     <Conversation>
       <ConversationContent>
         {chatHistory.map((msg, index) => (
-          <Message from={msg.type} key={`message-${index}-${msg.type}`}>
-            {msg.isStreaming && msg.stream ? (
-              <StreamingMessage
-                stream={msg.stream}
-                messageId={`msg-${index}`}
-                role={msg.type}
-                onComplete={onStreamingComplete}
-                onChatData={onChatData}
-                onChunk={(_chunk) => {
-                  // Hide external loader once we start receiving content (only once)
-                  if (onStreamingStarted && !streamingStartedRef.current) {
-                    streamingStartedRef.current = true;
-                    onStreamingStarted();
+          <Fragment key={`message-${index}-${msg.type}`}>
+            <Message from={msg.type}>
+              {editingIndex === index && msg.id ? (
+                <PromptEditor
+                  initialValue={
+                    typeof msg.content === "string" ? msg.content : ""
                   }
-                }}
-                onError={(error) => console.error("Streaming error:", error)}
-                components={sharedComponents}
-                showLoadingIndicator={false}
-              />
-            ) : (
-              <MessageRenderer
-                content={msg.content}
-                role={msg.type}
-                messageId={`msg-${index}`}
-              />
+                  onCancel={() => setEditingIndex(null)}
+                  onSubmit={(value) => handleEditSubmit(msg, value)}
+                />
+              ) : msg.isStreaming && msg.stream ? (
+                <StreamingMessage
+                  stream={msg.stream}
+                  messageId={`msg-${index}`}
+                  role={msg.type}
+                  onComplete={onStreamingComplete}
+                  onChatData={onChatData}
+                  onChunk={(chunk) => {
+                    onStreamingChunk?.(chunk);
+                    // Hide external loader once we start receiving content (only once)
+                    if (onStreamingStarted && !streamingStartedRef.current) {
+                      streamingStartedRef.current = true;
+                      onStreamingStarted();
+                    }
+                  }}
+                  onError={(error) => console.error("Streaming error:", error)}
+                  components={sharedComponents}
+                  showLoadingIndicator={false}
+                />
+              ) : (
+                <CompletedMessage
+                  message={msg}
+                  messageId={`msg-${index}`}
+                  onSelectAlternative={onSelectAlternative}
+                />
+              )}
+            </Message>
+            {canEdit(msg, index) && (
+              <Actions className="justify-end">
+                <Action
+                  tooltip="Edit message"
+                  onClick={() => setEditingIndex(index)}
+                >
+                  <PencilIcon className="size-4" />
+                </Action>
+              </Actions>
             )}
-          </Message>
+            {onRegenerate &&
+              !isLoading &&
+              index === chatHistory.length - 1 &&
+              msg.type === "assistant" &&
+              !msg.isStreaming && (
+                <Actions>
+                  <Action tooltip="Regenerate response" onClick={onRegenerate}>
+                    <RefreshCcwIcon className="size-4" />
+                  </Action>
+                </Actions>
+              )}
+          </Fragment>
         ))}
         {isLoading && (
           <div className="flex justify-center py-4">
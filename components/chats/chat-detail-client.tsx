@@ -28,13 +28,25 @@ export function ChatDetailClient() {
     currentChat,
     isLoading,
     setIsLoading,
+    isStreaming,
     chatHistory,
     isLoadingChat,
     handleSendMessage,
     handleStreamingComplete,
+    handleStreamingChunk,
+    handleStop,
+    handleRegenerate,
+    handleEditMessage,
+    handleSelectAlternative,
+    previewDemoUrl,
     handleChatData,
   } = useChat(chatId);
 
+  // Preview the version of the alternative response being viewed, if any
+  const previewChat = currentChat
+    ? { ...currentChat, demo: previewDemoUrl ?? currentChat.demo }
+    : null;
+
   // Wrapper function to handle attachments
   const handleSubmitWithAttachments = (
     e: React.FormEvent<HTMLFormElement>,
@@ -85,6 +97,10 @@ export function ChatDetailClient() {
               onStreamingComplete={handleStreamingComplete}
               onChatData={handleChatData}
               onStreamingStarted={() => setIsLoading(false)}
+              onStreamingChunk={handleStreamingChunk}
+              onRegenerate={handleRegenerate}
+              onSelectAlternative={handleSelectAlternative}
+              onEditMessage={handleEditMessage}
             />
 
             <ChatInput
@@ -92,6 +108,8 @@ export function ChatDetailClient() {
               setMessage={setMessage}
               onSubmit={handleSubmitWithAttachments}
               isLoading={isLoading}
+              isStreaming={isStreaming}
+              onStop={handleStop}
               showSuggestions={false}
               attachments={attachments}
               onAttachmentsChange={setAttachments}
@@ -101,7 +119,7 @@ export function ChatDetailClient() {
         }
         rightPanel={
           <PreviewPanel
-            currentChat={currentChat || null}
+            currentChat={previewChat}
             isFullscreen={isFullscreen}
             setIsFullscreen={setIsFullscreen}
             refreshKey={refreshKey}
@@ -1,34 +1,68 @@
 "use client";
 
-import { Plus } from "lucide-react";
+import { Plus, Users } from "lucide-react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useState } from "react";
 import useSWR from "swr";
 import { AppHeader } from "@/components/shared/app-header";
 
-interface V0Chat {
+interface ChatListItem {
   id: string;
   object: "chat";
   name?: string;
-  messages?: Array<{
-    role: "user" | "assistant";
-    content: string;
-  }>;
+  privacy: "public" | "private" | "team" | "team-edit" | "unlisted";
+  demoUrl?: string;
+  messageCount: number;
+  claimedAt?: string;
+  // Set when the chat branched off another by editing one of its prompts
+  parentChatId?: string;
+  // Team the chat is shared with, and whether the user owns it or sees it
+  // as a member of that team
+  teamId?: string;
+  isOwner: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
 interface ChatsResponse {
   object: "list";
-  data: V0Chat[];
+  data: ChatListItem[];
 }
 
 export function ChatsClient() {
   const { data, error, isLoading } = useSWR<ChatsResponse>("/api/chats");
   const chats = data?.data || [];
+  const searchParams = useSearchParams();
+  const [showImported, setShowImported] = useState(
+    searchParams.get("imported") === "true",
+  );
+
+  // Chats imported by the most recent sign-in share the same claim time.
+  // Teammates' chats were imported into their own accounts.
+  const latestClaimedAt = chats.reduce<string | undefined>(
+    (latest, chat) =>
+      chat.isOwner && chat.claimedAt && (!latest || chat.claimedAt > latest)
+        ? chat.claimedAt
+        : latest,
+    undefined,
+  );
+  const importedChats = latestClaimedAt
+    ? chats.filter((chat) => chat.isOwner && chat.claimedAt === latestClaimedAt)
+    : [];
+
+  const getChatDisplayName = (chat: ChatListItem) => {
+    return chat.name || `Chat ${chat.id.slice(0, 8)}...`;
+  };
+
+  const getParentDisplayName = (parentChatId: string) => {
+    const parent = chats.find((chat) => chat.id === parentChatId);
+    return parent ? getChatDisplayName(parent) : "another chat";
+  };
 
-  const getFirstUserMessage = (chat: V0Chat) => {
-    const firstUserMessage = chat.messages?.find((msg) => msg.role === "user");
-    return firstUserMessage?.content || "No messages";
+  const dismissImported = () => {
+    setShowImported(false);
+    window.history.replaceState({}, "", "/chats");
   };
 
   return (
@@ -62,6 +96,39 @@ export function ChatsClient() {
 
         {!(isLoading || error) && (
           <>
+            {showImported && importedChats.length > 0 && (
+              <div className="mb-6 rounded-md border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h3 className="font-medium text-blue-800 text-sm dark:text-blue-200">
+                      {importedChats.length}{" "}
+                      {importedChats.length === 1 ? "chat was" : "chats were"}{" "}
+                      imported into your account
+                    </h3>
+                    <ul className="mt-2 list-disc pl-5 text-blue-700 text-sm dark:text-blue-300">
+                      {importedChats.map((chat) => (
+                        <li key={chat.id}>
+                          <Link
+                            href={`/chats/${chat.id}`}
+                            className="hover:underline"
+                          >
+                            {getChatDisplayName(chat)}
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={dismissImported}
+                    className="font-medium text-blue-800 text-sm hover:underline dark:text-blue-200"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            )}
+
             <div className="mb-6 flex items-center justify-between">
               <div>
                 <h2 className="mb-2 font-bold text-2xl text-gray-900 dark:text-white">
@@ -110,10 +177,25 @@ export function ChatsClient() {
                       <div className="flex items-start justify-between">
                         <div className="min-w-0 flex-1">
                           <h3 className="truncate font-medium text-gray-900 text-lg transition-colors group-hover:text-blue-600 dark:text-white dark:group-hover:text-blue-400">
-                            {chat.name || getFirstUserMessage(chat)}
+                            {getChatDisplayName(chat)}
                           </h3>
+                          {chat.parentChatId && (
+                            <p className="mt-1 truncate text-gray-500 text-sm dark:text-gray-400">
+                              Branched from{" "}
+                              {getParentDisplayName(chat.parentChatId)}
+                            </p>
+                          )}
+                          {!chat.isOwner && (
+                            <p className="mt-1 flex items-center gap-1 text-gray-500 text-sm dark:text-gray-400">
+                              <Users className="h-3.5 w-3.5" />
+                              Shared by a teammate
+                            </p>
+                          )}
                           <div className="mt-2 flex items-center text-gray-500 text-sm dark:text-gray-400">
-                            <span>{chat.messages?.length || 0} messages</span>
+                            <span>
+                              {chat.messageCount}{" "}
+                              {chat.messageCount === 1 ? "message" : "messages"}
+                            </span>
                           </div>
                           <p className="mt-2 text-gray-500 text-sm dark:text-gray-400">
                             Updated{" "}
@@ -1,13 +1,15 @@
 "use client";
 
-import { StreamingMessage } from "@v0-sdk/react";
+import { type MessageBinaryFormat, StreamingMessage } from "@v0-sdk/react";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { Suspense, useEffect, useRef, useState } from "react";
 import {
   clearPromptFromStorage,
-  createImageAttachment,
   createImageAttachmentFromStored,
+  getAttachmentUrls,
+  hasPendingUploads,
   type ImageAttachment,
   loadPromptFromStorage,
   PromptInput,
@@ -19,6 +21,7 @@ import {
   PromptInputToolbar,
   PromptInputTools,
   savePromptToStorage,
+  uploadImageAttachments,
 } from "@/components/ai-elements/prompt-input";
 import { Suggestion, Suggestions } from "@/components/ai-elements/suggestion";
 import { ChatInput } from "@/components/chat/chat-input";
@@ -26,6 +29,13 @@ import { ChatMessages } from "@/components/chat/chat-messages";
 import { PreviewPanel } from "@/components/chat/preview-panel";
 import { AppHeader } from "@/components/shared/app-header";
 import { ResizableLayout } from "@/components/shared/resizable-layout";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+import {
+  GENERATION_ID_HEADER,
+  isAbortError,
+  markResponseStopped,
+  stopGeneration,
+} from "@/lib/generations";
 
 // Component that uses useSearchParams - needs to be wrapped in Suspense
 function SearchParamsHandler({ onReset }: { onReset: () => void }) {
@@ -48,6 +58,7 @@ function SearchParamsHandler({ onReset }: { onReset: () => void }) {
 }
 
 export function HomeClient() {
+  const { data: session } = useSession();
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [showChatInterface, setShowChatInterface] = useState(false);
@@ -59,6 +70,7 @@ export function HomeClient() {
       content: string | any;
       isStreaming?: boolean;
       stream?: ReadableStream<Uint8Array> | null;
+      stopped?: boolean;
     }>
   >([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
@@ -69,6 +81,10 @@ export function HomeClient() {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // The in-flight response, so the user can stop it
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const generationIdRef = useRef<string | null>(null);
+  const streamedContentRef = useRef<MessageBinaryFormat>([]);
 
   const handleReset = () => {
     // Reset all chat-related state
@@ -123,15 +139,8 @@ export function HomeClient() {
   }, [message, attachments]);
 
   // Image attachment handlers
-  const handleImageFiles = async (files: File[]) => {
-    try {
-      const newAttachments = await Promise.all(
-        files.map((file) => createImageAttachment(file)),
-      );
-      setAttachments((prev) => [...prev, ...newAttachments]);
-    } catch (error) {
-      console.error("Error processing image files:", error);
-    }
+  const handleImageFiles = (files: File[]) => {
+    uploadImageAttachments(files, setAttachments);
   };
 
   const handleRemoveAttachment = (id: string) => {
@@ -152,7 +161,7 @@ export function HomeClient() {
 
   const handleSendMessage = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!message.trim() || isLoading) {
+    if (!message.trim() || isLoading || hasPendingUploads(attachments)) {
       return;
     }
 
@@ -175,45 +184,32 @@ export function HomeClient() {
     ]);
     setIsLoading(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    generationIdRef.current = null;
+    streamedContentRef.current = [];
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
+        signal: controller.signal,
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           message: userMessage,
           streaming: true,
-          attachments: currentAttachments.map((att) => ({ url: att.dataUrl })),
+          attachments: getAttachmentUrls(currentAttachments),
         }),
       });
 
-      if (!response.ok) {
-        // Try to get the specific error message from the response
-        let errorMessage =
-          "Sorry, there was an error processing your message. Please try again.";
-        try {
-          const errorData = await response.json();
-          if (errorData.message) {
-            errorMessage = errorData.message;
-          } else if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        } catch (parseError) {
-          console.error("Error parsing error response:", parseError);
-          if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        }
-        throw new Error(errorMessage);
-      }
+      await assertOk(response, { userType: session?.user?.type });
 
       if (!response.body) {
         throw new Error("No response body for streaming");
       }
 
+      generationIdRef.current = response.headers.get(GENERATION_ID_HEADER);
       setIsLoading(false);
 
       // Add streaming assistant response
@@ -227,14 +223,15 @@ export function HomeClient() {
         },
       ]);
     } catch (error) {
+      // The user stopped the request, which has already been handled
+      if (isAbortError(error)) {
+        return;
+      }
+
       console.error("Error creating chat:", error);
       setIsLoading(false);
 
-      // Use the specific error message if available, otherwise fall back to generic message
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "Sorry, there was an error processing your message. Please try again.";
+      const errorMessage = getErrorMessage(error);
 
       setChatHistory((prev) => [
         ...prev,
@@ -246,7 +243,7 @@ export function HomeClient() {
     }
   };
 
-  const handleChatData = async (chatData: any) => {
+  const handleChatData = (chatData: any) => {
     if (chatData.id) {
       // Only set currentChat if it's not already set or if this is the main chat object
       if (!currentChatId || chatData.object === "chat") {
@@ -256,29 +253,39 @@ export function HomeClient() {
         // Update URL without triggering Next.js routing
         window.history.pushState(null, "", `/chats/${chatData.id}`);
       }
+    }
+  };
 
-      // Create ownership record for new chat (only if this is a new chat)
-      if (!currentChatId) {
-        try {
-          await fetch("/api/chat/ownership", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              chatId: chatData.id,
-            }),
-          });
-        } catch (error) {
-          console.error("Failed to create chat ownership:", error);
-          // Don't fail the UI if ownership creation fails
-        }
+  const handleStreamingChunk = (content: MessageBinaryFormat) => {
+    streamedContentRef.current = content;
+  };
+
+  // Aborts the response in the browser and on the server, keeping what had
+  // streamed so far
+  const handleStop = async () => {
+    const generationId = generationIdRef.current;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    generationIdRef.current = null;
+
+    setIsLoading(false);
+    setChatHistory((prev) =>
+      markResponseStopped(prev, streamedContentRef.current),
+    );
+
+    if (generationId) {
+      try {
+        await stopGeneration(generationId, { userType: session?.user?.type });
+      } catch (error) {
+        console.error("Error stopping generation:", error);
       }
     }
   };
 
   const handleStreamingComplete = async (finalContent: any) => {
     setIsLoading(false);
+    abortControllerRef.current = null;
+    generationIdRef.current = null;
 
     // Update chat history with final content
     setChatHistory((prev) => {
@@ -344,9 +351,15 @@ export function HomeClient() {
     // Add user message to chat history
     setChatHistory((prev) => [...prev, { type: "user", content: userMessage }]);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    generationIdRef.current = null;
+    streamedContentRef.current = [];
+
     try {
       const response = await fetch("/api/chat", {
         method: "POST",
+        signal: controller.signal,
         headers: {
           "Content-Type": "application/json",
         },
@@ -357,32 +370,13 @@ export function HomeClient() {
         }),
       });
 
-      if (!response.ok) {
-        // Try to get the specific error message from the response
-        let errorMessage =
-          "Sorry, there was an error processing your message. Please try again.";
-        try {
-          const errorData = await response.json();
-          if (errorData.message) {
-            errorMessage = errorData.message;
-          } else if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        } catch (parseError) {
-          console.error("Error parsing error response:", parseError);
-          if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        }
-        throw new Error(errorMessage);
-      }
+      await assertOk(response, { userType: session?.user?.type });
 
       if (!response.body) {
         throw new Error("No response body for streaming");
       }
 
+      generationIdRef.current = response.headers.get(GENERATION_ID_HEADER);
       setIsLoading(false);
 
       // Add streaming response
@@ -396,13 +390,14 @@ export function HomeClient() {
         },
       ]);
     } catch (error) {
+      // The user stopped the request, which has already been handled
+      if (isAbortError(error)) {
+        return;
+      }
+
       console.error("Error:", error);
 
-      // Use the specific error message if available, otherwise fall back to generic message
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "Sorry, there was an error processing your message. Please try again.";
+      const errorMessage = getErrorMessage(error);
 
       setChatHistory((prev) => [
         ...prev,
@@ -435,6 +430,7 @@ export function HomeClient() {
                 onStreamingComplete={handleStreamingComplete}
                 onChatData={handleChatData}
                 onStreamingStarted={() => setIsLoading(false)}
+                onStreamingChunk={handleStreamingChunk}
               />
 
               <ChatInput
@@ -442,6 +438,8 @@ export function HomeClient() {
                 setMessage={setMessage}
                 onSubmit={handleChatSendMessage}
                 isLoading={isLoading}
+                isStreaming={chatHistory.some((msg) => msg.isStreaming)}
+                onStop={handleStop}
                 showSuggestions={false}
               />
             </>
@@ -542,7 +540,11 @@ export function HomeClient() {
                     disabled={isLoading}
                   />
                   <PromptInputSubmit
-                    disabled={!message.trim() || isLoading}
+                    disabled={
+                      !message.trim() ||
+                      isLoading ||
+                      hasPendingUploads(attachments)
+                    }
                     status={isLoading ? "streaming" : "ready"}
                   />
                 </PromptInputTools>
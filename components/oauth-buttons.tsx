@@ -0,0 +1,39 @@
+import { oauthSignInAction } from "@/app/(auth)/actions";
+import { Button } from "@/components/ui/button";
+import type { OAuthProvider } from "@/lib/db/schema";
+import { OAUTH_PROVIDER_LABELS } from "@/lib/oauth-providers";
+
+interface OAuthButtonsProps {
+  providers: OAuthProvider[];
+}
+
+export function OAuthButtons({ providers }: OAuthButtonsProps) {
+  if (providers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <form action={oauthSignInAction} className="space-y-2">
+        {providers.map((provider) => (
+          <Button
+            key={provider}
+            type="submit"
+            name="provider"
+            value={provider}
+            variant="outline"
+            className="w-full"
+          >
+            Continue with {OAUTH_PROVIDER_LABELS[provider]}
+          </Button>
+        ))}
+      </form>
+
+      <div className="flex items-center gap-3 text-muted-foreground text-xs">
+        <div className="h-px flex-1 bg-border" />
+        or
+        <div className="h-px flex-1 bg-border" />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import Link from "next/link";
+import { useActionState } from "react";
+import {
+  requestPasswordResetAction,
+  resetPasswordAction,
+} from "@/app/(auth)/actions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+export function ForgotPasswordForm() {
+  const [state, formAction, isPending] = useActionState(
+    requestPasswordResetAction,
+    undefined,
+  );
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <div>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          placeholder="Email"
+          required
+          autoFocus
+          className="w-full"
+        />
+      </div>
+
+      {state && (
+        <div
+          className={
+            state.type === "error"
+              ? "text-red-500 text-sm"
+              : "text-green-600 text-sm dark:text-green-400"
+          }
+        >
+          {state.message}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? "Sending..." : "Send Reset Link"}
+      </Button>
+
+      <div className="text-center text-muted-foreground text-sm">
+        Remembered it?{" "}
+        <Link href="/login" className="text-primary hover:underline">
+          Sign in
+        </Link>
+      </div>
+    </form>
+  );
+}
+
+interface ResetPasswordFormProps {
+  token: string;
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [state, formAction, isPending] = useActionState(
+    resetPasswordAction,
+    undefined,
+  );
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <input type="hidden" name="token" value={token} />
+      <div>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          placeholder="New password"
+          required
+          autoFocus
+          minLength={6}
+          className="w-full"
+        />
+      </div>
+      <div>
+        <Input
+          id="confirmPassword"
+          name="confirmPassword"
+          type="password"
+          placeholder="Confirm new password"
+          required
+          minLength={6}
+          className="w-full"
+        />
+      </div>
+
+      {state?.type === "error" && (
+        <div className="text-red-500 text-sm">{state.message}</div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? "Saving..." : "Set New Password"}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { linkAccountAction } from "@/app/(auth)/actions";
+import { Button } from "@/components/ui/button";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+import { OAUTH_PROVIDER_LABELS } from "@/lib/oauth-providers";
+
+type OAuthProvider = keyof typeof OAUTH_PROVIDER_LABELS;
+
+interface AccountsResponse {
+  accounts: { provider: OAuthProvider; createdAt: string }[];
+  providers: OAuthProvider[];
+  hasPassword: boolean;
+}
+
+interface AccountsSettingsProps {
+  // Why the last link attempt was refused, when the provider sent the user
+  // back with an error
+  linkError?: string;
+}
+
+export function AccountsSettings({ linkError }: AccountsSettingsProps) {
+  const { data, error, isLoading, mutate } =
+    useSWR<AccountsResponse>("/api/accounts");
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const linked = new Map(
+    data?.accounts.map((account) => [account.provider, account]),
+  );
+  // Providers that are linked stay listed even if they were since disabled,
+  // so they can still be removed
+  const providers = [
+    ...new Set([...(data?.providers ?? []), ...linked.keys()]),
+  ];
+  const signInMethods = (data?.hasPassword ? 1 : 0) + linked.size;
+
+  const handleUnlink = async (provider: OAuthProvider) => {
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/accounts/${provider}`, {
+        method: "DELETE",
+      });
+
+      await assertOk(response);
+
+      mutate();
+    } catch (error) {
+      console.error("Error unlinking account:", error);
+      setActionError(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="mb-2 font-bold text-2xl text-gray-900 dark:text-white">
+        Connected accounts
+      </h2>
+      <p className="mb-6 text-gray-600 text-sm dark:text-gray-300">
+        Sign in with GitHub or Google instead of your password.
+      </p>
+
+      {(actionError || linkError) && (
+        <p className="mb-4 text-destructive text-sm">
+          {actionError || linkError}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {isLoading && (
+          <p className="text-gray-600 text-sm dark:text-gray-300">
+            Loading accounts...
+          </p>
+        )}
+        {error && (
+          <p className="text-destructive text-sm">
+            {error.message || "Failed to load connected accounts"}
+          </p>
+        )}
+        {data && providers.length === 0 && (
+          <p className="text-gray-500 text-sm dark:text-gray-400">
+            No sign-in providers are configured.
+          </p>
+        )}
+        {providers.map((provider) => {
+          const account = linked.get(provider);
+
+          return (
+            <div
+              key={provider}
+              className="flex items-center justify-between gap-4 rounded-lg border border-border p-4 dark:border-input"
+            >
+              <div>
+                <p className="font-medium text-gray-900 text-sm dark:text-white">
+                  {OAUTH_PROVIDER_LABELS[provider]}
+                </p>
+                <p className="mt-1 text-gray-500 text-sm dark:text-gray-400">
+                  {account
+                    ? `Linked ${new Date(account.createdAt).toLocaleDateString()}`
+                    : "Not linked"}
+                </p>
+              </div>
+              {account ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={signInMethods <= 1}
+                  title={
+                    signInMethods <= 1
+                      ? "This is the only way left to sign in"
+                      : undefined
+                  }
+                  onClick={() => handleUnlink(provider)}
+                >
+                  Unlink
+                </Button>
+              ) : (
+                <form action={linkAccountAction}>
+                  <Button
+                    type="submit"
+                    name="provider"
+                    value={provider}
+                    variant="outline"
+                    size="sm"
+                  >
+                    Link
+                  </Button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { useActionState } from "react";
+import { resendVerificationAction } from "@/app/(auth)/actions";
+import { Button } from "@/components/ui/button";
+
+interface EmailVerificationProps {
+  email?: string | null;
+}
+
+// Shown until the account's email is verified, which lifts it from guest
+// entitlements
+export function EmailVerification({ email }: EmailVerificationProps) {
+  const [state, formAction, isPending] = useActionState(
+    resendVerificationAction,
+    undefined,
+  );
+
+  return (
+    <section className="rounded-md border border-amber-200 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-900/20">
+      <h2 className="font-medium text-amber-800 text-sm dark:text-amber-200">
+        Verify your email
+      </h2>
+      <p className="mt-1 text-amber-700 text-sm dark:text-amber-300">
+        We sent a verification link to {email ?? "your email"}. Until it's
+        verified, your account has the same limits as a guest.
+      </p>
+
+      <form action={formAction} className="mt-3 flex items-center gap-3">
+        <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+          {isPending ? "Sending..." : "Resend link"}
+        </Button>
+        {state && (
+          <span
+            className={
+              state.type === "error"
+                ? "text-destructive text-sm"
+                : "text-green-600 text-sm dark:text-green-400"
+            }
+          >
+            {state.message}
+          </span>
+        )}
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,416 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useSession } from "next-auth/react";
+import { useState } from "react";
+import useSWR from "swr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+
+type TeamRole = "owner" | "admin" | "member";
+
+interface TeamItem {
+  id: string;
+  name: string;
+  role: TeamRole;
+  createdAt: string;
+}
+
+interface TeamDetails {
+  id: string;
+  name: string;
+  role: TeamRole;
+  members: {
+    userId: string;
+    email: string;
+    role: TeamRole;
+    joinedAt: string;
+  }[];
+  // Only listed for admins and the owner
+  invites: {
+    id: string;
+    email: string;
+    role: TeamRole;
+    expiresAt: string;
+  }[];
+}
+
+const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+const selectClassName =
+  "h-9 rounded-md border border-input bg-transparent px-2 text-sm dark:bg-input/30";
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  await assertOk(response);
+  return response.json();
+}
+
+export function TeamsSettings() {
+  const { data, error, isLoading, mutate } = useSWR<{
+    teams: TeamItem[];
+    canCreate: boolean;
+  }>("/api/teams");
+  const teams = data?.teams ?? [];
+
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setActionError(null);
+
+    try {
+      await sendJson("/api/teams", "POST", { name: name.trim() });
+      setName("");
+      mutate();
+    } catch (error) {
+      console.error("Error creating team:", error);
+      setActionError(getErrorMessage(error));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="mb-2 font-bold text-2xl text-gray-900 dark:text-white">
+        Teams
+      </h2>
+      <p className="mb-6 text-gray-600 text-sm dark:text-gray-300">
+        Share chats with a team by setting their visibility to Team or Team
+        Edit. Members can open the team's chats, and also send messages to Team
+        Edit chats.
+      </p>
+
+      {data?.canCreate === false ? (
+        <p className="mb-6 text-gray-500 text-sm dark:text-gray-400">
+          Verify your email to create teams. You can still join teams you're
+          invited to.
+        </p>
+      ) : (
+        <form onSubmit={handleCreate} className="mb-6 flex gap-2">
+          <Input
+            placeholder="Team name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={64}
+            required
+          />
+          <Button type="submit" disabled={isCreating || !name.trim()}>
+            {isCreating ? "Creating..." : "Create team"}
+          </Button>
+        </form>
+      )}
+
+      {actionError && (
+        <p className="mb-4 text-destructive text-sm">{actionError}</p>
+      )}
+
+      <div className="space-y-3">
+        {isLoading && (
+          <p className="text-gray-600 text-sm dark:text-gray-300">
+            Loading teams...
+          </p>
+        )}
+        {error && (
+          <p className="text-destructive text-sm">
+            {error.message || "Failed to load teams"}
+          </p>
+        )}
+        {!(isLoading || error) && teams.length === 0 && (
+          <p className="text-gray-500 text-sm dark:text-gray-400">
+            You're not in any teams yet.
+          </p>
+        )}
+        {teams.map((team) => (
+          <TeamCard key={team.id} team={team} onChange={() => mutate()} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+interface TeamCardProps {
+  team: TeamItem;
+  // Called when the team was renamed, deleted or left
+  onChange: () => void;
+}
+
+function TeamCard({ team, onChange }: TeamCardProps) {
+  const { data: session } = useSession();
+  const [isOpen, setIsOpen] = useState(false);
+  const { data, mutate } = useSWR<TeamDetails>(
+    isOpen ? `/api/teams/${team.id}` : null,
+  );
+
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<TeamRole>("member");
+  const [isInviting, setIsInviting] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const isAdmin = team.role === "owner" || team.role === "admin";
+  const isOwner = team.role === "owner";
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    description: string,
+  ) => {
+    setActionError(null);
+    setNotice(null);
+
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error(`Error trying to ${description}:`, error);
+      setActionError(getErrorMessage(error));
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsInviting(true);
+
+    const email = inviteEmail.trim();
+    const sent = await runAction(
+      () =>
+        sendJson(`/api/teams/${team.id}/invites`, "POST", {
+          email,
+          role: inviteRole,
+        }),
+      "invite team member",
+    );
+    if (sent) {
+      setInviteEmail("");
+      setNotice(`Invite sent to ${email}.`);
+      mutate();
+    }
+    setIsInviting(false);
+  };
+
+  const handleRoleChange = async (userId: string, role: TeamRole) => {
+    const changed = await runAction(
+      () =>
+        sendJson(`/api/teams/${team.id}/members/${userId}`, "PATCH", { role }),
+      "change member role",
+    );
+    if (changed) {
+      mutate();
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    const isSelf = userId === session?.user?.id;
+    const removed = await runAction(
+      () => sendJson(`/api/teams/${team.id}/members/${userId}`, "DELETE"),
+      isSelf ? "leave team" : "remove team member",
+    );
+    if (removed && isSelf) {
+      onChange();
+    } else if (removed) {
+      mutate();
+    }
+  };
+
+  const handleRevokeInvite = async (inviteId: string) => {
+    const revoked = await runAction(
+      () => sendJson(`/api/teams/${team.id}/invites/${inviteId}`, "DELETE"),
+      "revoke invite",
+    );
+    if (revoked) {
+      mutate();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !confirm(
+        `Delete ${team.name}? Its chats will no longer be shared with its members.`,
+      )
+    ) {
+      return;
+    }
+
+    const deleted = await runAction(
+      () => sendJson(`/api/teams/${team.id}`, "DELETE"),
+      "delete team",
+    );
+    if (deleted) {
+      onChange();
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 dark:border-input">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="truncate font-medium text-gray-900 text-sm dark:text-white">
+            {team.name}
+          </p>
+          <p className="mt-1 text-gray-500 text-sm dark:text-gray-400">
+            {ROLE_LABELS[team.role]}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsOpen((open) => !open)}
+        >
+          {isOpen ? "Hide" : "Manage"}
+        </Button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4 border-border border-t pt-4 dark:border-input">
+          {!data && (
+            <p className="text-gray-600 text-sm dark:text-gray-300">
+              Loading members...
+            </p>
+          )}
+
+          {data && (
+            <ul className="space-y-2">
+              {data.members.map((member) => {
+                const isSelf = member.userId === session?.user?.id;
+                const canRemove =
+                  member.role !== "owner" &&
+                  (isSelf || isOwner || (isAdmin && member.role === "member"));
+
+                return (
+                  <li
+                    key={member.userId}
+                    className="flex items-center justify-between gap-4 text-sm"
+                  >
+                    <span className="min-w-0 truncate text-gray-900 dark:text-white">
+                      {member.email}
+                      {isSelf && " (you)"}
+                    </span>
+                    <div className="flex items-center gap-2">
+                      {isOwner && member.role !== "owner" ? (
+                        <select
+                          aria-label={`Role for ${member.email}`}
+                          className={selectClassName}
+                          value={member.role}
+                          onChange={(e) =>
+                            handleRoleChange(
+                              member.userId,
+                              e.target.value as TeamRole,
+                            )
+                          }
+                        >
+                          <option value="member">Member</option>
+                          <option value="admin">Admin</option>
+                        </select>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {ROLE_LABELS[member.role]}
+                        </span>
+                      )}
+                      {canRemove && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveMember(member.userId)}
+                        >
+                          {isSelf ? "Leave" : "Remove"}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {isAdmin && (
+            <form onSubmit={handleInvite} className="flex gap-2">
+              <Input
+                type="email"
+                placeholder="Email to invite"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                required
+              />
+              <select
+                aria-label="Role for the invite"
+                className={selectClassName}
+                value={inviteRole}
+                onChange={(e) => setInviteRole(e.target.value as TeamRole)}
+              >
+                <option value="member">Member</option>
+                <option value="admin">Admin</option>
+              </select>
+              <Button
+                type="submit"
+                disabled={isInviting || !inviteEmail.trim()}
+              >
+                {isInviting ? "Sending..." : "Invite"}
+              </Button>
+            </form>
+          )}
+
+          {data && data.invites.length > 0 && (
+            <div>
+              <h3 className="mb-2 font-medium text-gray-900 text-sm dark:text-white">
+                Pending invites
+              </h3>
+              <ul className="space-y-2">
+                {data.invites.map((invite) => (
+                  <li
+                    key={invite.id}
+                    className="flex items-center justify-between gap-4 text-gray-600 text-sm dark:text-gray-300"
+                  >
+                    <span className="min-w-0 truncate">
+                      {invite.email} · {ROLE_LABELS[invite.role]} · expires{" "}
+                      {new Date(invite.expiresAt).toLocaleDateString()}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRevokeInvite(invite.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Revoke invite</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {notice && (
+            <p className="text-green-600 text-sm dark:text-green-400">
+              {notice}
+            </p>
+          )}
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
+
+          {isOwner && (
+            <Button variant="destructive" size="sm" onClick={handleDelete}>
+              Delete team
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
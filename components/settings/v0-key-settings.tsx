@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import useSWR from "swr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+
+interface V0KeyResponse {
+  key: {
+    // The key's last characters
+    hint: string;
+    createdAt: string;
+    updatedAt: string;
+  } | null;
+}
+
+async function sendJson(url: string, method: string, body?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  await assertOk(response);
+  return response.json();
+}
+
+export function V0KeySettings() {
+  const { data, error, isLoading, mutate } =
+    useSWR<V0KeyResponse>("/api/v0-key");
+  const savedKey = data?.key;
+
+  const [apiKey, setApiKey] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const result: V0KeyResponse = await sendJson("/api/v0-key", "PUT", {
+        apiKey: apiKey.trim(),
+      });
+      setApiKey("");
+      mutate(result, { revalidate: false });
+    } catch (error) {
+      console.error("Error saving v0 API key:", error);
+      setActionError(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (
+      !confirm(
+        "Remove your v0 API key? Chats created with it can't be opened until you save it again.",
+      )
+    ) {
+      return;
+    }
+
+    setActionError(null);
+
+    try {
+      const result: V0KeyResponse = await sendJson("/api/v0-key", "DELETE");
+      mutate(result, { revalidate: false });
+    } catch (error) {
+      console.error("Error removing v0 API key:", error);
+      setActionError(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <section>
+      <h2 className="mb-2 font-bold text-2xl text-gray-900 dark:text-white">
+        v0 API key
+      </h2>
+      <p className="mb-6 text-gray-600 text-sm dark:text-gray-300">
+        Use your own key from{" "}
+        <a
+          href="https://v0.dev/chat/settings/keys"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="underline"
+        >
+          v0 settings
+        </a>{" "}
+        to create chats in your v0 account with your own quota, without the
+        daily message limit. Chats created with your key, and your forks of
+        them, keep using it. Without a key, the shared one is used.
+      </p>
+
+      {isLoading && (
+        <p className="mb-4 text-gray-600 text-sm dark:text-gray-300">
+          Loading key...
+        </p>
+      )}
+      {error && (
+        <p className="mb-4 text-destructive text-sm">
+          {error.message || "Failed to load your v0 API key"}
+        </p>
+      )}
+
+      {savedKey && (
+        <div className="mb-4 flex items-center justify-between gap-4 rounded-lg border border-border p-4 dark:border-input">
+          <div className="min-w-0">
+            <p className="font-mono text-gray-900 text-sm dark:text-white">
+              ••••••••{savedKey.hint}
+            </p>
+            <p className="mt-1 text-gray-500 text-sm dark:text-gray-400">
+              Saved {new Date(savedKey.updatedAt).toLocaleDateString()}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRemove}>
+            Remove
+          </Button>
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <Input
+          type="password"
+          autoComplete="off"
+          placeholder={savedKey ? "Replace with a new key" : "Your v0 API key"}
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          required
+        />
+        <Button type="submit" disabled={isSaving || !apiKey.trim()}>
+          {isSaving ? "Checking..." : "Save key"}
+        </Button>
+      </form>
+
+      {actionError && (
+        <p className="mt-4 text-destructive text-sm">{actionError}</p>
+      )}
+    </section>
+  );
+}
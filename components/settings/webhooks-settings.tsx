@@ -0,0 +1,327 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+import { useState } from "react";
+import useSWR from "swr";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+
+type WebhookEvent =
+  | "chat.created"
+  | "generation.completed"
+  | "chat.visibility_changed"
+  | "chat.forked"
+  | "chat.deleted";
+
+interface WebhookItem {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  createdAt: string;
+}
+
+interface DeliveryItem {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEvent;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "chat.created": "Chat created",
+  "generation.completed": "Generation completed",
+  "chat.visibility_changed": "Visibility changed",
+  "chat.forked": "Chat forked",
+  "chat.deleted": "Chat deleted",
+};
+
+const ALL_EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+const STATUS_STYLES: Record<DeliveryItem["status"], string> = {
+  pending: "text-amber-600 dark:text-amber-400",
+  succeeded: "text-green-600 dark:text-green-400",
+  failed: "text-red-600 dark:text-red-400",
+};
+
+export function WebhooksSettings() {
+  const {
+    data: webhooksData,
+    error: webhooksError,
+    isLoading,
+    mutate: mutateWebhooks,
+  } = useSWR<{ webhooks: WebhookItem[] }>("/api/webhooks");
+  const { data: deliveriesData, mutate: mutateDeliveries } = useSWR<{
+    deliveries: DeliveryItem[];
+  }>("/api/webhooks/deliveries");
+  const webhooks = webhooksData?.webhooks ?? [];
+  const deliveries = deliveriesData?.deliveries ?? [];
+
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(ALL_EVENTS);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Shown once, right after the webhook is created
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event)
+        ? prev.filter((selected) => selected !== event)
+        : [...prev, event],
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setActionError(null);
+
+    try {
+      const response = await fetch("/api/webhooks", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ url: url.trim(), events }),
+      });
+
+      await assertOk(response);
+
+      const result = await response.json();
+      setNewSecret(result.secret);
+      setUrl("");
+      setEvents(ALL_EVENTS);
+      mutateWebhooks();
+    } catch (error) {
+      console.error("Error creating webhook:", error);
+      setActionError(getErrorMessage(error));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (webhookId: string) => {
+    setActionError(null);
+
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}`, {
+        method: "DELETE",
+      });
+
+      await assertOk(response);
+
+      mutateWebhooks();
+      mutateDeliveries();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      setActionError(getErrorMessage(error));
+    }
+  };
+
+  return (
+    <div className="space-y-10">
+      <section>
+        <h2 className="mb-2 font-bold text-2xl text-gray-900 dark:text-white">
+          Webhooks
+        </h2>
+        <p className="mb-6 text-gray-600 text-sm dark:text-gray-300">
+          Get a signed POST request when something happens to your chats. Verify
+          the <code>X-Webhook-Signature</code> header with the secret shown when
+          the webhook is created.
+        </p>
+
+        <form
+          onSubmit={handleCreate}
+          className="space-y-4 rounded-lg border border-border p-6 dark:border-input"
+        >
+          <div>
+            <label
+              htmlFor="webhook-url"
+              className="mb-2 block font-medium text-gray-900 text-sm dark:text-white"
+            >
+              Endpoint URL
+            </label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://example.com/webhooks/v0"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+            />
+          </div>
+
+          <fieldset>
+            <legend className="mb-2 font-medium text-gray-900 text-sm dark:text-white">
+              Events
+            </legend>
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {ALL_EVENTS.map((event) => (
+                <label
+                  key={event}
+                  className="flex items-center gap-2 text-gray-700 text-sm dark:text-gray-300"
+                >
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
+
+          <Button
+            type="submit"
+            disabled={isSaving || !url.trim() || events.length === 0}
+          >
+            {isSaving ? "Adding..." : "Add webhook"}
+          </Button>
+        </form>
+
+        {newSecret && (
+          <div className="mt-4 rounded-md border border-blue-200 bg-blue-50 p-4 dark:border-blue-800 dark:bg-blue-900/20">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h3 className="font-medium text-blue-800 text-sm dark:text-blue-200">
+                  Copy the signing secret now. It won't be shown again.
+                </h3>
+                <code className="mt-2 block break-all text-blue-700 text-sm dark:text-blue-300">
+                  {newSecret}
+                </code>
+              </div>
+              <button
+                type="button"
+                onClick={() => setNewSecret(null)}
+                className="font-medium text-blue-800 text-sm hover:underline dark:text-blue-200"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="mt-6 space-y-3">
+          {isLoading && (
+            <p className="text-gray-600 text-sm dark:text-gray-300">
+              Loading webhooks...
+            </p>
+          )}
+          {webhooksError && (
+            <p className="text-destructive text-sm">
+              {webhooksError.message || "Failed to load webhooks"}
+            </p>
+          )}
+          {!(isLoading || webhooksError) && webhooks.length === 0 && (
+            <p className="text-gray-500 text-sm dark:text-gray-400">
+              No webhooks yet.
+            </p>
+          )}
+          {webhooks.map((webhook) => (
+            <div
+              key={webhook.id}
+              className="flex items-start justify-between gap-4 rounded-lg border border-border p-4 dark:border-input"
+            >
+              <div className="min-w-0">
+                <p className="truncate font-medium text-gray-900 text-sm dark:text-white">
+                  {webhook.url}
+                </p>
+                <p className="mt-1 text-gray-500 text-sm dark:text-gray-400">
+                  {webhook.events
+                    .map((event) => EVENT_LABELS[event])
+                    .join(", ")}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleDelete(webhook.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete webhook</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <div className="mb-4 flex items-center justify-between">
+          <h2 className="font-bold text-gray-900 text-xl dark:text-white">
+            Recent deliveries
+          </h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => mutateDeliveries()}
+          >
+            Refresh
+          </Button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="text-gray-500 text-sm dark:text-gray-400">
+            No deliveries yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-border dark:border-input">
+            <table className="w-full text-left text-sm">
+              <thead className="border-border border-b text-gray-500 dark:border-input dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Event</th>
+                  <th className="px-4 py-2 font-medium">Endpoint</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                  <th className="px-4 py-2 font-medium">Attempts</th>
+                  <th className="px-4 py-2 font-medium">Sent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr
+                    key={delivery.id}
+                    className="border-border border-b last:border-0 dark:border-input"
+                  >
+                    <td className="px-4 py-2 text-gray-900 dark:text-white">
+                      {EVENT_LABELS[delivery.event]}
+                    </td>
+                    <td className="max-w-xs truncate px-4 py-2 text-gray-600 dark:text-gray-300">
+                      {delivery.url}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={STATUS_STYLES[delivery.status]}
+                        title={delivery.error ?? undefined}
+                      >
+                        {delivery.status}
+                        {delivery.responseStatus !== null &&
+                          ` (${delivery.responseStatus})`}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                      {delivery.attempts}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 dark:text-gray-300">
+                      {new Date(delivery.createdAt).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
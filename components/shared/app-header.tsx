@@ -30,7 +30,7 @@ function SearchParamsHandler() {
       // Clean up URL without causing navigation
       const url = new URL(window.location.href);
       url.searchParams.delete("refresh");
-      window.history.replaceState({}, "", url.pathname);
+      window.history.replaceState({}, "", `${url.pathname}${url.search}`);
     }
   }, [searchParams, update]);
 
@@ -19,6 +19,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
 
 interface ChatMenuProps {
   chatId: string;
@@ -29,6 +30,7 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isDuplicateDialogOpen, setIsDuplicateDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
 
   const handleDuplicateChat = async () => {
     try {
@@ -41,9 +43,7 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
         body: JSON.stringify({ chatId }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to duplicate chat");
-      }
+      await assertOk(response);
 
       const result = await response.json();
 
@@ -52,7 +52,7 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
       router.push(`/chats/${result.id}`);
     } catch (error) {
       console.error("Error duplicating chat:", error);
-      // You could add a toast notification here
+      setActionError(getErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
@@ -69,16 +69,14 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
         body: JSON.stringify({ chatId }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to delete chat");
-      }
+      await assertOk(response);
 
       // Close dialog and navigate back to homepage
       setIsDeleteDialogOpen(false);
       router.push("/");
     } catch (error) {
       console.error("Error deleting chat:", error);
-      // You could add a toast notification here
+      setActionError(getErrorMessage(error));
     } finally {
       setIsLoading(false);
     }
@@ -112,14 +110,20 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
           </DropdownMenuItem>
           <DropdownMenuSeparator />
           <DropdownMenuItem
-            onClick={() => setIsDuplicateDialogOpen(true)}
+            onClick={() => {
+              setActionError(null);
+              setIsDuplicateDialogOpen(true);
+            }}
             disabled={isLoading}
           >
             <Copy className="mr-2 h-4 w-4" />
             Duplicate Chat
           </DropdownMenuItem>
           <DropdownMenuItem
-            onClick={() => setIsDeleteDialogOpen(true)}
+            onClick={() => {
+              setActionError(null);
+              setIsDeleteDialogOpen(true);
+            }}
             disabled={isLoading}
             variant="destructive"
           >
@@ -142,6 +146,9 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
               to the new chat once it's created.
             </DialogDescription>
           </DialogHeader>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -167,6 +174,9 @@ export function ChatMenu({ chatId }: ChatMenuProps) {
               undone and will permanently remove the chat and all its messages.
             </DialogDescription>
           </DialogHeader>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -15,6 +15,7 @@ import {
 import { usePathname, useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { useEffect, useState } from "react";
+import useSWR from "swr";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -39,15 +40,31 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
 
+// Chat metadata as served from the local mirror by GET /api/chats
 interface Chat {
   id: string;
   name?: string;
   privacy?: "public" | "private" | "team" | "team-edit" | "unlisted";
+  demoUrl?: string;
+  messageCount?: number;
+  // Team the chat is shared with under "team" and "team-edit" privacy
+  teamId?: string;
+  // Team members see their teammates' chats too, but only owners manage them
+  isOwner?: boolean;
   createdAt: string;
-  url?: string;
+  updatedAt?: string;
 }
 
+interface TeamItem {
+  id: string;
+  name: string;
+}
+
+const isTeamPrivacy = (privacy: string) =>
+  privacy === "team" || privacy === "team-edit";
+
 // Helper function to get display name for a chat
 const getChatDisplayName = (chat: Chat): string => {
   return chat.name || `Chat ${chat.id.slice(0, 8)}...`;
@@ -102,10 +119,18 @@ export function ChatSelector() {
   const [selectedVisibility, setSelectedVisibility] = useState<
     "public" | "private" | "team" | "team-edit" | "unlisted"
   >("private");
+  const [selectedTeamId, setSelectedTeamId] = useState("");
   const [isRenamingChat, setIsRenamingChat] = useState(false);
   const [isDeletingChat, setIsDeletingChat] = useState(false);
   const [isDuplicatingChat, setIsDuplicatingChat] = useState(false);
   const [isChangingVisibility, setIsChangingVisibility] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Teams are only needed to pick one when sharing a chat with a team
+  const { data: teamsData } = useSWR<{ teams: TeamItem[] }>(
+    isVisibilityDialogOpen ? "/api/teams" : null,
+  );
+  const teams = teamsData?.teams ?? [];
 
   // Get current chat ID if on a chat page
   const currentChatId = pathname?.startsWith("/chats/")
@@ -157,9 +182,7 @@ export function ChatSelector() {
         }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to rename chat");
-      }
+      await assertOk(response);
 
       const updatedChat = await response.json();
 
@@ -175,6 +198,7 @@ export function ChatSelector() {
       setRenameChatName("");
     } catch (error) {
       console.error("Error renaming chat:", error);
+      setActionError(getErrorMessage(error));
     } finally {
       setIsRenamingChat(false);
     }
@@ -191,9 +215,7 @@ export function ChatSelector() {
         method: "DELETE",
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to delete chat");
-      }
+      await assertOk(response);
 
       // Remove the chat from the list
       setChats((prev) => prev.filter((c) => c.id !== currentChatId));
@@ -203,6 +225,7 @@ export function ChatSelector() {
       router.push("/");
     } catch (error) {
       console.error("Error deleting chat:", error);
+      setActionError(getErrorMessage(error));
     } finally {
       setIsDeletingChat(false);
     }
@@ -223,9 +246,7 @@ export function ChatSelector() {
         body: JSON.stringify({ chatId: currentChatId }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to duplicate chat");
-      }
+      await assertOk(response);
 
       const result = await response.json();
 
@@ -234,6 +255,7 @@ export function ChatSelector() {
       router.push(`/chats/${result.id}`);
     } catch (error) {
       console.error("Error duplicating chat:", error);
+      setActionError(getErrorMessage(error));
     } finally {
       setIsDuplicatingChat(false);
     }
@@ -251,19 +273,28 @@ export function ChatSelector() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ privacy: selectedVisibility }),
+        body: JSON.stringify({
+          privacy: selectedVisibility,
+          ...(isTeamPrivacy(selectedVisibility) &&
+            selectedTeamId && { teamId: selectedTeamId }),
+        }),
       });
 
-      if (!response.ok) {
-        throw new Error("Failed to change chat visibility");
-      }
+      await assertOk(response);
 
       const updatedChat = await response.json();
 
       // Update the chat in the list
       setChats((prev) =>
         prev.map((c) =>
-          c.id === currentChatId ? { ...c, privacy: updatedChat.privacy } : c,
+          c.id === currentChatId
+            ? {
+                ...c,
+                privacy: updatedChat.privacy,
+                ...(isTeamPrivacy(selectedVisibility) &&
+                  selectedTeamId && { teamId: selectedTeamId }),
+              }
+            : c,
         ),
       );
 
@@ -271,6 +302,7 @@ export function ChatSelector() {
       setIsVisibilityDialogOpen(false);
     } catch (error) {
       console.error("Error changing chat visibility:", error);
+      setActionError(getErrorMessage(error));
     } finally {
       setIsChangingVisibility(false);
     }
@@ -354,22 +386,10 @@ export function ChatSelector() {
                 </a>
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem
-                onClick={() => setIsDuplicateDialogOpen(true)}
-                disabled={
-                  isRenamingChat ||
-                  isDeletingChat ||
-                  isDuplicatingChat ||
-                  isChangingVisibility
-                }
-              >
-                <Copy className="mr-2 h-4 w-4" />
-                Duplicate Chat
-              </DropdownMenuItem>
               <DropdownMenuItem
                 onClick={() => {
-                  setSelectedVisibility(currentChat.privacy || "private");
-                  setIsVisibilityDialogOpen(true);
+                  setActionError(null);
+                  setIsDuplicateDialogOpen(true);
                 }}
                 disabled={
                   isRenamingChat ||
@@ -378,38 +398,63 @@ export function ChatSelector() {
                   isChangingVisibility
                 }
               >
-                {getPrivacyIcon(currentChat.privacy || "private")}
-                <span className="ml-2">Change Visibility</span>
-              </DropdownMenuItem>
-              <DropdownMenuItem
-                onClick={() => {
-                  setRenameChatName(currentChat.name || "");
-                  setIsRenameDialogOpen(true);
-                }}
-                disabled={
-                  isRenamingChat ||
-                  isDeletingChat ||
-                  isDuplicatingChat ||
-                  isChangingVisibility
-                }
-              >
-                <Edit2 className="mr-2 h-4 w-4" />
-                Rename Chat
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
-              <DropdownMenuItem
-                onClick={() => setIsDeleteDialogOpen(true)}
-                disabled={
-                  isRenamingChat ||
-                  isDeletingChat ||
-                  isDuplicatingChat ||
-                  isChangingVisibility
-                }
-                className="text-destructive focus:text-destructive"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete Chat
+                <Copy className="mr-2 h-4 w-4" />
+                Duplicate Chat
               </DropdownMenuItem>
+              {currentChat.isOwner && (
+                <>
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setActionError(null);
+                      setSelectedVisibility(currentChat.privacy || "private");
+                      setSelectedTeamId(currentChat.teamId ?? "");
+                      setIsVisibilityDialogOpen(true);
+                    }}
+                    disabled={
+                      isRenamingChat ||
+                      isDeletingChat ||
+                      isDuplicatingChat ||
+                      isChangingVisibility
+                    }
+                  >
+                    {getPrivacyIcon(currentChat.privacy || "private")}
+                    <span className="ml-2">Change Visibility</span>
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setActionError(null);
+                      setRenameChatName(currentChat.name || "");
+                      setIsRenameDialogOpen(true);
+                    }}
+                    disabled={
+                      isRenamingChat ||
+                      isDeletingChat ||
+                      isDuplicatingChat ||
+                      isChangingVisibility
+                    }
+                  >
+                    <Edit2 className="mr-2 h-4 w-4" />
+                    Rename Chat
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setActionError(null);
+                      setIsDeleteDialogOpen(true);
+                    }}
+                    disabled={
+                      isRenamingChat ||
+                      isDeletingChat ||
+                      isDuplicatingChat ||
+                      isChangingVisibility
+                    }
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Chat
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         )}
@@ -437,6 +482,9 @@ export function ChatSelector() {
               disabled={isRenamingChat}
             />
           </div>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -468,6 +516,9 @@ export function ChatSelector() {
               undone and will permanently remove the chat and all its messages.
             </DialogDescription>
           </DialogHeader>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -500,6 +551,9 @@ export function ChatSelector() {
               to the new chat once it's created.
             </DialogDescription>
           </DialogHeader>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -600,7 +654,36 @@ export function ChatSelector() {
                 </SelectItem>
               </SelectContent>
             </Select>
+            {isTeamPrivacy(selectedVisibility) && (
+              <div className="mt-4">
+                {teams.length > 0 ? (
+                  <Select
+                    value={selectedTeamId}
+                    onValueChange={setSelectedTeamId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a team" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teams.map((team) => (
+                        <SelectItem key={team.id} value={team.id}>
+                          {team.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-muted-foreground text-sm">
+                    You're not in any teams yet. Create one in settings to share
+                    this chat with it.
+                  </p>
+                )}
+              </div>
+            )}
           </div>
+          {actionError && (
+            <p className="text-destructive text-sm">{actionError}</p>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -611,7 +694,10 @@ export function ChatSelector() {
             </Button>
             <Button
               onClick={handleChangeVisibility}
-              disabled={isChangingVisibility}
+              disabled={
+                isChangingVisibility ||
+                (isTeamPrivacy(selectedVisibility) && !selectedTeamId)
+              }
             >
               {isChangingVisibility ? "Changing..." : "Change Visibility"}
             </Button>
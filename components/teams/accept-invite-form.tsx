@@ -0,0 +1,38 @@
+"use client";
+
+import { useActionState } from "react";
+import { acceptInviteAction } from "@/app/invite/actions";
+import { Button } from "@/components/ui/button";
+
+interface AcceptInviteFormProps {
+  token: string;
+}
+
+export function AcceptInviteForm({ token }: AcceptInviteFormProps) {
+  const [state, formAction, isPending] = useActionState(
+    acceptInviteAction,
+    undefined,
+  );
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <input type="hidden" name="token" value={token} />
+
+      {state && (
+        <div
+          className={
+            state.type === "error"
+              ? "text-red-500 text-sm"
+              : "text-green-600 text-sm dark:text-green-400"
+          }
+        >
+          {state.message}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending ? "Joining..." : "Accept Invite"}
+      </Button>
+    </form>
+  );
+}
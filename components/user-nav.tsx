@@ -1,6 +1,6 @@
 "use client";
 
-import { LogOut, User } from "lucide-react";
+import { LogOut, Settings, Shield, User } from "lucide-react";
 import type { Session } from "next-auth";
 import { signOut } from "next-auth/react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -23,7 +23,11 @@ export function UserNav({ session }: UserNavProps) {
     session?.user?.email?.split("@")[0]?.slice(0, 2)?.toUpperCase() || "U";
 
   const isGuest = session?.user?.type === "guest";
+  const isAdmin = session?.user?.type === "admin";
   const isSignedOut = !session;
+  // Verification links are resent from settings
+  const isUnverified =
+    session?.user?.type === "regular" && !session.user.verified;
 
   return (
     <DropdownMenu>
@@ -47,6 +51,11 @@ export function UserNav({ session }: UserNavProps) {
                 {session.user.email}
               </p>
             )}
+            {isUnverified && (
+              <p className="text-amber-600 text-xs leading-none dark:text-amber-400">
+                Email not verified
+              </p>
+            )}
           </div>
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
@@ -65,6 +74,25 @@ export function UserNav({ session }: UserNavProps) {
             {!isSignedOut && <DropdownMenuSeparator />}
           </>
         )}
+        {!(isSignedOut || isGuest) && (
+          <>
+            <DropdownMenuItem asChild>
+              <a href="/settings" className="cursor-pointer">
+                <Settings className="mr-2 h-4 w-4" />
+                <span>Settings</span>
+              </a>
+            </DropdownMenuItem>
+            {isAdmin && (
+              <DropdownMenuItem asChild>
+                <a href="/admin" className="cursor-pointer">
+                  <Shield className="mr-2 h-4 w-4" />
+                  <span>Admin</span>
+                </a>
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+          </>
+        )}
         {!isSignedOut && (
           <DropdownMenuItem
             onClick={async () => {
@@ -1,11 +1,15 @@
 "use client";
 
 import { createContext, type ReactNode, useContext, useState } from "react";
+import type { ChatHistoryEntry } from "@/lib/chat-history";
 
 interface StreamingHandoff {
   chatId: string | null;
   stream: ReadableStream<Uint8Array> | null;
   userMessage: string | null;
+  // Messages preceding the user message, when the chat continues another
+  // one's conversation
+  history: ChatHistoryEntry[];
 }
 
 interface StreamingContextType {
@@ -14,6 +18,7 @@ interface StreamingContextType {
     chatId: string,
     stream: ReadableStream<Uint8Array>,
     userMessage: string,
+    history?: ChatHistoryEntry[],
   ) => void;
   clearHandoff: () => void;
 }
@@ -37,18 +42,20 @@ export function StreamingProvider({ children }: StreamingProviderProps) {
     chatId: null,
     stream: null,
     userMessage: null,
+    history: [],
   });
 
   const startHandoff = (
     chatId: string,
     stream: ReadableStream<Uint8Array>,
     userMessage: string,
+    history: ChatHistoryEntry[] = [],
   ) => {
-    setHandoff({ chatId, stream, userMessage });
+    setHandoff({ chatId, stream, userMessage, history });
   };
 
   const clearHandoff = () => {
-    setHandoff({ chatId: null, stream: null, userMessage: null });
+    setHandoff({ chatId: null, stream: null, userMessage: null, history: [] });
   };
 
   return (
@@ -1,7 +1,23 @@
+import type { MessageBinaryFormat } from "@v0-sdk/react";
 import { useRouter } from "next/navigation";
-import { useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useEffect, useRef, useState } from "react";
 import useSWR, { mutate } from "swr";
 import { useStreaming } from "@/contexts/streaming-context";
+import { assertOk, getErrorMessage } from "@/lib/api-errors";
+import {
+  buildChatHistory,
+  type ChatGeneration,
+  type ResponseAlternative,
+} from "@/lib/chat-history";
+import {
+  CHAT_ID_HEADER,
+  GENERATION_ID_HEADER,
+  isAbortError,
+  markResponseStopped,
+  stopGeneration,
+} from "@/lib/generations";
+import { generateUUID } from "@/lib/utils";
 
 interface Chat {
   id: string;
@@ -16,19 +32,37 @@ interface Chat {
 }
 
 interface ChatMessage {
+  // The v0 message ID of a prompt, once it has one
+  id?: string;
   type: "user" | "assistant";
   content: string | any;
   isStreaming?: boolean;
   stream?: ReadableStream<Uint8Array> | null;
+  stopped?: boolean;
+  // Every attempt at an assistant response, once it has been regenerated
+  alternatives?: ResponseAlternative[];
 }
 
 export function useChat(chatId: string) {
   const router = useRouter();
-  const { handoff, clearHandoff } = useStreaming();
+  const { data: session } = useSession();
+  const { handoff, startHandoff, clearHandoff } = useStreaming();
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isStreaming, setIsStreaming] = useState(false);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  // A generation still streaming when the page loaded, re-attached to
+  // through the server's buffer
+  const [resumedStream, setResumedStream] =
+    useState<ReadableStream<Uint8Array> | null>(null);
+  const resumeCheckedRef = useRef<string | null>(null);
+  // The in-flight response, so the user can stop it
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const generationIdRef = useRef<string | null>(null);
+  const streamedContentRef = useRef<MessageBinaryFormat>([]);
+  const historyLoadedRef = useRef<string | null>(null);
+  // The preview of the alternative response the user picked, if not the latest
+  const [previewDemoUrl, setPreviewDemoUrl] = useState<string | null>(null);
 
   // Use SWR to fetch chat data
   const { data: currentChat, isLoading: isLoadingChat } = useSWR<Chat>(
@@ -39,36 +73,48 @@ export function useChat(chatId: string) {
         // Redirect to home if chat not found
         router.push("/");
       },
-      onSuccess: (chat) => {
-        // Update chat history with existing messages when chat loads
-        // But skip if we have a handoff (streaming from homepage) to avoid duplicates
-        if (
-          chat.messages &&
-          chatHistory.length === 0 &&
-          !(handoff.chatId === chatId && handoff.stream)
-        ) {
-          setChatHistory(
-            chat.messages.map((msg) => ({
-              type: msg.role,
-              // Use experimental_content if available, otherwise fall back to plain content
-              content: msg.experimental_content || msg.content,
-            })),
-          );
-        }
-      },
     },
   );
 
+  const { data: generationsData, error: generationsError } = useSWR<{
+    generations: ChatGeneration[];
+  }>(chatId ? `/api/chats/${chatId}/generations` : null);
+
+  // Build the chat history once the chat and its generations have loaded.
+  // Without generations, regenerated responses show as separate messages.
+  // Skip if we have a handoff (streaming from homepage) to avoid duplicates.
+  useEffect(() => {
+    if (
+      historyLoadedRef.current === chatId ||
+      !currentChat?.messages ||
+      !(generationsData || generationsError) ||
+      (handoff.chatId === chatId && handoff.stream)
+    ) {
+      return;
+    }
+    historyLoadedRef.current = chatId;
+
+    const messages = currentChat.messages;
+    setChatHistory((prev) =>
+      prev.length > 0
+        ? prev
+        : buildChatHistory(messages, generationsData?.generations ?? []),
+    );
+  }, [chatId, currentChat, generationsData, generationsError, handoff]);
+
   // Handle streaming from context (when redirected from homepage)
   useEffect(() => {
     if (handoff.chatId === chatId && handoff.stream && handoff.userMessage) {
       console.log("Continuing streaming from context for chat:", chatId);
 
       const userMessage = handoff.userMessage; // Safe to access here due to condition check
+      const history = handoff.history;
 
-      // Add the user message to chat history
+      // Add the user message to chat history, after the conversation it
+      // continues, if any
       setChatHistory((prev) => [
         ...prev,
+        ...history,
         {
           type: "user",
           content: userMessage,
@@ -92,6 +138,96 @@ export function useChat(chatId: string) {
     }
   }, [chatId, handoff, clearHandoff]);
 
+  // Check once per chat for a generation that was still streaming when the
+  // page was reloaded or left. Chats handed off from the homepage are already
+  // streaming here.
+  useEffect(() => {
+    if (
+      !chatId ||
+      resumeCheckedRef.current === chatId ||
+      handoff.chatId === chatId
+    ) {
+      return;
+    }
+    resumeCheckedRef.current = chatId;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    fetch(`/api/chats/${chatId}/stream`, { signal: controller.signal })
+      .then((response) => {
+        if (response.status === 200 && response.body) {
+          generationIdRef.current = response.headers.get(GENERATION_ID_HEADER);
+          streamedContentRef.current = [];
+          setResumedStream(response.body);
+        }
+      })
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Error resuming generation:", error);
+        }
+      });
+  }, [chatId, handoff.chatId]);
+
+  // Once the chat has loaded, replace whatever v0 has of the unfinished
+  // response with the resumed stream. It answers the last user message.
+  useEffect(() => {
+    if (!(resumedStream && currentChat?.messages)) {
+      return;
+    }
+
+    const messages = currentChat.messages;
+    const lastUserIndex = messages.findLastIndex((msg) => msg.role === "user");
+
+    historyLoadedRef.current = chatId;
+    setChatHistory([
+      ...buildChatHistory(
+        messages.slice(0, lastUserIndex + 1),
+        generationsData?.generations ?? [],
+      ),
+      {
+        type: "assistant",
+        content: [],
+        isStreaming: true,
+        stream: resumedStream,
+      },
+    ]);
+    setIsStreaming(true);
+    setIsLoading(true);
+    setResumedStream(null);
+  }, [chatId, resumedStream, currentChat, generationsData]);
+
+  // Starts a streamed response, which the user can stop until it completes
+  const requestStream = async (body: object) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    generationIdRef.current = null;
+    streamedContentRef.current = [];
+
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ...body, streaming: true }),
+    });
+
+    await assertOk(response, { userType: session?.user?.type });
+
+    if (!response.body) {
+      throw new Error("No response body for streaming");
+    }
+
+    generationIdRef.current = response.headers.get(GENERATION_ID_HEADER);
+    setIsStreaming(true);
+    // Keep isLoading true until streaming message has content
+    return {
+      stream: response.body,
+      chatId: response.headers.get(CHAT_ID_HEADER),
+    };
+  };
+
   const handleSendMessage = async (
     e: React.FormEvent<HTMLFormElement>,
     attachments?: Array<{ url: string }>,
@@ -108,85 +244,197 @@ export function useChat(chatId: string) {
     setChatHistory((prev) => [...prev, { type: "user", content: userMessage }]);
 
     try {
-      // Use streaming mode
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: userMessage,
-          chatId: chatId,
-          streaming: true,
-          ...(attachments && attachments.length > 0 && { attachments }),
-        }),
+      const { stream } = await requestStream({
+        message: userMessage,
+        chatId: chatId,
+        ...(attachments && attachments.length > 0 && { attachments }),
       });
+      setPreviewDemoUrl(null);
 
-      if (!response.ok) {
-        // Try to get the specific error message from the response
-        let errorMessage =
-          "Sorry, there was an error processing your message. Please try again.";
-        try {
-          const errorData = await response.json();
-          if (errorData.message) {
-            errorMessage = errorData.message;
-          } else if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        } catch (parseError) {
-          console.error("Error parsing error response:", parseError);
-          if (response.status === 429) {
-            errorMessage =
-              "You have exceeded your maximum number of messages for the day. Please try again later.";
-          }
-        }
-        throw new Error(errorMessage);
+      // Add placeholder for streaming response with the stream attached
+      setChatHistory((prev) => [
+        ...prev,
+        {
+          type: "assistant",
+          content: [],
+          isStreaming: true,
+          stream,
+        },
+      ]);
+    } catch (error) {
+      // The user stopped the request, which has already been handled
+      if (isAbortError(error)) {
+        return;
       }
 
-      if (!response.body) {
-        throw new Error("No response body for streaming");
-      }
+      console.error("Error:", error);
 
-      setIsStreaming(true);
-      // Keep isLoading true until streaming message has content
+      const errorMessage = getErrorMessage(error);
 
-      // Add placeholder for streaming response with the stream attached
       setChatHistory((prev) => [
         ...prev,
+        {
+          type: "assistant",
+          content: errorMessage,
+        },
+      ]);
+      setIsLoading(false);
+    }
+  };
+
+  // Asks v0 for a new response to the last message, keeping the earlier
+  // attempts as alternatives
+  const handleRegenerate = async () => {
+    const lastMessage = chatHistory.at(-1);
+    if (
+      isLoading ||
+      isStreaming ||
+      !chatId ||
+      lastMessage?.type !== "assistant"
+    ) {
+      return;
+    }
+
+    const alternatives = lastMessage.alternatives ?? [
+      {
+        id: generateUUID(),
+        content: lastMessage.content,
+        demoUrl: currentChat?.demo,
+      },
+    ];
+    setIsLoading(true);
+
+    try {
+      const { stream } = await requestStream({ chatId, regenerate: true });
+      setPreviewDemoUrl(null);
+
+      setChatHistory((prev) => [
+        ...prev.slice(0, -1),
         {
           type: "assistant",
           content: [],
           isStreaming: true,
-          stream: response.body,
+          stream,
+          alternatives,
         },
       ]);
     } catch (error) {
-      console.error("Error:", error);
+      // The user stopped the request, which has already been handled
+      if (isAbortError(error)) {
+        return;
+      }
 
-      // Use the specific error message if available, otherwise fall back to generic message
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : "Sorry, there was an error processing your message. Please try again.";
+      console.error("Error regenerating response:", error);
 
       setChatHistory((prev) => [
         ...prev,
         {
           type: "assistant",
-          content: errorMessage,
+          content: getErrorMessage(error),
+        },
+      ]);
+      setIsLoading(false);
+    }
+  };
+
+  // Sends an edited prompt to a branch of the chat, which becomes the active
+  // chat. The original chat keeps its history and is the branch's parent.
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const editedMessage = content.trim();
+    const editIndex = chatHistory.findIndex((msg) => msg.id === messageId);
+    if (
+      !editedMessage ||
+      isLoading ||
+      isStreaming ||
+      !chatId ||
+      editIndex === -1
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { stream, chatId: branchChatId } = await requestStream({
+        message: editedMessage,
+        chatId,
+        editMessageId: messageId,
+      });
+      if (!branchChatId) {
+        throw new Error("No chat ID for the edited conversation");
+      }
+
+      // The earlier prompts' IDs belong to this chat, so the branch can't
+      // edit them until it has loaded its own
+      const history = chatHistory
+        .slice(0, editIndex)
+        .map(({ id: _id, ...entry }) => entry);
+
+      startHandoff(branchChatId, stream, editedMessage, history);
+      router.push(`/chats/${branchChatId}`);
+    } catch (error) {
+      // The user stopped the request, which has already been handled
+      if (isAbortError(error)) {
+        return;
+      }
+
+      console.error("Error editing message:", error);
+
+      setChatHistory((prev) => [
+        ...prev,
+        {
+          type: "assistant",
+          content: getErrorMessage(error),
         },
       ]);
       setIsLoading(false);
     }
   };
 
+  // Shows the preview of the alternative response the user switched to
+  const handleSelectAlternative = (alternative: ResponseAlternative) => {
+    setPreviewDemoUrl(alternative.demoUrl ?? null);
+  };
+
+  const handleStreamingChunk = (content: MessageBinaryFormat) => {
+    streamedContentRef.current = content;
+  };
+
+  // Aborts the response in the browser and on the server, keeping what had
+  // streamed so far
+  const handleStop = async () => {
+    const generationId = generationIdRef.current;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    generationIdRef.current = null;
+
+    setIsStreaming(false);
+    setIsLoading(false);
+    setChatHistory((prev) =>
+      markResponseStopped(prev, streamedContentRef.current),
+    );
+
+    if (generationId) {
+      try {
+        await stopGeneration(generationId, { userType: session?.user?.type });
+      } catch (error) {
+        console.error("Error stopping generation:", error);
+      }
+    }
+
+    mutate(`/api/chats/${chatId}`);
+  };
+
   const handleStreamingComplete = async (finalContent: string | any) => {
     setIsStreaming(false);
     setIsLoading(false);
+    abortControllerRef.current = null;
+    generationIdRef.current = null;
 
     // Convert to array if needed for processing
-    const contentArray = Array.isArray(finalContent) ? finalContent : [finalContent];
+    const contentArray = Array.isArray(finalContent)
+      ? finalContent
+      : [finalContent];
 
     console.log(
       "Stream completed with final content:",
@@ -195,13 +443,17 @@ export function useChat(chatId: string) {
 
     // Always try to fetch updated chat details after streaming completes
     // This ensures we get the latest demoUrl even for existing chats
+    let demoUrl: string | undefined;
+    let promptId: string | undefined;
     try {
       const response = await fetch(`/api/chats/${chatId}`);
       if (response.ok) {
         const chatDetails = await response.json();
 
-        const demoUrl =
-          chatDetails?.latestVersion?.demoUrl || chatDetails?.demo;
+        demoUrl = chatDetails?.latestVersion?.demoUrl || chatDetails?.demo;
+        promptId = (chatDetails as Chat).messages?.findLast(
+          (msg) => msg.role === "user",
+        )?.id;
 
         // Update SWR cache with the latest chat data
         mutate(
@@ -320,18 +572,32 @@ export function useChat(chatId: string) {
       }
     }
 
-    // Update chat history with the final content
+    // Keep the generations in step, which tie responses to their versions
+    mutate(`/api/chats/${chatId}/generations`);
+
+    // Update chat history with the final content. A regenerated response
+    // becomes the latest of its alternatives.
     setChatHistory((prev) => {
       const updated = [...prev];
       const lastIndex = updated.length - 1;
       if (lastIndex >= 0 && updated[lastIndex].isStreaming) {
+        const { alternatives } = updated[lastIndex];
         updated[lastIndex] = {
           ...updated[lastIndex],
           content: finalContent,
           isStreaming: false,
           stream: undefined,
+          alternatives: [
+            ...(alternatives ?? []),
+            { id: generateUUID(), content: finalContent, demoUrl },
+          ],
         };
       }
+      // The prompt just sent can be edited now that v0 has given it an ID
+      const promptIndex = updated.findLastIndex((msg) => msg.type === "user");
+      if (promptIndex >= 0 && !updated[promptIndex].id && promptId) {
+        updated[promptIndex] = { ...updated[promptIndex], id: promptId };
+      }
       return updated;
     });
   };
@@ -363,6 +629,12 @@ export function useChat(chatId: string) {
     isLoadingChat,
     handleSendMessage,
     handleStreamingComplete,
+    handleStreamingChunk,
+    handleStop,
+    handleRegenerate,
+    handleEditMessage,
+    handleSelectAlternative,
+    previewDemoUrl,
     handleChatData,
   };
 }
@@ -0,0 +1,74 @@
+import "server-only";
+
+import { auth, isAdminEmail, type UserType } from "@/app/(auth)/auth";
+import { getClientIPBucket } from "@/lib/client-ip";
+import { guestRegex } from "@/lib/constants";
+import { createAdminAuditLog, isBanned } from "@/lib/db/queries";
+import type { AdminAction, User } from "@/lib/db/schema";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext } from "@/lib/logger";
+
+/*
+ * The admin console at /admin is for accounts whose verified email is listed
+ * in ADMIN_EMAILS. Admins can ban users and client addresses, override a
+ * user's entitlements and delete chats on their behalf. Every change is
+ * recorded in the audit trail.
+ */
+
+// Resolves the signed-in admin, or the error to respond with
+export async function authorizeAdmin(): Promise<
+  { userId: string } | ChatSDKError
+> {
+  const session = await auth();
+  setRequestContext({ userType: session?.user?.type });
+
+  if (!session?.user?.id) {
+    return new ChatSDKError("unauthorized:admin");
+  }
+
+  if (session.user.type !== "admin") {
+    return new ChatSDKError("forbidden:admin");
+  }
+
+  return { userId: session.user.id };
+}
+
+// The type the user gets when they sign in
+export function getUserType(user: User): UserType {
+  if (guestRegex.test(user.email)) {
+    return "guest";
+  }
+
+  return user.email_verified_at && isAdminEmail(user.email)
+    ? "admin"
+    : "regular";
+}
+
+export async function recordAdminAction(
+  adminId: string,
+  action: AdminAction,
+  target: string,
+  details?: Record<string, unknown>,
+) {
+  await createAdminAuditLog({ adminId, action, target, details });
+  logger.info("Admin action", { action, target });
+}
+
+// Banned users and addresses can still read what they have access to, but
+// can't send messages, fork chats or upload attachments
+export async function checkBan(
+  userId: string | undefined,
+  headers: Headers,
+): Promise<ChatSDKError | undefined> {
+  const banned = await isBanned({
+    userId,
+    ipAddress: getClientIPBucket(headers),
+  });
+
+  if (banned) {
+    return new ChatSDKError(
+      "forbidden:auth",
+      "Your account or network has been suspended.",
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import type { UserType } from "@/app/(auth)/auth";
+import {
+  type ErrorCode,
+  type ErrorType,
+  getMessageByErrorCode,
+} from "./errors";
+
+// Decodes ChatSDKError responses from the API routes into what the UI shows:
+// a message, when to retry, and whether signing in would help
+
+const FALLBACK_MESSAGE =
+  "Sorry, there was an error processing your request. Please try again.";
+
+export interface ApiErrorDetails {
+  status: number;
+  code?: ErrorCode;
+  type?: ErrorType;
+  message: string;
+  // Seconds until the request may be retried, from Retry-After
+  retryAfter?: number;
+  // Whether signing in (or upgrading from a guest account) would help
+  suggestSignIn: boolean;
+}
+
+export class ApiError extends Error {
+  public details: ApiErrorDetails;
+
+  constructor(details: ApiErrorDetails) {
+    super(details.message);
+    this.name = "ApiError";
+    this.details = details;
+  }
+}
+
+interface ErrorBody {
+  code?: unknown;
+  message?: unknown;
+  cause?: unknown;
+}
+
+function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === "string" && /^[a-z_]+:[a-z_]+$/.test(value);
+}
+
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value : undefined;
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds} ${seconds === 1 ? "second" : "seconds"}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} ${minutes === 1 ? "minute" : "minutes"}`;
+}
+
+export async function decodeApiError(
+  response: Response,
+  options: { userType?: UserType } = {},
+): Promise<ApiErrorDetails> {
+  let body: ErrorBody = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not a JSON error body, e.g. a proxy error page
+  }
+
+  const code = isErrorCode(body.code) ? body.code : undefined;
+  const type = code?.split(":")[0] as ErrorType | undefined;
+
+  const retryAfterHeader = Number(response.headers.get("Retry-After"));
+  const retryAfter = retryAfterHeader > 0 ? retryAfterHeader : undefined;
+
+  // A cause explains why this particular request failed, so it is more
+  // useful than the generic message for the error code
+  const message =
+    nonEmptyString(body.cause) ??
+    nonEmptyString(body.message) ??
+    (code ? getMessageByErrorCode(code) : FALLBACK_MESSAGE);
+
+  // Daily limits (no Retry-After) are higher for registered users
+  const suggestSignIn =
+    type === "unauthorized" ||
+    (type === "rate_limit" &&
+      retryAfter === undefined &&
+      options.userType !== "regular" &&
+      options.userType !== "admin");
+
+  return {
+    status: response.status,
+    code,
+    type,
+    message,
+    retryAfter,
+    suggestSignIn,
+  };
+}
+
+// Throws an ApiError for unsuccessful responses
+export async function assertOk(
+  response: Response,
+  options?: { userType?: UserType },
+): Promise<void> {
+  if (!response.ok) {
+    throw new ApiError(await decodeApiError(response, options));
+  }
+}
+
+// The full text to show for an error, with retry and sign-in hints
+export function getErrorMessage(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return FALLBACK_MESSAGE;
+  }
+
+  const { message, retryAfter, suggestSignIn } = error.details;
+  const hints = [
+    retryAfter !== undefined &&
+      `Please try again in ${formatRetryAfter(retryAfter)}.`,
+    suggestSignIn && "Sign in or create an account to keep going.",
+  ].filter(Boolean);
+
+  return [message, ...hints].join(" ");
+}
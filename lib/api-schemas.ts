@@ -0,0 +1,353 @@
+import { isIP } from "node:net";
+import { z } from "zod";
+import { isPublicIP, normalizeIP, toIPBucket } from "./client-ip";
+import { isDevelopmentEnvironment } from "./constants";
+import {
+  chatPrivacyValues,
+  oauthProviderValues,
+  webhookEventValues,
+} from "./db/schema";
+import { ChatSDKError } from "./errors";
+
+// Request body, params and query schemas for the API routes. Invalid input
+// is rejected with a bad_request:api error listing the failing fields.
+
+export const MAX_PROMPT_LENGTH = 20_000;
+export const MAX_ATTACHMENTS = 10;
+export const MAX_CHAT_NAME_LENGTH = 255;
+export const MAX_CHATS_PAGE_SIZE = 100;
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const MAX_TEAM_NAME_LENGTH = 64;
+
+// Attachments are uploaded first and referenced by URL, so inline data URLs
+// are rejected. Webhooks are delivered over HTTPS too. Plain http is allowed
+// during local development.
+const ALLOWED_URL_SCHEMES = isDevelopmentEnvironment
+  ? ["https", "http"]
+  : ["https"];
+
+function hasAllowedScheme(value: string): boolean {
+  try {
+    const scheme = new URL(value).protocol.slice(0, -1);
+    return ALLOWED_URL_SCHEMES.includes(scheme);
+  } catch {
+    return false;
+  }
+}
+
+// Webhooks mustn't point back at this server or its private network. Host
+// names are resolved and checked again when each delivery is sent.
+const PRIVATE_HOSTNAME_PATTERN = /^(localhost|.*\.localhost|.*\.internal)$/;
+
+function isPublicHost(value: string): boolean {
+  try {
+    const { hostname } = new URL(value);
+    if (normalizeIP(hostname)) {
+      return isPublicIP(hostname);
+    }
+    return !PRIVATE_HOSTNAME_PATTERN.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+export const chatIdSchema = z
+  .string({ error: "Chat ID is required" })
+  .regex(/^[\w-]{1,64}$/, "Invalid chat ID");
+
+const attachmentSchema = z.object({
+  url: z
+    .string({ error: "Attachment URL is required" })
+    .refine(
+      hasAllowedScheme,
+      `Attachment URLs must use ${ALLOWED_URL_SCHEMES.join(" or ")}`,
+    ),
+});
+
+const messageSchema = z
+  .string({ error: "Message is required" })
+  .refine((message) => message.trim().length > 0, "Message is required")
+  .refine(
+    (message) => message.length <= MAX_PROMPT_LENGTH,
+    `Message must be at most ${MAX_PROMPT_LENGTH} characters`,
+  );
+
+// POST /api/chat. Regenerating asks v0 for a new response to the chat's last
+// message, so it takes no message of its own. Editing an earlier prompt
+// sends the message to a branch of the chat.
+export const sendMessageSchema = z
+  .discriminatedUnion("regenerate", [
+    z.object({
+      regenerate: z.literal(false).optional(),
+      message: messageSchema,
+      chatId: chatIdSchema.optional(),
+      editMessageId: z
+        .string()
+        .regex(/^[\w-]{1,64}$/, "Invalid message ID")
+        .optional(),
+      streaming: z.boolean().optional(),
+      attachments: z
+        .array(attachmentSchema)
+        .max(
+          MAX_ATTACHMENTS,
+          `At most ${MAX_ATTACHMENTS} attachments are allowed`,
+        )
+        .optional(),
+    }),
+    z.object({
+      regenerate: z.literal(true),
+      chatId: chatIdSchema,
+      streaming: z.boolean().optional(),
+    }),
+  ])
+  .refine((body) => body.regenerate || !body.editMessageId || body.chatId, {
+    error: "Chat ID is required to edit a message",
+    path: ["chatId"],
+  });
+
+// POST /api/chat/fork and /api/chat/delete
+export const chatIdBodySchema = z.object({
+  chatId: chatIdSchema,
+});
+
+// POST /api/chat/stop
+export const generationIdBodySchema = z.object({
+  generationId: z.uuid({ error: "Invalid generation ID" }),
+});
+
+// POST /api/webhooks
+export const createWebhookSchema = z.object({
+  url: z
+    .string({ error: "Webhook URL is required" })
+    .max(
+      MAX_WEBHOOK_URL_LENGTH,
+      `Webhook URLs must be at most ${MAX_WEBHOOK_URL_LENGTH} characters`,
+    )
+    .refine(
+      hasAllowedScheme,
+      `Webhook URLs must use ${ALLOWED_URL_SCHEMES.join(" or ")}`,
+    )
+    .refine(
+      (url) => isDevelopmentEnvironment || isPublicHost(url),
+      "Webhook URLs must point at a public host",
+    ),
+  events: z
+    .array(z.enum(webhookEventValues))
+    .min(1, "Choose at least one event")
+    .transform((events) => [...new Set(events)]),
+});
+
+// Route params for /api/webhooks/[webhookId]
+export const webhookParamsSchema = z.object({
+  webhookId: z.uuid({ error: "Invalid webhook ID" }),
+});
+
+// Route params for /api/accounts/[provider]
+export const accountParamsSchema = z.object({
+  provider: z.enum(oauthProviderValues, { error: "Unknown provider" }),
+});
+
+const teamNameSchema = z
+  .string({ error: "Team name is required" })
+  .trim()
+  .min(1, `Name must be between 1 and ${MAX_TEAM_NAME_LENGTH} characters`)
+  .max(
+    MAX_TEAM_NAME_LENGTH,
+    `Name must be between 1 and ${MAX_TEAM_NAME_LENGTH} characters`,
+  );
+
+// Owners are set when a team is created, so they can't be invited or
+// assigned
+const assignableTeamRoleSchema = z.enum(["admin", "member"], {
+  error: "Role must be admin or member",
+});
+
+// POST /api/teams and PATCH /api/teams/[teamId]
+export const teamNameBodySchema = z.object({
+  name: teamNameSchema,
+});
+
+// Route params for /api/teams/[teamId] and its subroutes
+export const teamParamsSchema = z.object({
+  teamId: z.uuid({ error: "Invalid team ID" }),
+});
+
+// POST /api/teams/[teamId]/invites
+export const createTeamInviteSchema = z.object({
+  email: z
+    .email({ error: "Enter a valid email address" })
+    .max(64, "Email must be at most 64 characters")
+    .transform((email) => email.toLowerCase()),
+  role: assignableTeamRoleSchema.default("member"),
+});
+
+// Route params for /api/teams/[teamId]/invites/[inviteId]
+export const teamInviteParamsSchema = teamParamsSchema.extend({
+  inviteId: z.uuid({ error: "Invalid invite ID" }),
+});
+
+// Route params for /api/teams/[teamId]/members/[userId]
+export const teamMemberParamsSchema = teamParamsSchema.extend({
+  userId: z.uuid({ error: "Invalid user ID" }),
+});
+
+// PATCH /api/teams/[teamId]/members/[userId]
+export const updateTeamMemberSchema = z.object({
+  role: assignableTeamRoleSchema,
+});
+
+// Route params for /api/chats/[chatId] and its subroutes
+export const chatParamsSchema = z.object({
+  chatId: chatIdSchema,
+});
+
+// GET /api/chats
+export const listChatsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_CHATS_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// PATCH /api/chats/[chatId]
+export const updateChatSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, `Name must be between 1 and ${MAX_CHAT_NAME_LENGTH} characters`)
+      .max(
+        MAX_CHAT_NAME_LENGTH,
+        `Name must be between 1 and ${MAX_CHAT_NAME_LENGTH} characters`,
+      )
+      .optional(),
+    privacy: z.enum(chatPrivacyValues).optional(),
+    // The team to share with when privacy is "team" or "team-edit"
+    teamId: z.uuid({ error: "Invalid team ID" }).optional(),
+  })
+  .refine((body) => body.name !== undefined || body.privacy !== undefined, {
+    error: "Provide a name or privacy setting to update",
+  });
+
+// PATCH /api/chats/[chatId]/visibility
+export const updateVisibilitySchema = z.object({
+  privacy: z.enum(chatPrivacyValues),
+  teamId: z.uuid({ error: "Invalid team ID" }).optional(),
+});
+
+// PUT /api/v0-key
+export const saveV0ApiKeySchema = z.object({
+  apiKey: z
+    .string({ error: "API key is required" })
+    .trim()
+    .min(16, "That doesn't look like a v0 API key")
+    .max(256, "That doesn't look like a v0 API key"),
+});
+
+// GET /api/admin/users
+export const adminUsersQuerySchema = z.object({
+  search: z.string().trim().max(64).optional(),
+  sort: z.enum(["recent", "usage"]).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_CHATS_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// GET /api/admin/audit
+export const adminAuditQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(MAX_CHATS_PAGE_SIZE).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+// Route params for /api/admin/users/[userId] and its subroutes
+export const adminUserParamsSchema = z.object({
+  userId: z.uuid({ error: "Invalid user ID" }),
+});
+
+// Route params for /api/admin/bans/[banId]
+export const banParamsSchema = z.object({
+  banId: z.uuid({ error: "Invalid ban ID" }),
+});
+
+const banReasonSchema = z
+  .string()
+  .trim()
+  .max(500, "Reason must be at most 500 characters")
+  .optional();
+
+// POST /api/admin/bans. Addresses are stored the way clients are matched:
+// IPv4 addresses as they are, and IPv6 addresses or /64 prefixes as their
+// /64 prefix.
+export const createBanSchema = z.union([
+  z.object({
+    userId: z.uuid({ error: "Invalid user ID" }),
+    reason: banReasonSchema,
+  }),
+  z.object({
+    ipAddress: z
+      .string({ error: "Enter a user ID or an IP address" })
+      .trim()
+      .max(64)
+      .transform((value, ctx) => {
+        // An address, or an IPv6 address with a /64 prefix length
+        const [address, prefix, ...rest] = value.split("/");
+        const ip = normalizeIP(address);
+        const isValidPrefix =
+          prefix === undefined || (prefix === "64" && isIP(ip ?? "") === 6);
+        if (!(ip && isValidPrefix) || rest.length > 0) {
+          ctx.addIssue({ code: "custom", message: "Invalid IP address" });
+          return z.NEVER;
+        }
+        return toIPBucket(ip);
+      }),
+    reason: banReasonSchema,
+  }),
+]);
+
+const entitlementLimitSchema = (max: number) =>
+  z.number().int().min(0).max(max).nullable().default(null);
+
+// PUT /api/admin/users/[userId]/entitlements. Null keeps the default for
+// the user's type.
+export const updateEntitlementsSchema = z.object({
+  maxMessagesPerDay: entitlementLimitSchema(100_000),
+  // In bytes
+  maxAttachmentSize: entitlementLimitSchema(100 * 1024 * 1024),
+  maxWebhooks: entitlementLimitSchema(100),
+  maxTeams: entitlementLimitSchema(100),
+});
+
+function toValidationError(error: z.ZodError): ChatSDKError {
+  const fields = error.issues.map((issue) => {
+    const path = issue.path.join(".");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+
+  return new ChatSDKError(
+    "bad_request:api",
+    `Invalid request. ${fields.join("; ")}`,
+  );
+}
+
+// Validates params, query values or an already parsed body
+export function parseInput<T extends z.ZodType>(
+  schema: T,
+  input: unknown,
+): z.output<T> | ChatSDKError {
+  const result = schema.safeParse(input);
+  return result.success ? result.data : toValidationError(result.error);
+}
+
+export async function parseRequestBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<z.output<T> | ChatSDKError> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return new ChatSDKError(
+      "bad_request:api",
+      "Invalid request. The body must be valid JSON",
+    );
+  }
+
+  return parseInput(schema, body);
+}
@@ -0,0 +1,161 @@
+import "server-only";
+
+import { inflateRawSync } from "node:zlib";
+import { getAttachmentKind, resolveContentType } from "./file-types";
+
+// Extracts the text v0 should see for attachments it can't read as files:
+// the contents of text files, and the file listing plus text files of zip
+// archives. Output is capped so a large upload can't swamp the prompt.
+
+const MAX_EXTRACTED_LENGTH = 100_000;
+const MAX_ARCHIVE_FILE_SIZE = 200 * 1024;
+const MAX_ARCHIVE_ENTRIES = 1000;
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ArchiveEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength
+    ? `${text.slice(0, maxLength)}\n[truncated]`
+    : text;
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${Math.ceil(bytes / 1024)} KB`;
+}
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  // The record is at least 22 bytes, followed by a comment of up to 64 KB
+  const earliest = Math.max(0, buffer.length - 22 - 0xffff);
+  for (let offset = buffer.length - 22; offset >= earliest; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+function readArchiveEntries(buffer: Buffer): ArchiveEntry[] {
+  const eocd = findEndOfCentralDirectory(buffer);
+  if (eocd === -1) {
+    throw new Error("Not a zip archive");
+  }
+
+  const count = Math.min(buffer.readUInt16LE(eocd + 10), MAX_ARCHIVE_ENTRIES);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries: ArchiveEntry[] = [];
+
+  for (let i = 0; i < count && offset + 46 <= buffer.length; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      break;
+    }
+
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function readArchiveFile(buffer: Buffer, entry: ArchiveEntry): Buffer | null {
+  const header = entry.localHeaderOffset;
+  if (
+    header + 30 > buffer.length ||
+    buffer.readUInt32LE(header) !== LOCAL_HEADER_SIGNATURE
+  ) {
+    return null;
+  }
+
+  const start =
+    header +
+    30 +
+    buffer.readUInt16LE(header + 26) +
+    buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method === 8) {
+    // Bound the output, since the sizes in the archive can't be trusted
+    return inflateRawSync(data, { maxOutputLength: MAX_ARCHIVE_FILE_SIZE });
+  }
+  return null;
+}
+
+function isTextFile(name: string): boolean {
+  return getAttachmentKind(resolveContentType(name, "")) === "text";
+}
+
+function extractArchive(data: Uint8Array): string {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const entries = readArchiveEntries(buffer).filter(
+    (entry) =>
+      !(entry.name.endsWith("/") || entry.name.startsWith("__MACOSX/")),
+  );
+
+  const listing = entries
+    .map((entry) => `- ${entry.name} (${formatSize(entry.size)})`)
+    .join("\n");
+  const fileCount = `${entries.length} ${entries.length === 1 ? "file" : "files"}`;
+  const sections = [`Archive contents (${fileCount}):\n${listing}`];
+  let length = sections[0].length;
+
+  for (const entry of entries) {
+    // Later files would be truncated away anyway
+    if (length > MAX_EXTRACTED_LENGTH) {
+      break;
+    }
+    if (!isTextFile(entry.name) || entry.size > MAX_ARCHIVE_FILE_SIZE) {
+      continue;
+    }
+
+    try {
+      const contents = readArchiveFile(buffer, entry);
+      if (contents) {
+        const section = `--- ${entry.name} ---\n${contents.toString("utf8")}`;
+        sections.push(section);
+        length += section.length;
+      }
+    } catch {
+      // Skip entries that fail to decompress and keep the rest
+    }
+  }
+
+  return sections.join("\n\n");
+}
+
+// Returns null for attachments that are passed to v0 as files
+export function extractAttachmentText(
+  contentType: string,
+  data: Uint8Array,
+): string | null {
+  switch (getAttachmentKind(contentType)) {
+    case "text":
+      return truncate(new TextDecoder().decode(data), MAX_EXTRACTED_LENGTH);
+    case "archive":
+      return truncate(extractArchive(data), MAX_EXTRACTED_LENGTH);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,163 @@
+// The attachment types we accept. Images and PDFs are passed to v0 as
+// files, while the contents of text files and archives are extracted and
+// added to the prompt.
+
+export type AttachmentKind = "image" | "pdf" | "text" | "archive";
+
+interface AttachmentFileType {
+  kind: AttachmentKind;
+  extensions: string[];
+  // Magic numbers the file must start with. Null entries match any byte.
+  // Text files have none and are checked for valid UTF-8 instead.
+  signatures?: (number | null)[][];
+}
+
+const attachmentFileTypes: Record<string, AttachmentFileType> = {
+  "image/png": {
+    kind: "image",
+    extensions: ["png"],
+    signatures: [[0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]],
+  },
+  "image/jpeg": {
+    kind: "image",
+    extensions: ["jpg", "jpeg"],
+    signatures: [[0xff, 0xd8, 0xff]],
+  },
+  "image/gif": {
+    kind: "image",
+    extensions: ["gif"],
+    signatures: [
+      [0x47, 0x49, 0x46, 0x38, 0x37, 0x61],
+      [0x47, 0x49, 0x46, 0x38, 0x39, 0x61],
+    ],
+  },
+  "image/webp": {
+    kind: "image",
+    extensions: ["webp"],
+    signatures: [
+      [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50],
+    ],
+  },
+  "application/pdf": {
+    kind: "pdf",
+    extensions: ["pdf"],
+    signatures: [[0x25, 0x50, 0x44, 0x46, 0x2d]],
+  },
+  "application/zip": {
+    kind: "archive",
+    extensions: ["zip"],
+    signatures: [
+      [0x50, 0x4b, 0x03, 0x04],
+      [0x50, 0x4b, 0x05, 0x06],
+    ],
+  },
+  "text/csv": { kind: "text", extensions: ["csv"] },
+  "text/markdown": { kind: "text", extensions: ["md", "mdx"] },
+  "application/json": { kind: "text", extensions: ["json"] },
+  // Source files are stored as plain text, whatever the browser reports
+  // for them (e.g. video/mp2t for .ts)
+  "text/plain": {
+    kind: "text",
+    extensions: [
+      "txt",
+      "log",
+      "ts",
+      "tsx",
+      "js",
+      "jsx",
+      "mjs",
+      "cjs",
+      "css",
+      "scss",
+      "html",
+      "vue",
+      "svelte",
+      "astro",
+      "py",
+      "yaml",
+      "yml",
+      "toml",
+      "sql",
+      "graphql",
+      "prisma",
+      "sh",
+    ],
+  },
+};
+
+// Browser-reported types that mean the same as one of ours
+const contentTypeAliases: Record<string, string> = {
+  "application/x-zip-compressed": "application/zip",
+  "image/jpg": "image/jpeg",
+};
+
+function getExtension(fileName: string): string {
+  const name = fileName.toLowerCase();
+  const dot = name.lastIndexOf(".");
+  return dot === -1 ? "" : name.slice(dot + 1);
+}
+
+// Picks the content type for an uploaded file from its extension, falling
+// back to the type the browser reported
+export function resolveContentType(
+  fileName: string,
+  declaredType: string,
+): string {
+  const extension = getExtension(fileName);
+  const byExtension = Object.entries(attachmentFileTypes).find(([, type]) =>
+    type.extensions.includes(extension),
+  );
+  if (byExtension) {
+    return byExtension[0];
+  }
+  return contentTypeAliases[declaredType] ?? declaredType;
+}
+
+export function getAttachmentKind(contentType: string): AttachmentKind | null {
+  return attachmentFileTypes[contentType]?.kind ?? null;
+}
+
+// Value for the accept attribute of file inputs
+export const attachmentAccept = Object.entries(attachmentFileTypes)
+  .flatMap(([contentType, { extensions }]) => [
+    contentType,
+    ...extensions.map((extension) => `.${extension}`),
+  ])
+  .join(",");
+
+export function isSupportedAttachment(file: File): boolean {
+  return getAttachmentKind(resolveContentType(file.name, file.type)) !== null;
+}
+
+function isUtf8Text(data: Uint8Array): boolean {
+  if (data.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Checks that a file's bytes match its content type, so a file can't be
+// uploaded under a type it isn't
+export function matchesFileSignature(
+  contentType: string,
+  data: Uint8Array,
+): boolean {
+  const fileType = attachmentFileTypes[contentType];
+  if (!fileType) {
+    return false;
+  }
+  if (!fileType.signatures) {
+    return isUtf8Text(data);
+  }
+
+  return fileType.signatures.some(
+    (signature) =>
+      data.length >= signature.length &&
+      signature.every((byte, i) => byte === null || data[i] === byte),
+  );
+}
@@ -0,0 +1,86 @@
+import "server-only";
+
+import { ChatSDKError } from "@/lib/errors";
+import {
+  getAttachmentIdFromUrl,
+  getAttachmentMetadata,
+  verifyAttachmentSignature,
+} from "./storage";
+
+// Extracted text is shared out in attachment order, so the prompt sent to v0
+// stays bounded however many text files and archives are attached
+const MAX_ATTACHED_TEXT_LENGTH = 100_000;
+
+export interface V0MessageInput {
+  message: string;
+  attachments: { url: string }[];
+}
+
+function formatAttachmentSection(
+  name: string,
+  contentType: string,
+  text: string,
+): string {
+  return `<attachment name=${JSON.stringify(name)} type="${contentType}">\n${text}\n</attachment>`;
+}
+
+// Prepares a message and its attachments for v0. Images and PDFs are passed
+// on as URLs, while text files and archives are replaced by their extracted
+// contents, appended to the message.
+export async function prepareV0MessageInput(
+  message: string,
+  attachments: { url: string }[] = [],
+): Promise<V0MessageInput | ChatSDKError> {
+  const files: { url: string }[] = [];
+  const sections: string[] = [];
+  let remainingTextLength = MAX_ATTACHED_TEXT_LENGTH;
+
+  for (const attachment of attachments) {
+    const id = getAttachmentIdFromUrl(attachment.url);
+    if (!id) {
+      files.push(attachment);
+      continue;
+    }
+
+    const { searchParams } = new URL(attachment.url);
+    const isValid =
+      verifyAttachmentSignature(
+        id,
+        searchParams.get("expires"),
+        searchParams.get("signature"),
+      ) !== null;
+    const metadata = isValid ? await getAttachmentMetadata(id) : null;
+
+    if (!metadata) {
+      return new ChatSDKError(
+        "bad_request:attachment",
+        "An attachment has expired. Please attach the file again.",
+      );
+    }
+
+    if (metadata.extractedText === undefined) {
+      files.push(attachment);
+      continue;
+    }
+
+    const text = metadata.extractedText.slice(0, remainingTextLength);
+    remainingTextLength -= text.length;
+    sections.push(
+      formatAttachmentSection(
+        metadata.name,
+        metadata.contentType,
+        text.length < metadata.extractedText.length
+          ? `${text}\n[truncated]`
+          : text,
+      ),
+    );
+  }
+
+  return {
+    message:
+      sections.length > 0
+        ? `${message}\n\nAttached files:\n\n${sections.join("\n\n")}`
+        : message,
+    attachments: files,
+  };
+}
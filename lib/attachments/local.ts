@@ -0,0 +1,66 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type {
+  AttachmentMetadata,
+  AttachmentStorage,
+  StoredAttachment,
+} from "./storage";
+
+// Stores each attachment as a data file next to a JSON file holding its
+// metadata. Suited to single-instance deployments and local development.
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+export function createLocalStorage(directory: string): AttachmentStorage {
+  const root = path.resolve(directory);
+
+  // Keys are generated server-side, but never let one escape the directory
+  function filePath(key: string) {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return path.join(root, key);
+  }
+
+  async function readMetadata(key: string): Promise<AttachmentMetadata> {
+    return JSON.parse(await readFile(`${filePath(key)}.json`, "utf8"));
+  }
+
+  return {
+    async put(key, { data, metadata }) {
+      await mkdir(root, { recursive: true });
+      await writeFile(filePath(key), data);
+      await writeFile(
+        `${filePath(key)}.json`,
+        JSON.stringify({ ...metadata, createdAt: new Date().toISOString() }),
+      );
+    },
+
+    async get(key): Promise<StoredAttachment | null> {
+      try {
+        const metadata = await readMetadata(key);
+        const data = await readFile(filePath(key));
+
+        return { data: new Uint8Array(data), metadata };
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getMetadata(key) {
+      try {
+        return await readMetadata(key);
+      } catch (error) {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+}
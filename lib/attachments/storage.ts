@@ -0,0 +1,130 @@
+import "server-only";
+
+import { createHmac, randomUUID, timingSafeEqual } from "node:crypto";
+import { createLocalStorage } from "./local";
+
+/*
+ * Uploaded attachments are kept in a storage backend and handed to v0 as
+ * signed URLs that expire, so the files are only readable by whoever holds
+ * a fresh link. Configure with:
+ *
+ * - ATTACHMENT_STORAGE_DIR: directory for the local disk backend
+ *   (default .data/attachments)
+ * - ATTACHMENT_BASE_URL: public origin attachment URLs point at, which v0
+ *   must be able to reach (default: the origin of the upload request)
+ */
+
+const DEFAULT_STORAGE_DIR = ".data/attachments";
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60; // 1 hour
+const ATTACHMENT_PATH_PATTERN = /^\/api\/attachments\/([0-9a-f-]{36})$/;
+
+export interface AttachmentMetadata {
+  name: string;
+  contentType: string;
+  // Text added to the prompt in place of the file, for types v0 can't read
+  extractedText?: string;
+}
+
+export interface StoredAttachment {
+  data: Uint8Array<ArrayBuffer>;
+  metadata: AttachmentMetadata;
+}
+
+// Other backends (e.g. object storage) implement this interface and are
+// selected in createStorage
+export interface AttachmentStorage {
+  put(key: string, attachment: StoredAttachment): Promise<void>;
+  get(key: string): Promise<StoredAttachment | null>;
+  getMetadata(key: string): Promise<AttachmentMetadata | null>;
+}
+
+export interface SignedAttachmentUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+function createStorage(): AttachmentStorage {
+  return createLocalStorage(
+    process.env.ATTACHMENT_STORAGE_DIR ?? DEFAULT_STORAGE_DIR,
+  );
+}
+
+const storage = createStorage();
+
+function sign(value: string): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required to sign attachment URLs");
+  }
+  return createHmac("sha256", secret)
+    .update(`attachment:${value}`)
+    .digest("base64url");
+}
+
+export async function saveAttachment(
+  attachment: StoredAttachment,
+): Promise<string> {
+  const id = randomUUID();
+  await storage.put(id, attachment);
+  return id;
+}
+
+export function getAttachment(id: string): Promise<StoredAttachment | null> {
+  return storage.get(id);
+}
+
+export function getAttachmentMetadata(
+  id: string,
+): Promise<AttachmentMetadata | null> {
+  return storage.getMetadata(id);
+}
+
+export function getSignedAttachmentUrl(
+  id: string,
+  requestOrigin: string,
+): SignedAttachmentUrl {
+  const expires = Math.floor(Date.now() / 1000) + ATTACHMENT_URL_TTL_SECONDS;
+  const url = new URL(
+    `/api/attachments/${id}`,
+    process.env.ATTACHMENT_BASE_URL ?? requestOrigin,
+  );
+  url.searchParams.set("expires", String(expires));
+  url.searchParams.set("signature", sign(`${id}:${expires}`));
+
+  return { url: url.toString(), expiresAt: new Date(expires * 1000) };
+}
+
+// Returns the ID of the attachment a URL from getSignedAttachmentUrl points
+// at, or null for any other URL. The signature is not checked.
+export function getAttachmentIdFromUrl(value: string): string | null {
+  try {
+    return new URL(value).pathname.match(ATTACHMENT_PATH_PATTERN)?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export function isAttachmentId(value: string): boolean {
+  return ATTACHMENT_PATH_PATTERN.test(`/api/attachments/${value}`);
+}
+
+// Returns the seconds the URL remains valid for, or null when its signature
+// is invalid or it has expired
+export function verifyAttachmentSignature(
+  id: string,
+  expires: string | null,
+  signature: string | null,
+): number | null {
+  if (!(expires && signature)) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`${id}:${expires}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const remaining = Number(expires) - Math.floor(Date.now() / 1000);
+  return remaining > 0 ? remaining : null;
+}
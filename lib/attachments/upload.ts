@@ -0,0 +1,51 @@
+import { ApiError, decodeApiError } from "@/lib/api-errors";
+
+export interface UploadedAttachment {
+  id: string;
+  url: string;
+  name: string;
+  contentType: string;
+  size: number;
+  expiresAt: string;
+}
+
+// Uploads a file to the attachment endpoint. Uses XMLHttpRequest because
+// fetch can't report upload progress.
+export function uploadAttachment(
+  file: File,
+  { onProgress }: { onProgress?: (percent: number) => void } = {},
+): Promise<UploadedAttachment> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", "/api/attachments");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = async () => {
+      const retryAfter = xhr.getResponseHeader("Retry-After");
+      const response = new Response(xhr.responseText, {
+        status: xhr.status,
+        headers: retryAfter ? { "Retry-After": retryAfter } : {},
+      });
+
+      try {
+        if (!response.ok) {
+          throw new ApiError(await decodeApiError(response));
+        }
+        resolve(await response.json());
+      } catch (error) {
+        reject(error);
+      }
+    };
+
+    xhr.onerror = () => reject(new Error("Attachment upload failed"));
+
+    const body = new FormData();
+    body.append("file", file);
+    xhr.send(body);
+  });
+}
@@ -0,0 +1,107 @@
+import "server-only";
+
+import { createHash, randomBytes } from "node:crypto";
+import { headers } from "next/headers";
+import { isDevelopmentEnvironment } from "./constants";
+import { createAuthToken, redeemAuthToken } from "./db/queries";
+import type { AuthTokenType, User } from "./db/schema";
+import { sendMail } from "./mail/mailer";
+
+/*
+ * Email verification and password reset links carry a random token. Only
+ * its SHA-256 hash is stored, so the links can't be rebuilt from the
+ * database. Each token works once, and a newer link replaces older ones.
+ * Links point at APP_URL, or in development at the host of the request.
+ */
+
+const TOKEN_TTL_SECONDS: Record<AuthTokenType, number> = {
+  email_verification: 60 * 60 * 24, // 24 hours
+  password_reset: 60 * 60, // 1 hour
+};
+
+// A new random token and the hash to store for it
+export function generateToken() {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// The Host header is chosen by whoever sends the request, so outside
+// development links only ever point at the configured URL
+async function getAppUrl() {
+  const appUrl = process.env.APP_URL ?? process.env.AUTH_URL;
+  if (appUrl) {
+    return appUrl;
+  }
+  if (!isDevelopmentEnvironment) {
+    throw new Error("APP_URL is required to send email links");
+  }
+
+  const host = (await headers()).get("host");
+  return `http://${host}`;
+}
+
+// The absolute URL of an app page that takes the token as a search param
+export async function buildTokenLink(pathname: string, token: string) {
+  const url = new URL(pathname, await getAppUrl());
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+async function createLink(
+  userId: string,
+  type: AuthTokenType,
+  pathname: string,
+) {
+  const { token, tokenHash } = generateToken();
+  await createAuthToken({
+    userId,
+    type,
+    tokenHash,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS[type] * 1000),
+  });
+
+  return await buildTokenLink(pathname, token);
+}
+
+// Returns the ID of the user the token was issued to, or undefined when it
+// is invalid, expired or already used
+export async function consumeAuthToken(token: string, type: AuthTokenType) {
+  const redeemed = await redeemAuthToken({ tokenHash: hashToken(token), type });
+  return redeemed?.user_id;
+}
+
+export async function sendVerificationEmail(user: Pick<User, "id" | "email">) {
+  const link = await createLink(user.id, "email_verification", "/verify-email");
+
+  await sendMail({
+    to: user.email,
+    subject: "Verify your email",
+    text: [
+      "Confirm your email address to finish setting up your account:",
+      "",
+      link,
+      "",
+      "The link expires in 24 hours. If you didn't create an account, you can ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function sendPasswordResetEmail(user: Pick<User, "id" | "email">) {
+  const link = await createLink(user.id, "password_reset", "/reset-password");
+
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      "Someone asked to reset the password for your account. Choose a new password here:",
+      "",
+      link,
+      "",
+      "The link expires in 1 hour. If you didn't ask for this, you can ignore this email.",
+    ].join("\n"),
+  });
+}
@@ -0,0 +1,109 @@
+import "server-only";
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { isDevelopmentEnvironment } from "./constants";
+
+/*
+ * Capabilities prove that an anonymous visitor created a chat. They are
+ * stored as a single signed, HTTP-only cookie listing the chat IDs the
+ * browser may read, message and fork, so chat IDs alone are no longer
+ * enough to access a chat.
+ */
+
+const CAPABILITY_COOKIE = "chat_capabilities";
+const CAPABILITY_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+const MAX_CAPABILITIES = 50;
+
+interface CapabilityPayload {
+  chats: string[];
+  exp: number;
+}
+
+function sign(value: string): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required to sign chat capabilities");
+  }
+  return createHmac("sha256", secret)
+    .update(`chat-capability:${value}`)
+    .digest("base64url");
+}
+
+function encodeCapabilities(chatIds: string[]): string {
+  const payload: CapabilityPayload = {
+    chats: chatIds,
+    exp: Math.floor(Date.now() / 1000) + CAPABILITY_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function decodeCapabilities(token: string | undefined): string[] {
+  if (!token) {
+    return [];
+  }
+
+  const [encoded, signature] = token.split(".");
+  if (!(encoded && signature)) {
+    return [];
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return [];
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encoded, "base64url").toString(),
+    ) as CapabilityPayload;
+
+    if (
+      !Array.isArray(payload.chats) ||
+      payload.exp < Math.floor(Date.now() / 1000)
+    ) {
+      return [];
+    }
+
+    return payload.chats.filter((id) => typeof id === "string");
+  } catch {
+    return [];
+  }
+}
+
+export async function getChatCapabilities(): Promise<string[]> {
+  const cookieStore = await cookies();
+  return decodeCapabilities(cookieStore.get(CAPABILITY_COOKIE)?.value);
+}
+
+export async function hasChatCapability(chatId: string): Promise<boolean> {
+  const capabilities = await getChatCapabilities();
+  return capabilities.includes(chatId);
+}
+
+// Adds a chat to the visitor's capability cookie. Only callable from route
+// handlers and server actions, where cookies can be written.
+export async function grantChatCapability(chatId: string) {
+  const existing = await getChatCapabilities();
+  const chatIds = [...existing.filter((id) => id !== chatId), chatId].slice(
+    -MAX_CAPABILITIES,
+  );
+
+  const cookieStore = await cookies();
+  cookieStore.set(CAPABILITY_COOKIE, encodeCapabilities(chatIds), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: !isDevelopmentEnvironment,
+    path: "/",
+    maxAge: CAPABILITY_TTL_SECONDS,
+  });
+}
+
+// Drops all capabilities, e.g. once their chats have been claimed by an
+// account and the cookie no longer grants anything
+export async function clearChatCapabilities() {
+  const cookieStore = await cookies();
+  cookieStore.delete(CAPABILITY_COOKIE);
+}
@@ -0,0 +1,178 @@
+import "server-only";
+
+import type { Session } from "next-auth";
+import type { ChatDetail } from "v0-sdk";
+import { auth } from "@/app/(auth)/auth";
+import { hasChatCapability } from "@/lib/capabilities";
+import { getChat, getChatOwnership, getTeamMembership } from "@/lib/db/queries";
+import type { ChatOwnership, ChatPrivacy } from "@/lib/db/schema";
+import { ChatSDKError } from "@/lib/errors";
+import { setRequestContext } from "@/lib/logger";
+import { getV0ForChat } from "@/lib/v0/keys";
+
+// Chats with these privacy settings can be read by anyone with the link
+const SHARED_PRIVACY: ChatPrivacy[] = ["public", "unlisted"];
+
+// Members of the chat's team can read "team" chats, and also send messages
+// to "team-edit" chats
+const TEAM_PRIVACY: Partial<Record<ChatPrivacy, "read" | "write">> = {
+  team: "read",
+  "team-edit": "write",
+};
+
+export type ChatAccess = "owner" | "capability" | "team" | "shared";
+
+type PrivateChatAccess = Exclude<ChatAccess, "team" | "shared">;
+
+type WriteChatAccess = Exclude<ChatAccess, "shared">;
+
+// Reads the session and tags the request's log lines with the user type
+async function getSession() {
+  const session = await auth();
+  setRequestContext({ userType: session?.user?.type });
+  return session;
+}
+
+// Owners always have access. Anonymous chats have no owner, so access to
+// them requires the capability issued to the browser that created them.
+async function resolvePrivateAccess(
+  session: Session | null,
+  ownership: ChatOwnership | undefined,
+  chatId: string,
+): Promise<PrivateChatAccess | null> {
+  if (session?.user?.id && ownership?.user_id === session.user.id) {
+    return "owner";
+  }
+
+  if (!ownership && (await hasChatCapability(chatId))) {
+    return "capability";
+  }
+
+  return null;
+}
+
+// What the chat's team lets the signed-in user do with it, if anything
+async function resolveTeamAccess(
+  session: Session | null,
+  ownership: ChatOwnership | undefined,
+  privacy: ChatPrivacy | undefined,
+) {
+  const level = privacy && TEAM_PRIVACY[privacy];
+  if (!(level && ownership?.team_id && session?.user?.id)) {
+    return null;
+  }
+
+  const membership = await getTeamMembership({
+    teamId: ownership.team_id,
+    userId: session.user.id,
+  });
+  return membership ? level : null;
+}
+
+function accessDeniedError(
+  session: Session | null,
+  ownership: ChatOwnership | undefined,
+) {
+  // Don't reveal whether an anonymous chat exists
+  if (!ownership) {
+    return new ChatSDKError("not_found:chat");
+  }
+
+  if (!session?.user?.id) {
+    return new ChatSDKError("unauthorized:chat");
+  }
+
+  return new ChatSDKError("forbidden:chat");
+}
+
+// Resolves the signed-in owner of a chat, or the error to respond with
+export async function authorizeChatOwner(
+  chatId: string,
+): Promise<{ userId: string; ownership: ChatOwnership } | ChatSDKError> {
+  const session = await getSession();
+
+  if (!session?.user?.id) {
+    return new ChatSDKError("unauthorized:chat");
+  }
+
+  const ownership = await getChatOwnership({ v0ChatId: chatId });
+
+  if (!ownership) {
+    return new ChatSDKError("not_found:chat");
+  }
+
+  if (ownership.user_id !== session.user.id) {
+    return new ChatSDKError("forbidden:chat");
+  }
+
+  return { userId: session.user.id, ownership };
+}
+
+// Resolves whether the current visitor may read a chat. The chat is fetched
+// to check its privacy, so it is returned to save callers a second request.
+export async function authorizeChatRead(
+  chatId: string,
+): Promise<{ chat: ChatDetail; access: ChatAccess } | ChatSDKError> {
+  const session = await getSession();
+  const ownership = await getChatOwnership({ v0ChatId: chatId });
+  const access = await resolvePrivateAccess(session, ownership, chatId);
+
+  // Only the owner is told when the personal key the chat was created with
+  // has been removed
+  const chat = await getV0ForChat(ownership)
+    .then(({ v0 }) => v0.chats.getById({ chatId }))
+    .catch((error) => {
+      if (access && error instanceof ChatSDKError) {
+        throw error;
+      }
+      return null;
+    });
+
+  if (!chat) {
+    return new ChatSDKError("not_found:chat");
+  }
+
+  if (access) {
+    return { chat, access };
+  }
+
+  if (await resolveTeamAccess(session, ownership, chat.privacy)) {
+    return { chat, access: "team" };
+  }
+
+  if (SHARED_PRIVACY.includes(chat.privacy)) {
+    return { chat, access: "shared" };
+  }
+
+  return accessDeniedError(session, ownership);
+}
+
+// Resolves whether the current visitor may send messages to a chat as its
+// owner, capability holder, or a member of its team when it's "team-edit"
+export async function authorizeChatWrite(
+  chatId: string,
+): Promise<{ access: WriteChatAccess } | ChatSDKError> {
+  const session = await getSession();
+  const ownership = await getChatOwnership({ v0ChatId: chatId });
+  const access = await resolvePrivateAccess(session, ownership, chatId);
+
+  if (access) {
+    return { access };
+  }
+
+  // Privacy comes from the local mirror, which is kept current on every
+  // privacy change, to avoid fetching the chat on each message
+  if (ownership?.team_id) {
+    const chat = await getChat({ v0ChatId: chatId });
+    const teamAccess = await resolveTeamAccess(
+      session,
+      ownership,
+      chat?.privacy,
+    );
+    if (teamAccess === "write") {
+      return { access: "team" };
+    }
+  }
+
+  return accessDeniedError(session, ownership);
+}
@@ -0,0 +1,93 @@
+import type { MessageBinaryFormat } from "@v0-sdk/react";
+
+// Regenerating a response resends the prompt to v0, so the chat's messages
+// hold every attempt in turn. The generations recorded for the chat tell the
+// attempts apart, so they can be shown as alternatives of one response.
+
+export interface ChatGeneration {
+  id: string;
+  v0MessageId: string | null;
+  v0VersionId: string | null;
+  demoUrl: string | null;
+  alternativeOf: string | null;
+}
+
+export interface ResponseAlternative {
+  // The v0 message ID of the response, or a local ID until it's reloaded
+  id: string;
+  content: string | MessageBinaryFormat;
+  // The preview of the version this response produced
+  demoUrl?: string;
+}
+
+interface V0Message {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  experimental_content?: MessageBinaryFormat;
+}
+
+export interface ChatHistoryEntry {
+  // The v0 message ID of a prompt, which is how it's edited
+  id?: string;
+  type: "user" | "assistant";
+  content: string | MessageBinaryFormat;
+  alternatives?: ResponseAlternative[];
+}
+
+export function buildChatHistory(
+  messages: V0Message[],
+  generations: ChatGeneration[],
+): ChatHistoryEntry[] {
+  const generationsByMessageId = new Map(
+    generations.map((generation) => [generation.v0MessageId, generation]),
+  );
+  // Responses that later attempts are alternatives to, by generation ID
+  const responsesByGenerationId = new Map<string, ChatHistoryEntry>();
+  const history: ChatHistoryEntry[] = [];
+
+  for (const message of messages) {
+    // Use experimental_content if available, otherwise fall back to plain content
+    const content = message.experimental_content || message.content;
+
+    if (message.role === "user") {
+      history.push({ id: message.id, type: "user", content });
+      continue;
+    }
+
+    const generation = generationsByMessageId.get(message.id);
+    const alternative = {
+      id: message.id,
+      content,
+      demoUrl: generation?.demoUrl ?? undefined,
+    };
+    const original = generation?.alternativeOf
+      ? responsesByGenerationId.get(generation.alternativeOf)
+      : undefined;
+
+    // Only the latest response can be regenerated, so an attempt follows the
+    // original and the prompt repeated to ask for it
+    if (
+      original?.alternatives &&
+      history.at(-1)?.type === "user" &&
+      history.at(-2) === original
+    ) {
+      history.pop();
+      original.alternatives.push(alternative);
+      original.content = content;
+      continue;
+    }
+
+    const response: ChatHistoryEntry = {
+      type: "assistant",
+      content,
+      alternatives: [alternative],
+    };
+    history.push(response);
+    if (generation) {
+      responsesByGenerationId.set(generation.id, response);
+    }
+  }
+
+  return history;
+}
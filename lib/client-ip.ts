@@ -0,0 +1,254 @@
+import { isIP } from "node:net";
+import { logger } from "@/lib/logger";
+
+/*
+ * Resolves the client IP address from X-Forwarded-For. Clients can send any
+ * X-Forwarded-For value they like, so only the hops appended by our own
+ * proxies are trusted:
+ *
+ * - TRUSTED_PROXIES: comma-separated proxy IPs or CIDR ranges. Hops from
+ *   these addresses are skipped, right to left, and the first other address
+ *   is the client.
+ * - TRUSTED_PROXY_COUNT: otherwise, the number of proxies in front of the
+ *   app (default 1, e.g. Vercel or a single nginx). The client is the
+ *   address appended by the outermost of them.
+ */
+
+// An address as 16-bit groups: 2 for IPv4, 8 for IPv6
+type Address = number[];
+
+interface AddressRange {
+  network: Address;
+  prefixLength: number;
+}
+
+const DEFAULT_TRUSTED_PROXY_COUNT = 1;
+
+function parseIPv4(ip: string): Address {
+  const [a, b, c, d] = ip.split(".").map(Number);
+  return [(a << 8) | b, (c << 8) | d];
+}
+
+function parseIPv6(ip: string): Address {
+  let address = ip;
+
+  // Convert an embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const tailStart = address.lastIndexOf(":") + 1;
+  const tail = address.slice(tailStart);
+  if (tail.includes(".")) {
+    const [high, low] = parseIPv4(tail);
+    address = `${address.slice(0, tailStart)}${high.toString(16)}:${low.toString(16)}`;
+  }
+
+  const [head, rest] = address.split("::");
+  const headGroups = head ? head.split(":") : [];
+
+  if (rest === undefined) {
+    return headGroups.map((group) => Number.parseInt(group, 16));
+  }
+
+  const restGroups = rest ? rest.split(":") : [];
+  const zeros = Array<string>(8 - headGroups.length - restGroups.length).fill(
+    "0",
+  );
+
+  return [...headGroups, ...zeros, ...restGroups].map((group) =>
+    Number.parseInt(group, 16),
+  );
+}
+
+function isIPv4Mapped(groups: Address): boolean {
+  return (
+    groups.length === 8 &&
+    groups.slice(0, 5).every((group) => group === 0) &&
+    groups[5] === 0xffff
+  );
+}
+
+function formatIPv4([high, low]: Address): string {
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+// Strips ports, brackets and zone IDs, and converts IPv4-mapped IPv6
+// addresses to plain IPv4. Returns null for anything that isn't an IP.
+export function normalizeIP(raw: string): string | null {
+  let ip = raw.trim().toLowerCase();
+
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    ip = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    ip = ip.slice(0, ip.lastIndexOf(":"));
+  }
+
+  ip = ip.split("%")[0];
+
+  const version = isIP(ip);
+  if (version === 4) {
+    return ip;
+  }
+  if (version !== 6) {
+    return null;
+  }
+
+  const groups = parseIPv6(ip);
+  return isIPv4Mapped(groups) ? formatIPv4(groups.slice(6)) : ip;
+}
+
+function parseAddress(ip: string): Address {
+  return isIP(ip) === 4 ? parseIPv4(ip) : parseIPv6(ip);
+}
+
+function matchesRange(ip: string, { network, prefixLength }: AddressRange) {
+  const groups = parseAddress(ip);
+  if (groups.length !== network.length) {
+    return false;
+  }
+
+  for (let i = 0; i < groups.length; i++) {
+    const bits = Math.min(16, Math.max(0, prefixLength - i * 16));
+    if (bits === 0) {
+      return true;
+    }
+    const mask = (0xffff << (16 - bits)) & 0xffff;
+    if ((groups[i] & mask) !== (network[i] & mask)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+// Parses an IP or CIDR range. Returns null if it isn't one.
+function parseRange(entry: string): AddressRange | null {
+  const [address, prefix] = entry.trim().split("/");
+  const ip = normalizeIP(address);
+  if (!ip) {
+    return null;
+  }
+
+  const network = parseAddress(ip);
+  const maxPrefix = network.length * 16;
+  const prefixLength = prefix ? Number.parseInt(prefix, 10) : maxPrefix;
+
+  return { network, prefixLength: Math.min(prefixLength, maxPrefix) };
+}
+
+function parseTrustedProxies(value: string | undefined): AddressRange[] {
+  if (!value) {
+    return [];
+  }
+
+  return value.split(",").flatMap((entry) => {
+    const range = parseRange(entry);
+    if (!range) {
+      logger.warn("Ignoring invalid TRUSTED_PROXIES entry", { entry });
+      return [];
+    }
+    return [range];
+  });
+}
+
+// Addresses that aren't reachable on the public internet: this host, private
+// and carrier-grade NAT networks, link-local, multicast and reserved ranges.
+// IPv6 ranges that embed an IPv4 address are included, since they can reach
+// the same hosts. IPv4-mapped addresses are checked as IPv4.
+const NON_PUBLIC_RANGES = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/96",
+  "::ffff:0:0:0/96",
+  "64:ff9b::/96",
+  "64:ff9b:1::/48",
+  "fc00::/7",
+  "fe80::/10",
+  "fec0::/10",
+  "ff00::/8",
+].map((entry) => parseRange(entry) as AddressRange);
+
+// Whether an IP address can be reached on the public internet. Anything
+// that isn't an IP address is treated as not public.
+export function isPublicIP(raw: string): boolean {
+  const ip = normalizeIP(raw);
+  return (
+    ip !== null && !NON_PUBLIC_RANGES.some((range) => matchesRange(ip, range))
+  );
+}
+
+function parseTrustedProxyCount(value: string | undefined): number {
+  const count = value ? Number.parseInt(value, 10) : Number.NaN;
+  return Number.isNaN(count) || count < 0 ? DEFAULT_TRUSTED_PROXY_COUNT : count;
+}
+
+const trustedProxies = parseTrustedProxies(process.env.TRUSTED_PROXIES);
+const trustedProxyCount = parseTrustedProxyCount(
+  process.env.TRUSTED_PROXY_COUNT,
+);
+
+function resolveForwardedFor(hops: string[]): string | null {
+  if (trustedProxies.length > 0) {
+    for (let i = hops.length - 1; i >= 0; i--) {
+      const ip = normalizeIP(hops[i]);
+      if (!ip) {
+        return null;
+      }
+      if (!trustedProxies.some((range) => matchesRange(ip, range))) {
+        return ip;
+      }
+    }
+    return null;
+  }
+
+  // With no trusted proxies the header is entirely client-controlled
+  if (trustedProxyCount === 0 || hops.length < trustedProxyCount) {
+    return null;
+  }
+
+  return normalizeIP(hops[hops.length - trustedProxyCount]);
+}
+
+// Returns null when no trustworthy client address is available
+export function getClientIP(headers: Headers): string | null {
+  const forwarded = headers.get("x-forwarded-for");
+
+  if (forwarded) {
+    return resolveForwardedFor(forwarded.split(","));
+  }
+
+  // Only set by proxies, so it can be trusted whenever one is configured
+  const realIP = headers.get("x-real-ip");
+  if (realIP && (trustedProxies.length > 0 || trustedProxyCount > 0)) {
+    return normalizeIP(realIP);
+  }
+
+  return null;
+}
+
+// Clients usually control a whole IPv6 /64, so addresses in one are limited
+// together. IPv4 addresses are used as they are. Expects a normalized IP.
+export function toIPBucket(ip: string): string {
+  if (isIP(ip) === 4) {
+    return ip;
+  }
+
+  const prefix = parseIPv6(ip)
+    .slice(0, 4)
+    .map((group) => group.toString(16))
+    .join(":");
+
+  return `${prefix}::/64`;
+}
+
+export function getClientIPBucket(headers: Headers): string | null {
+  const ip = getClientIP(headers);
+  return ip && toIPBucket(ip);
+}
@@ -0,0 +1,11 @@
+CREATE TABLE "chats" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"v0_chat_id" varchar(255) NOT NULL,
+	"name" varchar(255),
+	"privacy" varchar(16) DEFAULT 'private' NOT NULL,
+	"demo_url" text,
+	"message_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chats_v0_chat_id_unique" UNIQUE("v0_chat_id")
+);
@@ -0,0 +1 @@
+ALTER TABLE "chat_ownerships" ADD COLUMN "forked_from" varchar(255);
\ No newline at end of file
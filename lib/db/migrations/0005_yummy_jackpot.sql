@@ -0,0 +1 @@
+ALTER TABLE "chat_ownerships" ADD COLUMN "claimed_at" timestamp;
\ No newline at end of file
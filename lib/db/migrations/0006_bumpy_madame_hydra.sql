@@ -0,0 +1,13 @@
+CREATE TABLE "message_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"ip_address" varchar(45) NOT NULL,
+	"v0_chat_id" varchar(255),
+	"attachment_count" integer DEFAULT 0 NOT NULL,
+	"outcome" varchar(16) DEFAULT 'pending' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "message_usage" ADD CONSTRAINT "message_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "message_usage_user_created_idx" ON "message_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "message_usage_ip_created_idx" ON "message_usage" USING btree ("ip_address","created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE "rate_limit_counters" (
+	"key" varchar(255) NOT NULL,
+	"window_start" timestamp NOT NULL,
+	"count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "rate_limit_counters_key_window_start_pk" PRIMARY KEY("key","window_start")
+);
@@ -0,0 +1 @@
+ALTER TABLE "message_usage" ALTER COLUMN "ip_address" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "generations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"v0_chat_id" varchar(255),
+	"user_id" uuid,
+	"message_usage_id" uuid,
+	"status" varchar(16) DEFAULT 'streaming' NOT NULL,
+	"v0_message_id" varchar(255),
+	"content" text,
+	"v0_version_id" varchar(255),
+	"demo_url" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"duration_ms" integer
+);
+--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_message_usage_id_message_usage_id_fk" FOREIGN KEY ("message_usage_id") REFERENCES "public"."message_usage"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "generations_chat_started_idx" ON "generations" USING btree ("v0_chat_id","started_at");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "generations" ADD COLUMN "alternative_of" uuid;--> statement-breakpoint
+ALTER TABLE "generations" ADD CONSTRAINT "generations_alternative_of_generations_id_fk" FOREIGN KEY ("alternative_of") REFERENCES "public"."generations"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
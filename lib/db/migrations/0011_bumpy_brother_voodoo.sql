@@ -0,0 +1 @@
+ALTER TABLE "chat_ownerships" ADD COLUMN "parent_chat_id" varchar(255);
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "v0_api_keys" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"encrypted_key" text NOT NULL,
+	"key_hint" varchar(8) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_ownerships" ADD COLUMN "v0_key_user_id" uuid;--> statement-breakpoint
+ALTER TABLE "v0_api_keys" ADD CONSTRAINT "v0_api_keys_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "chat_ownerships" ADD CONSTRAINT "chat_ownerships_v0_key_user_id_users_id_fk" FOREIGN KEY ("v0_key_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -1,13 +1,55 @@
 import "server-only";
 
-import { and, count, desc, eq, gte } from "drizzle-orm";
+import {
+  and,
+  arrayContains,
+  count,
+  desc,
+  eq,
+  gt,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lt,
+  max,
+  notInArray,
+  notLike,
+  or,
+  sql,
+} from "drizzle-orm";
 import { generateUUID } from "../utils";
 import db from "./connection";
 import {
+  type AdminAction,
+  type AuthTokenType,
+  accounts,
+  admin_audit_logs,
   anonymous_chat_logs,
+  auth_tokens,
+  bans,
+  type ChatPrivacy,
   chat_ownerships,
+  chats,
+  entitlement_overrides,
+  type GenerationStatus,
+  generations,
+  type MessageUsage,
+  type MessageUsageOutcome,
+  message_usage,
+  type OAuthProvider,
+  rate_limit_counters,
+  type TeamRole,
+  team_invites,
+  team_members,
+  teams,
   type User,
   users,
+  v0_api_keys,
+  type WebhookDeliveryStatus,
+  type WebhookEvent,
+  webhook_deliveries,
+  webhooks,
 } from "./schema";
 import { generateHashedPassword } from "./utils";
 
@@ -66,13 +108,275 @@ export async function createGuestUser(): Promise<User[]> {
   }
 }
 
+export async function getUserById({ id }: { id: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  } catch (error) {
+    console.error("Failed to get user by id from database");
+    throw error;
+  }
+}
+
+export async function markEmailVerified({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(users)
+      .set({ email_verified_at: new Date() })
+      .where(and(eq(users.id, userId), isNull(users.email_verified_at)));
+  } catch (error) {
+    console.error("Failed to mark email verified in database");
+    throw error;
+  }
+}
+
+export async function updateUserPassword({
+  userId,
+  password,
+}: {
+  userId: string;
+  password: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(users)
+      .set({ password: generateHashedPassword(password) })
+      .where(eq(users.id, userId));
+  } catch (error) {
+    console.error("Failed to update user password in database");
+    throw error;
+  }
+}
+
+// Auth token functions
+// Issues a token, replacing any the user still had of the same type so only
+// the latest emailed link works
+export async function createAuthToken({
+  userId,
+  type,
+  tokenHash,
+  expiresAt,
+}: {
+  userId: string;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(auth_tokens)
+        .where(
+          and(eq(auth_tokens.user_id, userId), eq(auth_tokens.type, type)),
+        );
+      const [token] = await tx
+        .insert(auth_tokens)
+        .values({
+          user_id: userId,
+          type,
+          token_hash: tokenHash,
+          expires_at: expiresAt,
+        })
+        .returning();
+      return token;
+    });
+  } catch (error) {
+    console.error("Failed to create auth token in database");
+    throw error;
+  }
+}
+
+// Marks an unused, unexpired token as used. Returns the token, or undefined
+// when there was none to use.
+export async function redeemAuthToken({
+  tokenHash,
+  type,
+}: {
+  tokenHash: string;
+  type: AuthTokenType;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [token] = await db
+      .update(auth_tokens)
+      .set({ used_at: new Date() })
+      .where(
+        and(
+          eq(auth_tokens.token_hash, tokenHash),
+          eq(auth_tokens.type, type),
+          isNull(auth_tokens.used_at),
+          gte(auth_tokens.expires_at, new Date()),
+        ),
+      )
+      .returning();
+    return token;
+  } catch (error) {
+    console.error("Failed to redeem auth token in database");
+    throw error;
+  }
+}
+
+// Account functions
+// Creates a user signing up through a provider, along with the identity
+// they'll sign in with
+export async function createOAuthUser({
+  email,
+  emailVerified,
+  provider,
+  providerAccountId,
+}: {
+  email: string;
+  emailVerified: boolean;
+  provider: OAuthProvider;
+  providerAccountId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .insert(users)
+        .values({
+          email,
+          password: null,
+          email_verified_at: emailVerified ? new Date() : null,
+        })
+        .returning();
+      await tx.insert(accounts).values({
+        user_id: user.id,
+        provider,
+        provider_account_id: providerAccountId,
+      });
+      return user;
+    });
+  } catch (error) {
+    console.error("Failed to create OAuth user in database");
+    throw error;
+  }
+}
+
+export async function getAccountByProviderAccountId({
+  provider,
+  providerAccountId,
+}: {
+  provider: OAuthProvider;
+  providerAccountId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.provider, provider),
+          eq(accounts.provider_account_id, providerAccountId),
+        ),
+      );
+    return account;
+  } catch (error) {
+    console.error("Failed to get account by provider from database");
+    throw error;
+  }
+}
+
+export async function getAccountsByUserId({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.user_id, userId))
+      .orderBy(accounts.created_at);
+  } catch (error) {
+    console.error("Failed to get accounts by user from database");
+    throw error;
+  }
+}
+
+export async function createAccount({
+  userId,
+  provider,
+  providerAccountId,
+}: {
+  userId: string;
+  provider: OAuthProvider;
+  providerAccountId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [account] = await db
+      .insert(accounts)
+      .values({
+        user_id: userId,
+        provider,
+        provider_account_id: providerAccountId,
+      })
+      .returning();
+    return account;
+  } catch (error) {
+    console.error("Failed to create account in database");
+    throw error;
+  }
+}
+
+// Unlinks a provider from the user. Returns whether it was linked.
+export async function deleteAccount({
+  userId,
+  provider,
+}: {
+  userId: string;
+  provider: OAuthProvider;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const deleted = await db
+      .delete(accounts)
+      .where(and(eq(accounts.user_id, userId), eq(accounts.provider, provider)))
+      .returning({ id: accounts.id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Failed to delete account from database");
+    throw error;
+  }
+}
+
 // Chat ownership functions
 export async function createChatOwnership({
   v0ChatId,
   userId,
+  forkedFrom,
+  parentChatId,
+  v0KeyUserId,
 }: {
   v0ChatId: string;
   userId: string;
+  forkedFrom?: string;
+  parentChatId?: string;
+  v0KeyUserId?: string | null;
 }) {
   try {
     if (!db) {
@@ -83,6 +387,9 @@ export async function createChatOwnership({
       .values({
         v0_chat_id: v0ChatId,
         user_id: userId,
+        forked_from: forkedFrom,
+        parent_chat_id: parentChatId,
+        v0_key_user_id: v0KeyUserId,
       })
       .onConflictDoNothing({ target: chat_ownerships.v0_chat_id });
   } catch (error) {
@@ -143,84 +450,1610 @@ export async function deleteChatOwnership({ v0ChatId }: { v0ChatId: string }) {
   }
 }
 
-// Rate limiting functions
-export async function getChatCountByUserId({
+// Shares the chat with a team, or stops sharing it when teamId is null
+export async function setChatTeam({
+  v0ChatId,
+  teamId,
+}: {
+  v0ChatId: string;
+  teamId: string | null;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(chat_ownerships)
+      .set({ team_id: teamId })
+      .where(eq(chat_ownerships.v0_chat_id, v0ChatId));
+  } catch (error) {
+    console.error("Failed to set chat team in database");
+    throw error;
+  }
+}
+
+// Moves chats from a guest account, plus anonymous chats the visitor holds
+// capabilities for, onto a regular account in a single transaction.
+// Anonymous chats that already have an owner are skipped.
+export async function claimChats({
   userId,
-  differenceInHours,
+  guestUserId,
+  anonymousChatIds,
 }: {
   userId: string;
-  differenceInHours: number;
-}): Promise<number> {
+  guestUserId?: string;
+  anonymousChatIds: string[];
+}): Promise<string[]> {
   try {
     if (!db) {
       throw new Error("Database not initialized");
     }
-    const hoursAgo = new Date(Date.now() - differenceInHours * 60 * 60 * 1000);
+    const claimedAt = new Date();
 
-    const [stats] = await db
-      .select({ count: count(chat_ownerships.id) })
-      .from(chat_ownerships)
-      .where(
-        and(
-          eq(chat_ownerships.user_id, userId),
-          gte(chat_ownerships.created_at, hoursAgo),
-        ),
-      );
+    return await db.transaction(async (tx) => {
+      const claimed: string[] = [];
 
-    return stats?.count || 0;
+      if (guestUserId && guestUserId !== userId) {
+        const moved = await tx
+          .update(chat_ownerships)
+          .set({ user_id: userId, claimed_at: claimedAt })
+          .where(eq(chat_ownerships.user_id, guestUserId))
+          .returning({ v0ChatId: chat_ownerships.v0_chat_id });
+        claimed.push(...moved.map((row) => row.v0ChatId));
+      }
+
+      if (anonymousChatIds.length > 0) {
+        const inserted = await tx
+          .insert(chat_ownerships)
+          .values(
+            anonymousChatIds.map((v0ChatId) => ({
+              v0_chat_id: v0ChatId,
+              user_id: userId,
+              claimed_at: claimedAt,
+            })),
+          )
+          .onConflictDoNothing({ target: chat_ownerships.v0_chat_id })
+          .returning({ v0ChatId: chat_ownerships.v0_chat_id });
+        claimed.push(...inserted.map((row) => row.v0ChatId));
+      }
+
+      return claimed;
+    });
   } catch (error) {
-    console.error("Failed to get chat count by user from database");
+    console.error("Failed to claim chats in database");
     throw error;
   }
 }
 
-export async function getChatCountByIP({
-  ipAddress,
-  differenceInHours,
+// Chat metadata functions
+export async function upsertChat({
+  v0ChatId,
+  name,
+  privacy,
+  demoUrl,
+  messageCount,
+  createdAt,
+  updatedAt,
 }: {
-  ipAddress: string;
-  differenceInHours: number;
-}): Promise<number> {
+  v0ChatId: string;
+  name: string | null;
+  privacy: ChatPrivacy;
+  demoUrl: string | null;
+  messageCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
   try {
     if (!db) {
       throw new Error("Database not initialized");
     }
-    const hoursAgo = new Date(Date.now() - differenceInHours * 60 * 60 * 1000);
+    const values = {
+      name,
+      privacy,
+      demo_url: demoUrl,
+      message_count: messageCount,
+      updated_at: updatedAt,
+    };
+    return await db
+      .insert(chats)
+      .values({ v0_chat_id: v0ChatId, created_at: createdAt, ...values })
+      .onConflictDoUpdate({ target: chats.v0_chat_id, set: values });
+  } catch (error) {
+    console.error("Failed to upsert chat in database");
+    throw error;
+  }
+}
 
-    const [stats] = await db
-      .select({ count: count(anonymous_chat_logs.id) })
-      .from(anonymous_chat_logs)
+export async function updateChat({
+  v0ChatId,
+  name,
+  privacy,
+}: {
+  v0ChatId: string;
+  name?: string | null;
+  privacy?: ChatPrivacy;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(chats)
+      .set({
+        ...(name !== undefined && { name }),
+        ...(privacy !== undefined && { privacy }),
+        updated_at: new Date(),
+      })
+      .where(eq(chats.v0_chat_id, v0ChatId));
+  } catch (error) {
+    console.error("Failed to update chat in database");
+    throw error;
+  }
+}
+
+export async function getChat({ v0ChatId }: { v0ChatId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [chat] = await db
+      .select()
+      .from(chats)
+      .where(eq(chats.v0_chat_id, v0ChatId));
+    return chat;
+  } catch (error) {
+    console.error("Failed to get chat from database");
+    throw error;
+  }
+}
+
+export async function deleteChat({ v0ChatId }: { v0ChatId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.delete(chats).where(eq(chats.v0_chat_id, v0ChatId));
+  } catch (error) {
+    console.error("Failed to delete chat from database");
+    throw error;
+  }
+}
+
+// The user's own chats, followed by chats their teams can access
+export async function getChatsByUserId({
+  userId,
+  limit,
+  offset = 0,
+}: {
+  userId: string;
+  limit?: number;
+  offset?: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    // Left join so chats created before the metadata mirror existed are
+    // still listed, just without a name or preview
+    const query = db
+      .select({
+        v0ChatId: chat_ownerships.v0_chat_id,
+        name: chats.name,
+        privacy: chats.privacy,
+        demoUrl: chats.demo_url,
+        messageCount: chats.message_count,
+        forkedFrom: chat_ownerships.forked_from,
+        parentChatId: chat_ownerships.parent_chat_id,
+        ownerId: chat_ownerships.user_id,
+        teamId: chat_ownerships.team_id,
+        claimedAt: chat_ownerships.claimed_at,
+        createdAt: chat_ownerships.created_at,
+        updatedAt: chats.updated_at,
+      })
+      .from(chat_ownerships)
+      .leftJoin(chats, eq(chats.v0_chat_id, chat_ownerships.v0_chat_id))
       .where(
-        and(
-          eq(anonymous_chat_logs.ip_address, ipAddress),
-          gte(anonymous_chat_logs.created_at, hoursAgo),
+        or(
+          eq(chat_ownerships.user_id, userId),
+          // Chats shared with the user's teams
+          and(
+            inArray(
+              chat_ownerships.team_id,
+              db
+                .select({ teamId: team_members.team_id })
+                .from(team_members)
+                .where(eq(team_members.user_id, userId)),
+            ),
+            inArray(chats.privacy, ["team", "team-edit"]),
+          ),
         ),
-      );
+      )
+      .orderBy(
+        desc(sql`coalesce(${chats.updated_at}, ${chat_ownerships.created_at})`),
+      )
+      .offset(offset);
 
-    return stats?.count || 0;
+    return await (limit === undefined ? query : query.limit(limit));
   } catch (error) {
-    console.error("Failed to get chat count by IP from database");
+    console.error("Failed to get chats by user from database");
     throw error;
   }
 }
 
-export async function createAnonymousChatLog({
+// Rate limiting functions
+export async function createMessageUsage({
+  userId,
   ipAddress,
   v0ChatId,
+  attachmentCount,
 }: {
-  ipAddress: string;
-  v0ChatId: string;
+  userId?: string;
+  ipAddress: string | null;
+  v0ChatId?: string;
+  attachmentCount: number;
+}): Promise<MessageUsage[]> {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .insert(message_usage)
+      .values({
+        user_id: userId,
+        ip_address: ipAddress,
+        v0_chat_id: v0ChatId,
+        attachment_count: attachmentCount,
+      })
+      .returning();
+  } catch (error) {
+    console.error("Failed to create message usage in database");
+    throw error;
+  }
+}
+
+export async function updateMessageUsage({
+  id,
+  outcome,
+  v0ChatId,
+}: {
+  id: string;
+  outcome: MessageUsageOutcome;
+  v0ChatId?: string;
 }) {
   try {
     if (!db) {
       throw new Error("Database not initialized");
     }
-    return await db.insert(anonymous_chat_logs).values({
-      ip_address: ipAddress,
-      v0_chat_id: v0ChatId,
-    });
+    return await db
+      .update(message_usage)
+      .set({
+        outcome,
+        ...(v0ChatId !== undefined && { v0_chat_id: v0ChatId }),
+      })
+      .where(eq(message_usage.id, id));
+  } catch (error) {
+    console.error("Failed to update message usage in database");
+    throw error;
+  }
+}
+
+const uncountedOutcomes: MessageUsageOutcome[] = ["error", "cancelled"];
+
+// Failed and cancelled requests don't count towards the limit. Pending ones
+// do, so concurrent requests can't slip past it.
+export async function getMessageCountByUserId({
+  userId,
+  differenceInHours,
+}: {
+  userId: string;
+  differenceInHours: number;
+}): Promise<number> {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const hoursAgo = new Date(Date.now() - differenceInHours * 60 * 60 * 1000);
+
+    const [stats] = await db
+      .select({ count: count(message_usage.id) })
+      .from(message_usage)
+      .where(
+        and(
+          eq(message_usage.user_id, userId),
+          gte(message_usage.created_at, hoursAgo),
+          notInArray(message_usage.outcome, uncountedOutcomes),
+        ),
+      );
+
+    return stats?.count || 0;
+  } catch (error) {
+    console.error("Failed to get message count by user from database");
+    throw error;
+  }
+}
+
+export async function getMessageCountByIP({
+  ipAddress,
+  differenceInHours,
+}: {
+  ipAddress: string;
+  differenceInHours: number;
+}): Promise<number> {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const hoursAgo = new Date(Date.now() - differenceInHours * 60 * 60 * 1000);
+
+    const [stats] = await db
+      .select({ count: count(message_usage.id) })
+      .from(message_usage)
+      .where(
+        and(
+          eq(message_usage.ip_address, ipAddress),
+          isNull(message_usage.user_id),
+          gte(message_usage.created_at, hoursAgo),
+          notInArray(message_usage.outcome, uncountedOutcomes),
+        ),
+      );
+
+    return stats?.count || 0;
+  } catch (error) {
+    console.error("Failed to get message count by IP from database");
+    throw error;
+  }
+}
+
+// Increments the hit counter for a rate limit window and returns it along
+// with the previous window's count
+export async function incrementRateLimitCounter({
+  key,
+  windowStart,
+  windowMs,
+}: {
+  key: string;
+  windowStart: Date;
+  windowMs: number;
+}): Promise<{ current: number; previous: number }> {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const previousStart = new Date(windowStart.getTime() - windowMs);
+
+    const [current] = await db
+      .insert(rate_limit_counters)
+      .values({ key, window_start: windowStart, count: 1 })
+      .onConflictDoUpdate({
+        target: [rate_limit_counters.key, rate_limit_counters.window_start],
+        set: { count: sql`${rate_limit_counters.count} + 1` },
+      })
+      .returning({ count: rate_limit_counters.count });
+
+    const [previous] = await db
+      .select({ count: rate_limit_counters.count })
+      .from(rate_limit_counters)
+      .where(
+        and(
+          eq(rate_limit_counters.key, key),
+          eq(rate_limit_counters.window_start, previousStart),
+        ),
+      );
+
+    // Drop windows that can no longer affect any estimate
+    await db
+      .delete(rate_limit_counters)
+      .where(
+        and(
+          eq(rate_limit_counters.key, key),
+          lt(rate_limit_counters.window_start, previousStart),
+        ),
+      );
+
+    return { current: current.count, previous: previous?.count ?? 0 };
+  } catch (error) {
+    console.error("Failed to increment rate limit counter in database");
+    throw error;
+  }
+}
+
+export async function createAnonymousChatLog({
+  ipAddress,
+  v0ChatId,
+}: {
+  ipAddress: string;
+  v0ChatId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.insert(anonymous_chat_logs).values({
+      ip_address: ipAddress,
+      v0_chat_id: v0ChatId,
+    });
   } catch (error) {
     console.error("Failed to create anonymous chat log in database");
     throw error;
   }
 }
+
+export async function createGeneration({
+  v0ChatId,
+  userId,
+  messageUsageId,
+  alternativeOf,
+}: {
+  v0ChatId?: string;
+  userId?: string;
+  messageUsageId?: string;
+  alternativeOf?: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [generation] = await db
+      .insert(generations)
+      .values({
+        v0_chat_id: v0ChatId,
+        user_id: userId,
+        message_usage_id: messageUsageId,
+        alternative_of: alternativeOf,
+      })
+      .returning();
+    return generation;
+  } catch (error) {
+    console.error("Failed to create generation in database");
+    throw error;
+  }
+}
+
+export async function updateGeneration({
+  id,
+  status,
+  v0ChatId,
+  v0MessageId,
+  content,
+  v0VersionId,
+  demoUrl,
+  completedAt,
+  durationMs,
+}: {
+  id: string;
+  status?: GenerationStatus;
+  v0ChatId?: string;
+  v0MessageId?: string;
+  content?: string;
+  v0VersionId?: string;
+  demoUrl?: string;
+  completedAt?: Date;
+  durationMs?: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(generations)
+      .set({
+        status,
+        v0_chat_id: v0ChatId,
+        v0_message_id: v0MessageId,
+        content,
+        v0_version_id: v0VersionId,
+        demo_url: demoUrl,
+        completed_at: completedAt,
+        duration_ms: durationMs,
+      })
+      .where(eq(generations.id, id));
+  } catch (error) {
+    console.error("Failed to update generation in database");
+    throw error;
+  }
+}
+
+// Generations are recorded as finished after their stream ends. One still
+// streaming after this long was cut off by a restart or crash, and is
+// ignored so the chat isn't stuck waiting for it.
+const STALE_GENERATION_MS = 15 * 60 * 1000;
+
+export async function getStreamingGenerationByChatId({
+  v0ChatId,
+}: {
+  v0ChatId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [generation] = await db
+      .select()
+      .from(generations)
+      .where(
+        and(
+          eq(generations.v0_chat_id, v0ChatId),
+          eq(generations.status, "streaming"),
+          gte(
+            generations.started_at,
+            new Date(Date.now() - STALE_GENERATION_MS),
+          ),
+        ),
+      )
+      .orderBy(desc(generations.started_at))
+      .limit(1);
+    return generation;
+  } catch (error) {
+    console.error("Failed to get streaming generation from database");
+    throw error;
+  }
+}
+
+export async function getGenerationById({ id }: { id: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [generation] = await db
+      .select()
+      .from(generations)
+      .where(eq(generations.id, id));
+    return generation;
+  } catch (error) {
+    console.error("Failed to get generation from database");
+    throw error;
+  }
+}
+
+export async function getLatestGenerationByChatId({
+  v0ChatId,
+}: {
+  v0ChatId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [generation] = await db
+      .select()
+      .from(generations)
+      .where(eq(generations.v0_chat_id, v0ChatId))
+      .orderBy(desc(generations.started_at))
+      .limit(1);
+    return generation;
+  } catch (error) {
+    console.error("Failed to get latest generation from database");
+    throw error;
+  }
+}
+
+export async function getGenerationByMessageId({
+  v0MessageId,
+}: {
+  v0MessageId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [generation] = await db
+      .select()
+      .from(generations)
+      .where(eq(generations.v0_message_id, v0MessageId))
+      .limit(1);
+    return generation;
+  } catch (error) {
+    console.error("Failed to get generation by message from database");
+    throw error;
+  }
+}
+
+// Completed generations, oldest first, for matching them up with the chat's
+// messages
+export async function getCompletedGenerationsByChatId({
+  v0ChatId,
+}: {
+  v0ChatId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        id: generations.id,
+        v0MessageId: generations.v0_message_id,
+        v0VersionId: generations.v0_version_id,
+        demoUrl: generations.demo_url,
+        alternativeOf: generations.alternative_of,
+      })
+      .from(generations)
+      .where(
+        and(
+          eq(generations.v0_chat_id, v0ChatId),
+          eq(generations.status, "completed"),
+        ),
+      )
+      .orderBy(generations.started_at);
+  } catch (error) {
+    console.error("Failed to get generations from database");
+    throw error;
+  }
+}
+
+// Webhook functions
+export async function createWebhook({
+  userId,
+  url,
+  secret,
+  events,
+}: {
+  userId: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [webhook] = await db
+      .insert(webhooks)
+      .values({ user_id: userId, url, secret, events })
+      .returning();
+    return webhook;
+  } catch (error) {
+    console.error("Failed to create webhook in database");
+    throw error;
+  }
+}
+
+export async function getWebhooksByUserId({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select()
+      .from(webhooks)
+      .where(eq(webhooks.user_id, userId))
+      .orderBy(desc(webhooks.created_at));
+  } catch (error) {
+    console.error("Failed to get webhooks by user from database");
+    throw error;
+  }
+}
+
+// Webhooks subscribed to an event, for the user the event happened to
+export async function getWebhooksForEvent({
+  userId,
+  event,
+}: {
+  userId: string;
+  event: WebhookEvent;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select()
+      .from(webhooks)
+      .where(
+        and(
+          eq(webhooks.user_id, userId),
+          arrayContains(webhooks.events, [event]),
+        ),
+      );
+  } catch (error) {
+    console.error("Failed to get webhooks for event from database");
+    throw error;
+  }
+}
+
+// Deletes a webhook and its delivery log, if it belongs to the user
+export async function deleteWebhook({
+  id,
+  userId,
+}: {
+  id: string;
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const deleted = await db
+      .delete(webhooks)
+      .where(and(eq(webhooks.id, id), eq(webhooks.user_id, userId)))
+      .returning({ id: webhooks.id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Failed to delete webhook from database");
+    throw error;
+  }
+}
+
+export async function createWebhookDelivery({
+  webhookId,
+  event,
+  payload,
+}: {
+  webhookId: string;
+  event: WebhookEvent;
+  payload: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [delivery] = await db
+      .insert(webhook_deliveries)
+      .values({ webhook_id: webhookId, event, payload })
+      .returning();
+    return delivery;
+  } catch (error) {
+    console.error("Failed to create webhook delivery in database");
+    throw error;
+  }
+}
+
+export async function updateWebhookDelivery({
+  id,
+  status,
+  attempts,
+  responseStatus,
+  error: deliveryError,
+  completedAt,
+}: {
+  id: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  completedAt?: Date;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(webhook_deliveries)
+      .set({
+        status,
+        attempts,
+        response_status: responseStatus,
+        error: deliveryError,
+        completed_at: completedAt,
+      })
+      .where(eq(webhook_deliveries.id, id));
+  } catch (error) {
+    console.error("Failed to update webhook delivery in database");
+    throw error;
+  }
+}
+
+// The user's most recent deliveries across all their webhooks
+export async function getWebhookDeliveriesByUserId({
+  userId,
+  limit,
+}: {
+  userId: string;
+  limit: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        id: webhook_deliveries.id,
+        webhookId: webhook_deliveries.webhook_id,
+        url: webhooks.url,
+        event: webhook_deliveries.event,
+        status: webhook_deliveries.status,
+        attempts: webhook_deliveries.attempts,
+        responseStatus: webhook_deliveries.response_status,
+        error: webhook_deliveries.error,
+        createdAt: webhook_deliveries.created_at,
+        completedAt: webhook_deliveries.completed_at,
+      })
+      .from(webhook_deliveries)
+      .innerJoin(webhooks, eq(webhooks.id, webhook_deliveries.webhook_id))
+      .where(eq(webhooks.user_id, userId))
+      .orderBy(desc(webhook_deliveries.created_at))
+      .limit(limit);
+  } catch (error) {
+    console.error("Failed to get webhook deliveries from database");
+    throw error;
+  }
+}
+
+// Team functions
+// Creates a team with the user as its owner
+export async function createTeam({
+  name,
+  userId,
+}: {
+  name: string;
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      const [team] = await tx.insert(teams).values({ name }).returning();
+      await tx
+        .insert(team_members)
+        .values({ team_id: team.id, user_id: userId, role: "owner" });
+      return team;
+    });
+  } catch (error) {
+    console.error("Failed to create team in database");
+    throw error;
+  }
+}
+
+export async function getTeamsByUserId({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        id: teams.id,
+        name: teams.name,
+        role: team_members.role,
+        createdAt: teams.created_at,
+      })
+      .from(team_members)
+      .innerJoin(teams, eq(teams.id, team_members.team_id))
+      .where(eq(team_members.user_id, userId))
+      .orderBy(teams.created_at);
+  } catch (error) {
+    console.error("Failed to get teams by user from database");
+    throw error;
+  }
+}
+
+export async function getTeamMembership({
+  teamId,
+  userId,
+}: {
+  teamId: string;
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [membership] = await db
+      .select({
+        teamId: teams.id,
+        name: teams.name,
+        role: team_members.role,
+      })
+      .from(team_members)
+      .innerJoin(teams, eq(teams.id, team_members.team_id))
+      .where(
+        and(eq(team_members.team_id, teamId), eq(team_members.user_id, userId)),
+      );
+    return membership;
+  } catch (error) {
+    console.error("Failed to get team membership from database");
+    throw error;
+  }
+}
+
+export async function getTeamMembers({ teamId }: { teamId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        userId: team_members.user_id,
+        email: users.email,
+        role: team_members.role,
+        joinedAt: team_members.created_at,
+      })
+      .from(team_members)
+      .innerJoin(users, eq(users.id, team_members.user_id))
+      .where(eq(team_members.team_id, teamId))
+      .orderBy(team_members.created_at);
+  } catch (error) {
+    console.error("Failed to get team members from database");
+    throw error;
+  }
+}
+
+export async function updateTeam({ id, name }: { id: string; name: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [team] = await db
+      .update(teams)
+      .set({ name })
+      .where(eq(teams.id, id))
+      .returning();
+    return team;
+  } catch (error) {
+    console.error("Failed to update team in database");
+    throw error;
+  }
+}
+
+// Deletes the team with its memberships and invites. Its chats go back to
+// being visible to their owners only.
+export async function deleteTeam({ id }: { id: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.delete(teams).where(eq(teams.id, id));
+  } catch (error) {
+    console.error("Failed to delete team from database");
+    throw error;
+  }
+}
+
+export async function updateTeamMemberRole({
+  teamId,
+  userId,
+  role,
+}: {
+  teamId: string;
+  userId: string;
+  role: TeamRole;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .update(team_members)
+      .set({ role })
+      .where(
+        and(eq(team_members.team_id, teamId), eq(team_members.user_id, userId)),
+      );
+  } catch (error) {
+    console.error("Failed to update team member role in database");
+    throw error;
+  }
+}
+
+// Removes a member. Chats they had shared with the team stop being shared.
+export async function removeTeamMember({
+  teamId,
+  userId,
+}: {
+  teamId: string;
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(chat_ownerships)
+        .set({ team_id: null })
+        .where(
+          and(
+            eq(chat_ownerships.team_id, teamId),
+            eq(chat_ownerships.user_id, userId),
+          ),
+        );
+      const removed = await tx
+        .delete(team_members)
+        .where(
+          and(
+            eq(team_members.team_id, teamId),
+            eq(team_members.user_id, userId),
+          ),
+        )
+        .returning({ userId: team_members.user_id });
+      return removed.length > 0;
+    });
+  } catch (error) {
+    console.error("Failed to remove team member from database");
+    throw error;
+  }
+}
+
+// Invites an email address, replacing any invite it still had pending
+export async function createTeamInvite({
+  teamId,
+  email,
+  role,
+  tokenHash,
+  invitedBy,
+  expiresAt,
+}: {
+  teamId: string;
+  email: string;
+  role: TeamRole;
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: Date;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(team_invites)
+        .where(
+          and(
+            eq(team_invites.team_id, teamId),
+            eq(team_invites.email, email),
+            isNull(team_invites.accepted_at),
+          ),
+        );
+      const [invite] = await tx
+        .insert(team_invites)
+        .values({
+          team_id: teamId,
+          email,
+          role,
+          token_hash: tokenHash,
+          invited_by: invitedBy,
+          expires_at: expiresAt,
+        })
+        .returning();
+      return invite;
+    });
+  } catch (error) {
+    console.error("Failed to create team invite in database");
+    throw error;
+  }
+}
+
+// Invites that haven't been accepted and haven't expired
+export async function getPendingTeamInvites({ teamId }: { teamId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select()
+      .from(team_invites)
+      .where(
+        and(
+          eq(team_invites.team_id, teamId),
+          isNull(team_invites.accepted_at),
+          gt(team_invites.expires_at, new Date()),
+        ),
+      )
+      .orderBy(desc(team_invites.created_at));
+  } catch (error) {
+    console.error("Failed to get team invites from database");
+    throw error;
+  }
+}
+
+export async function getTeamInviteByTokenHash({
+  tokenHash,
+}: {
+  tokenHash: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [invite] = await db
+      .select({
+        id: team_invites.id,
+        teamId: team_invites.team_id,
+        teamName: teams.name,
+        email: team_invites.email,
+        role: team_invites.role,
+        expiresAt: team_invites.expires_at,
+        acceptedAt: team_invites.accepted_at,
+      })
+      .from(team_invites)
+      .innerJoin(teams, eq(teams.id, team_invites.team_id))
+      .where(eq(team_invites.token_hash, tokenHash));
+    return invite;
+  } catch (error) {
+    console.error("Failed to get team invite from database");
+    throw error;
+  }
+}
+
+export async function deleteTeamInvite({
+  id,
+  teamId,
+}: {
+  id: string;
+  teamId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const deleted = await db
+      .delete(team_invites)
+      .where(and(eq(team_invites.id, id), eq(team_invites.team_id, teamId)))
+      .returning({ id: team_invites.id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Failed to delete team invite from database");
+    throw error;
+  }
+}
+
+// Marks the invite accepted and adds the user to its team. Returns false
+// when the invite was already used or has expired.
+export async function acceptTeamInvite({
+  inviteId,
+  userId,
+}: {
+  inviteId: string;
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.transaction(async (tx) => {
+      const [invite] = await tx
+        .update(team_invites)
+        .set({ accepted_at: new Date() })
+        .where(
+          and(
+            eq(team_invites.id, inviteId),
+            isNull(team_invites.accepted_at),
+            gt(team_invites.expires_at, new Date()),
+          ),
+        )
+        .returning();
+      if (!invite) {
+        return false;
+      }
+
+      // Existing members keep their role
+      await tx
+        .insert(team_members)
+        .values({ team_id: invite.team_id, user_id: userId, role: invite.role })
+        .onConflictDoNothing();
+      return true;
+    });
+  } catch (error) {
+    console.error("Failed to accept team invite in database");
+    throw error;
+  }
+}
+
+// Admin functions
+
+// Registered users with their chat count and message usage, for the admin
+// console. Guests are left out. Sorting by usage puts the users who sent the
+// most messages in the last 24 hours first.
+export async function getUsersWithUsage({
+  search,
+  sort = "recent",
+  limit,
+  offset = 0,
+}: {
+  search?: string;
+  sort?: "recent" | "usage";
+  limit: number;
+  offset?: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    const chatCounts = db
+      .select({
+        userId: chat_ownerships.user_id,
+        chatCount: count(chat_ownerships.id).as("chat_count"),
+      })
+      .from(chat_ownerships)
+      .groupBy(chat_ownerships.user_id)
+      .as("chat_counts");
+
+    const usage = db
+      .select({
+        userId: message_usage.user_id,
+        messageCount: count(message_usage.id).as("message_count"),
+        messagesToday:
+          sql<number>`count(*) filter (where ${message_usage.created_at} >= ${dayAgo.toISOString()})`.as(
+            "messages_today",
+          ),
+      })
+      .from(message_usage)
+      .where(notInArray(message_usage.outcome, uncountedOutcomes))
+      .groupBy(message_usage.user_id)
+      .as("usage");
+
+    const messagesToday = sql<number>`coalesce(${usage.messagesToday}, 0)`;
+    // Escape LIKE wildcards so the search matches literally
+    const pattern = search && `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
+    return await db
+      .select({
+        id: users.id,
+        email: users.email,
+        emailVerifiedAt: users.email_verified_at,
+        createdAt: users.created_at,
+        chatCount: sql<number>`coalesce(${chatCounts.chatCount}, 0)`.mapWith(
+          Number,
+        ),
+        messageCount: sql<number>`coalesce(${usage.messageCount}, 0)`.mapWith(
+          Number,
+        ),
+        messagesToday: messagesToday.mapWith(Number),
+        banId: bans.id,
+        hasEntitlementOverrides: sql<boolean>`${entitlement_overrides.user_id} is not null`,
+      })
+      .from(users)
+      .leftJoin(chatCounts, eq(chatCounts.userId, users.id))
+      .leftJoin(usage, eq(usage.userId, users.id))
+      .leftJoin(bans, eq(bans.user_id, users.id))
+      .leftJoin(
+        entitlement_overrides,
+        eq(entitlement_overrides.user_id, users.id),
+      )
+      .where(
+        and(
+          notLike(users.email, "guest-%"),
+          pattern ? ilike(users.email, pattern) : undefined,
+        ),
+      )
+      .orderBy(
+        ...(sort === "usage" ? [desc(messagesToday)] : []),
+        desc(users.created_at),
+      )
+      .limit(limit)
+      .offset(offset);
+  } catch (error) {
+    console.error("Failed to get users with usage from database");
+    throw error;
+  }
+}
+
+// Client addresses that created the most anonymous chats since the given
+// time, with whether each is banned
+export async function getTopAnonymousIPs({
+  since,
+  limit,
+}: {
+  since: Date;
+  limit: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const chatCount = count(anonymous_chat_logs.id);
+
+    return await db
+      .select({
+        ipAddress: anonymous_chat_logs.ip_address,
+        chatCount,
+        lastSeenAt: max(anonymous_chat_logs.created_at),
+        banId: bans.id,
+      })
+      .from(anonymous_chat_logs)
+      .leftJoin(bans, eq(bans.ip_address, anonymous_chat_logs.ip_address))
+      .where(gte(anonymous_chat_logs.created_at, since))
+      .groupBy(anonymous_chat_logs.ip_address, bans.id)
+      .orderBy(desc(chatCount))
+      .limit(limit);
+  } catch (error) {
+    console.error("Failed to get top anonymous IPs from database");
+    throw error;
+  }
+}
+
+// Bans a user or an IP address. Returns undefined when it's already banned.
+export async function createBan({
+  userId,
+  ipAddress,
+  reason,
+  createdBy,
+}: {
+  userId?: string;
+  ipAddress?: string;
+  reason?: string;
+  createdBy: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [ban] = await db
+      .insert(bans)
+      .values({
+        user_id: userId,
+        ip_address: ipAddress,
+        reason,
+        created_by: createdBy,
+      })
+      .onConflictDoNothing()
+      .returning();
+    return ban;
+  } catch (error) {
+    console.error("Failed to create ban in database");
+    throw error;
+  }
+}
+
+export async function getBans() {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        id: bans.id,
+        userId: bans.user_id,
+        email: users.email,
+        ipAddress: bans.ip_address,
+        reason: bans.reason,
+        createdAt: bans.created_at,
+      })
+      .from(bans)
+      .leftJoin(users, eq(users.id, bans.user_id))
+      .orderBy(desc(bans.created_at));
+  } catch (error) {
+    console.error("Failed to get bans from database");
+    throw error;
+  }
+}
+
+// Lifts a ban, returning it so the audit trail can name what was unbanned
+export async function deleteBan({ id }: { id: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [ban] = await db.delete(bans).where(eq(bans.id, id)).returning();
+    return ban;
+  } catch (error) {
+    console.error("Failed to delete ban from database");
+    throw error;
+  }
+}
+
+// Whether the user or the client address is banned
+export async function isBanned({
+  userId,
+  ipAddress,
+}: {
+  userId?: string;
+  ipAddress?: string | null;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const conditions = [
+      ...(userId ? [eq(bans.user_id, userId)] : []),
+      ...(ipAddress ? [eq(bans.ip_address, ipAddress)] : []),
+    ];
+    if (conditions.length === 0) {
+      return false;
+    }
+
+    const [ban] = await db
+      .select({ id: bans.id })
+      .from(bans)
+      .where(or(...conditions))
+      .limit(1);
+    return Boolean(ban);
+  } catch (error) {
+    console.error("Failed to check bans in database");
+    throw error;
+  }
+}
+
+export async function getEntitlementOverride({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [override] = await db
+      .select()
+      .from(entitlement_overrides)
+      .where(eq(entitlement_overrides.user_id, userId));
+    return override;
+  } catch (error) {
+    console.error("Failed to get entitlement override from database");
+    throw error;
+  }
+}
+
+// Replaces the user's overrides. Null values keep the default.
+export async function setEntitlementOverride({
+  userId,
+  maxMessagesPerDay,
+  maxAttachmentSize,
+  maxWebhooks,
+  maxTeams,
+  updatedBy,
+}: {
+  userId: string;
+  maxMessagesPerDay: number | null;
+  maxAttachmentSize: number | null;
+  maxWebhooks: number | null;
+  maxTeams: number | null;
+  updatedBy: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const values = {
+      max_messages_per_day: maxMessagesPerDay,
+      max_attachment_size: maxAttachmentSize,
+      max_webhooks: maxWebhooks,
+      max_teams: maxTeams,
+      updated_by: updatedBy,
+      updated_at: new Date(),
+    };
+
+    const [override] = await db
+      .insert(entitlement_overrides)
+      .values({ user_id: userId, ...values })
+      .onConflictDoUpdate({
+        target: entitlement_overrides.user_id,
+        set: values,
+      })
+      .returning();
+    return override;
+  } catch (error) {
+    console.error("Failed to set entitlement override in database");
+    throw error;
+  }
+}
+
+export async function deleteEntitlementOverride({
+  userId,
+}: {
+  userId: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const deleted = await db
+      .delete(entitlement_overrides)
+      .where(eq(entitlement_overrides.user_id, userId))
+      .returning({ userId: entitlement_overrides.user_id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Failed to delete entitlement override from database");
+    throw error;
+  }
+}
+
+export async function createAdminAuditLog({
+  adminId,
+  action,
+  target,
+  details,
+}: {
+  adminId: string;
+  action: AdminAction;
+  target: string;
+  details?: Record<string, unknown>;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db.insert(admin_audit_logs).values({
+      admin_id: adminId,
+      action,
+      target,
+      details: details && JSON.stringify(details),
+    });
+  } catch (error) {
+    console.error("Failed to create admin audit log in database");
+    throw error;
+  }
+}
+
+export async function getAdminAuditLogs({
+  limit,
+  offset = 0,
+}: {
+  limit: number;
+  offset?: number;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    return await db
+      .select({
+        id: admin_audit_logs.id,
+        adminEmail: users.email,
+        action: admin_audit_logs.action,
+        target: admin_audit_logs.target,
+        details: admin_audit_logs.details,
+        createdAt: admin_audit_logs.created_at,
+      })
+      .from(admin_audit_logs)
+      .leftJoin(users, eq(users.id, admin_audit_logs.admin_id))
+      .orderBy(desc(admin_audit_logs.created_at))
+      .limit(limit)
+      .offset(offset);
+  } catch (error) {
+    console.error("Failed to get admin audit logs from database");
+    throw error;
+  }
+}
+
+// Personal v0 API key functions
+
+export async function getV0ApiKey({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const [key] = await db
+      .select()
+      .from(v0_api_keys)
+      .where(eq(v0_api_keys.user_id, userId));
+    return key;
+  } catch (error) {
+    console.error("Failed to get v0 API key from database");
+    throw error;
+  }
+}
+
+export async function setV0ApiKey({
+  userId,
+  encryptedKey,
+  keyHint,
+}: {
+  userId: string;
+  encryptedKey: string;
+  keyHint: string;
+}) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const values = {
+      encrypted_key: encryptedKey,
+      key_hint: keyHint,
+      updated_at: new Date(),
+    };
+
+    const [key] = await db
+      .insert(v0_api_keys)
+      .values({ user_id: userId, ...values })
+      .onConflictDoUpdate({ target: v0_api_keys.user_id, set: values })
+      .returning();
+    return key;
+  } catch (error) {
+    console.error("Failed to save v0 API key in database");
+    throw error;
+  }
+}
+
+export async function deleteV0ApiKey({ userId }: { userId: string }) {
+  try {
+    if (!db) {
+      throw new Error("Database not initialized");
+    }
+    const deleted = await db
+      .delete(v0_api_keys)
+      .where(eq(v0_api_keys.user_id, userId))
+      .returning({ userId: v0_api_keys.user_id });
+    return deleted.length > 0;
+  } catch (error) {
+    console.error("Failed to delete v0 API key from database");
+    throw error;
+  }
+}
@@ -1,15 +1,161 @@
 import type { InferSelectModel } from "drizzle-orm";
-import { pgTable, timestamp, unique, uuid, varchar } from "drizzle-orm/pg-core";
+import {
+  type AnyPgColumn,
+  index,
+  integer,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  unique,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   email: varchar("email", { length: 64 }).notNull(),
   password: varchar("password", { length: 64 }),
+  // Unverified accounts get guest entitlements
+  email_verified_at: timestamp("email_verified_at"),
   created_at: timestamp("created_at").notNull().defaultNow(),
 });
 
 export type User = InferSelectModel<typeof users>;
 
+export const authTokenTypeValues = [
+  "email_verification",
+  "password_reset",
+] as const;
+
+export type AuthTokenType = (typeof authTokenTypeValues)[number];
+
+// Single-use tokens emailed to users to verify their address or reset their
+// password. Only a hash of each token is stored.
+export const auth_tokens = pgTable(
+  "auth_tokens",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 32, enum: authTokenTypeValues }).notNull(),
+    token_hash: varchar("token_hash", { length: 64 }).notNull(),
+    expires_at: timestamp("expires_at").notNull(),
+    used_at: timestamp("used_at"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    unique_token_hash: unique().on(table.token_hash),
+    user_type_idx: index("auth_tokens_user_type_idx").on(
+      table.user_id,
+      table.type,
+    ),
+  }),
+);
+
+export type AuthToken = InferSelectModel<typeof auth_tokens>;
+
+export const oauthProviderValues = ["github", "google"] as const;
+
+export type OAuthProvider = (typeof oauthProviderValues)[number];
+
+// Provider identities a user can sign in with besides their password. Users
+// created through a provider have no password.
+export const accounts = pgTable(
+  "accounts",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    provider: varchar("provider", {
+      length: 32,
+      enum: oauthProviderValues,
+    }).notNull(),
+    // The user's ID at the provider
+    provider_account_id: varchar("provider_account_id", {
+      length: 255,
+    }).notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    unique_provider_account: unique().on(
+      table.provider,
+      table.provider_account_id,
+    ),
+    // One identity per provider for each user
+    unique_user_provider: unique().on(table.user_id, table.provider),
+  }),
+);
+
+export type Account = InferSelectModel<typeof accounts>;
+
+// Teams share chats whose privacy is "team" (members can read them) or
+// "team-edit" (members can also send messages to them)
+export const teams = pgTable("teams", {
+  id: uuid("id").primaryKey().notNull().defaultRandom(),
+  name: varchar("name", { length: 64 }).notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type Team = InferSelectModel<typeof teams>;
+
+export const teamRoleValues = ["owner", "admin", "member"] as const;
+
+export type TeamRole = (typeof teamRoleValues)[number];
+
+export const team_members = pgTable(
+  "team_members",
+  {
+    team_id: uuid("team_id")
+      .notNull()
+      .references(() => teams.id, { onDelete: "cascade" }),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    role: varchar("role", { length: 16, enum: teamRoleValues }).notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.team_id, table.user_id] }),
+    user_idx: index("team_members_user_idx").on(table.user_id),
+  }),
+);
+
+export type TeamMember = InferSelectModel<typeof team_members>;
+
+// Emailed invitations to join a team. Only a hash of the invite token is
+// stored, like auth tokens.
+export const team_invites = pgTable(
+  "team_invites",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    team_id: uuid("team_id")
+      .notNull()
+      .references(() => teams.id, { onDelete: "cascade" }),
+    email: varchar("email", { length: 64 }).notNull(),
+    // Owners aren't invited; each team has the one who created it
+    role: varchar("role", { length: 16, enum: teamRoleValues }).notNull(),
+    token_hash: varchar("token_hash", { length: 64 }).notNull(),
+    invited_by: uuid("invited_by")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    expires_at: timestamp("expires_at").notNull(),
+    accepted_at: timestamp("accepted_at"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    unique_token_hash: unique().on(table.token_hash),
+    team_email_idx: index("team_invites_team_email_idx").on(
+      table.team_id,
+      table.email,
+    ),
+  }),
+);
+
+export type TeamInvite = InferSelectModel<typeof team_invites>;
+
 // Simple ownership mapping for v0 chats
 // The actual chat data lives in v0 API, we just track who owns what
 export const chat_ownerships = pgTable(
@@ -20,22 +166,344 @@ export const chat_ownerships = pgTable(
     user_id: uuid("user_id")
       .notNull()
       .references(() => users.id),
+    // Source chat when this chat was forked from another user's chat
+    forked_from: varchar("forked_from", { length: 255 }),
+    // Chat this one branched off from when the user edited one of its
+    // earlier prompts
+    parent_chat_id: varchar("parent_chat_id", { length: 255 }),
+    // Team whose members get access under "team" and "team-edit" privacy
+    team_id: uuid("team_id").references(() => teams.id, {
+      onDelete: "set null",
+    }),
+    // Set when the chat was imported from a guest or anonymous session
+    claimed_at: timestamp("claimed_at"),
+    // The user whose personal v0 API key the chat was created with, which
+    // it has to be read and continued with. Null for the shared key.
+    v0_key_user_id: uuid("v0_key_user_id").references(() => users.id),
     created_at: timestamp("created_at").notNull().defaultNow(),
   },
   (table) => ({
     // Ensure each v0 chat can only be owned by one user
     unique_v0_chat: unique().on(table.v0_chat_id),
+    team_idx: index("chat_ownerships_team_idx").on(table.team_id),
   }),
 );
 
 export type ChatOwnership = InferSelectModel<typeof chat_ownerships>;
 
+export const chatPrivacyValues = [
+  "public",
+  "private",
+  "team",
+  "team-edit",
+  "unlisted",
+] as const;
+
+export type ChatPrivacy = (typeof chatPrivacyValues)[number];
+
+// Local mirror of v0 chat metadata, kept in sync on create, send, fork,
+// rename and delete so chat lists can be served without calling v0
+export const chats = pgTable(
+  "chats",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    v0_chat_id: varchar("v0_chat_id", { length: 255 }).notNull(), // v0 API chat ID
+    name: varchar("name", { length: 255 }),
+    privacy: varchar("privacy", { length: 16, enum: chatPrivacyValues })
+      .notNull()
+      .default("private"),
+    demo_url: text("demo_url"),
+    message_count: integer("message_count").notNull().default(0),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    updated_at: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    unique_v0_chat: unique().on(table.v0_chat_id),
+  }),
+);
+
+export type Chat = InferSelectModel<typeof chats>;
+
 // Track anonymous chat creation by IP for rate limiting
 export const anonymous_chat_logs = pgTable("anonymous_chat_logs", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
-  ip_address: varchar("ip_address", { length: 45 }).notNull(), // IPv6 can be up to 45 chars
+  ip_address: varchar("ip_address", { length: 45 }).notNull(), // IP or IPv6 /64 prefix
   v0_chat_id: varchar("v0_chat_id", { length: 255 }).notNull(), // v0 API chat ID
   created_at: timestamp("created_at").notNull().defaultNow(),
 });
 
 export type AnonymousChatLog = InferSelectModel<typeof anonymous_chat_logs>;
+
+export const messageUsageOutcomeValues = [
+  "pending",
+  "success",
+  "error",
+  // Stopped by the user before the response finished
+  "cancelled",
+] as const;
+
+export type MessageUsageOutcome = (typeof messageUsageOutcomeValues)[number];
+
+// One row per message sent to v0 (chat create or sendMessage), used to
+// enforce daily message limits for users and anonymous IPs
+export const message_usage = pgTable(
+  "message_usage",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    user_id: uuid("user_id").references(() => users.id), // null for anonymous
+    // Client IP or IPv6 /64 prefix, null if it couldn't be resolved
+    ip_address: varchar("ip_address", { length: 45 }),
+    v0_chat_id: varchar("v0_chat_id", { length: 255 }), // null until v0 assigns one
+    attachment_count: integer("attachment_count").notNull().default(0),
+    outcome: varchar("outcome", { length: 16, enum: messageUsageOutcomeValues })
+      .notNull()
+      .default("pending"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    user_created_idx: index("message_usage_user_created_idx").on(
+      table.user_id,
+      table.created_at,
+    ),
+    ip_created_idx: index("message_usage_ip_created_idx").on(
+      table.ip_address,
+      table.created_at,
+    ),
+  }),
+);
+
+export type MessageUsage = InferSelectModel<typeof message_usage>;
+
+// Fixed-window hit counters for the Postgres rate limit backend
+export const rate_limit_counters = pgTable(
+  "rate_limit_counters",
+  {
+    key: varchar("key", { length: 255 }).notNull(),
+    window_start: timestamp("window_start").notNull(),
+    count: integer("count").notNull().default(0),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.key, table.window_start] }),
+  }),
+);
+
+export const generationStatusValues = [
+  "streaming",
+  "completed",
+  "failed",
+  "stopped",
+] as const;
+
+export type GenerationStatus = (typeof generationStatusValues)[number];
+
+// One row per streamed or synchronous v0 response. The server reads its own
+// copy of each stream, so completion is recorded even if the browser goes
+// away mid-generation.
+export const generations = pgTable(
+  "generations",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    v0_chat_id: varchar("v0_chat_id", { length: 255 }), // null until v0 assigns one
+    user_id: uuid("user_id").references(() => users.id), // null for anonymous
+    message_usage_id: uuid("message_usage_id").references(
+      () => message_usage.id,
+    ),
+    status: varchar("status", { length: 16, enum: generationStatusValues })
+      .notNull()
+      .default("streaming"),
+    // The assistant message and version v0 produced
+    v0_message_id: varchar("v0_message_id", { length: 255 }),
+    content: text("content"),
+    v0_version_id: varchar("v0_version_id", { length: 255 }),
+    demo_url: text("demo_url"),
+    // For regenerated responses, the first generation answering the same
+    // prompt. Its alternatives are shown alongside it.
+    alternative_of: uuid("alternative_of").references(
+      (): AnyPgColumn => generations.id,
+    ),
+    started_at: timestamp("started_at").notNull().defaultNow(),
+    completed_at: timestamp("completed_at"),
+    duration_ms: integer("duration_ms"),
+  },
+  (table) => ({
+    chat_started_idx: index("generations_chat_started_idx").on(
+      table.v0_chat_id,
+      table.started_at,
+    ),
+  }),
+);
+
+export type Generation = InferSelectModel<typeof generations>;
+
+export const webhookEventValues = [
+  "chat.created",
+  "generation.completed",
+  "chat.visibility_changed",
+  "chat.forked",
+  "chat.deleted",
+] as const;
+
+export type WebhookEvent = (typeof webhookEventValues)[number];
+
+// Endpoints a user has registered to be told about their chats. Each
+// delivery is signed with the webhook's secret.
+export const webhooks = pgTable(
+  "webhooks",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    user_id: uuid("user_id")
+      .notNull()
+      .references(() => users.id),
+    url: text("url").notNull(),
+    secret: varchar("secret", { length: 64 }).notNull(),
+    events: varchar("events", { length: 32, enum: webhookEventValues })
+      .array()
+      .notNull(),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    user_idx: index("webhooks_user_idx").on(table.user_id),
+  }),
+);
+
+export type Webhook = InferSelectModel<typeof webhooks>;
+
+export const webhookDeliveryStatusValues = [
+  "pending",
+  "succeeded",
+  "failed",
+] as const;
+
+export type WebhookDeliveryStatus =
+  (typeof webhookDeliveryStatusValues)[number];
+
+// One row per event sent to a webhook, updated as it's attempted. Kept as
+// the delivery log shown in settings.
+export const webhook_deliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    webhook_id: uuid("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 32, enum: webhookEventValues }).notNull(),
+    payload: text("payload").notNull(),
+    status: varchar("status", { length: 16, enum: webhookDeliveryStatusValues })
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    // The last attempt's HTTP status, or its error if there was no response
+    response_status: integer("response_status"),
+    error: text("error"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+    completed_at: timestamp("completed_at"),
+  },
+  (table) => ({
+    webhook_created_idx: index("webhook_deliveries_webhook_created_idx").on(
+      table.webhook_id,
+      table.created_at,
+    ),
+  }),
+);
+
+export type WebhookDelivery = InferSelectModel<typeof webhook_deliveries>;
+
+// Users and client addresses blocked by an admin. A ban has either a user or
+// an IP address (an IPv6 /64 prefix, as bucketed for rate limiting).
+export const bans = pgTable(
+  "bans",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    user_id: uuid("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    ip_address: varchar("ip_address", { length: 45 }),
+    reason: text("reason"),
+    // The admin who created the ban
+    created_by: uuid("created_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    unique_user: unique().on(table.user_id),
+    unique_ip_address: unique().on(table.ip_address),
+  }),
+);
+
+export type Ban = InferSelectModel<typeof bans>;
+
+// Per-user entitlements set by an admin. Null columns keep the value from
+// the user's type.
+export const entitlement_overrides = pgTable("entitlement_overrides", {
+  user_id: uuid("user_id")
+    .primaryKey()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  max_messages_per_day: integer("max_messages_per_day"),
+  // In bytes
+  max_attachment_size: integer("max_attachment_size"),
+  max_webhooks: integer("max_webhooks"),
+  max_teams: integer("max_teams"),
+  updated_by: uuid("updated_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type EntitlementOverride = InferSelectModel<
+  typeof entitlement_overrides
+>;
+
+export const adminActionValues = [
+  "user.banned",
+  "ip.banned",
+  "ban.removed",
+  "entitlements.updated",
+  "entitlements.reset",
+  "chat.deleted",
+] as const;
+
+export type AdminAction = (typeof adminActionValues)[number];
+
+// Audit trail of everything done from the admin console. Entries outlive
+// the admin who made them.
+export const admin_audit_logs = pgTable(
+  "admin_audit_logs",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    admin_id: uuid("admin_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    action: varchar("action", {
+      length: 32,
+      enum: adminActionValues,
+    }).notNull(),
+    // The user ID, IP address or chat ID acted on
+    target: varchar("target", { length: 255 }).notNull(),
+    // JSON with the action's details, such as a ban reason or the new
+    // entitlements
+    details: text("details"),
+    created_at: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => ({
+    created_idx: index("admin_audit_logs_created_idx").on(table.created_at),
+  }),
+);
+
+export type AdminAuditLog = InferSelectModel<typeof admin_audit_logs>;
+
+// A user's own v0 API key, encrypted with AES-256-GCM. Only the last few
+// characters are kept in the clear, to show which key is saved.
+export const v0_api_keys = pgTable("v0_api_keys", {
+  user_id: uuid("user_id")
+    .primaryKey()
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  encrypted_key: text("encrypted_key").notNull(),
+  key_hint: varchar("key_hint", { length: 8 }).notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type V0ApiKey = InferSelectModel<typeof v0_api_keys>;
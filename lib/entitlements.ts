@@ -1,15 +1,47 @@
 import type { UserType } from "@/app/(auth)/auth";
+import { getEntitlementOverride } from "@/lib/db/queries";
 
-interface Entitlements {
+export interface Entitlements {
   maxMessagesPerDay: number;
+  // Largest attachment that can be uploaded, in bytes
+  maxAttachmentSize: number;
+  attachmentTypes: string[];
+  // Webhooks the user can register
+  maxWebhooks: number;
+  // Teams the user can create
+  maxTeams: number;
 }
 
+const MB = 1024 * 1024;
+
+const imageAttachmentTypes = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+// PDFs, plain text, Markdown, CSV, JSON and source files
+const documentAttachmentTypes = [
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+  "application/json",
+];
+
+const archiveAttachmentTypes = ["application/zip"];
+
 export const entitlementsByUserType: Record<UserType, Entitlements> = {
   /*
    * For users without an account (anonymous)
    */
   guest: {
     maxMessagesPerDay: 5,
+    maxAttachmentSize: 5 * MB,
+    attachmentTypes: [...imageAttachmentTypes, ...documentAttachmentTypes],
+    maxWebhooks: 0,
+    maxTeams: 0,
   },
 
   /*
@@ -17,10 +49,70 @@ export const entitlementsByUserType: Record<UserType, Entitlements> = {
    */
   regular: {
     maxMessagesPerDay: 50,
+    maxAttachmentSize: 10 * MB,
+    attachmentTypes: [
+      ...imageAttachmentTypes,
+      ...documentAttachmentTypes,
+      ...archiveAttachmentTypes,
+    ],
+    maxWebhooks: 5,
+    maxTeams: 5,
+  },
+
+  /*
+   * For admins, who try things out while looking into reports
+   */
+  admin: {
+    maxMessagesPerDay: 200,
+    maxAttachmentSize: 10 * MB,
+    attachmentTypes: [
+      ...imageAttachmentTypes,
+      ...documentAttachmentTypes,
+      ...archiveAttachmentTypes,
+    ],
+    maxWebhooks: 5,
+    maxTeams: 5,
   },
 };
 
 // For anonymous users (no session)
 export const anonymousEntitlements: Entitlements = {
   maxMessagesPerDay: 3,
+  maxAttachmentSize: 2 * MB,
+  attachmentTypes: [...imageAttachmentTypes, ...documentAttachmentTypes],
+  maxWebhooks: 0,
+  maxTeams: 0,
 };
+
+// Accounts get guest entitlements until their email is verified
+export function getEntitlements(user: {
+  type: UserType;
+  verified: boolean;
+}): Entitlements {
+  return entitlementsByUserType[
+    user.type === "regular" && !user.verified ? "guest" : user.type
+  ];
+}
+
+// A user's entitlements, with any limits an admin overrode for them
+export async function getUserEntitlements(user: {
+  id: string;
+  type: UserType;
+  verified: boolean;
+}): Promise<Entitlements> {
+  const entitlements = getEntitlements(user);
+  const override = await getEntitlementOverride({ userId: user.id });
+  if (!override) {
+    return entitlements;
+  }
+
+  return {
+    ...entitlements,
+    maxMessagesPerDay:
+      override.max_messages_per_day ?? entitlements.maxMessagesPerDay,
+    maxAttachmentSize:
+      override.max_attachment_size ?? entitlements.maxAttachmentSize,
+    maxWebhooks: override.max_webhooks ?? entitlements.maxWebhooks,
+    maxTeams: override.max_teams ?? entitlements.maxTeams,
+  };
+}
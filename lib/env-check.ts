@@ -5,13 +5,17 @@ export interface MissingEnvVar {
   required: boolean;
 }
 
+// The local v0 emulator (V0_EMULATOR=true) stands in for the v0 API, so no
+// API key is needed while it is enabled
+const isV0EmulatorEnabled = process.env.V0_EMULATOR === "true";
+
 export function checkRequiredEnvVars(): MissingEnvVar[] {
   const requiredVars: MissingEnvVar[] = [
     {
       name: "V0_API_KEY",
       description: "Your v0 API key for generating apps",
       example: "v0_sk_...",
-      required: true,
+      required: !isV0EmulatorEnabled,
     },
     {
       name: "AUTH_SECRET",
@@ -28,6 +32,9 @@ export function checkRequiredEnvVars(): MissingEnvVar[] {
   ];
 
   const missing = requiredVars.filter((envVar) => {
+    if (!envVar.required) {
+      return false;
+    }
     const value = process.env[envVar.name];
     return !value || value.trim() === "";
   });
@@ -40,7 +47,7 @@ export function hasAllRequiredEnvVars(): boolean {
 }
 
 export const hasEnvVars = !!(
-  process.env.V0_API_KEY &&
+  (process.env.V0_API_KEY || isV0EmulatorEnabled) &&
   process.env.AUTH_SECRET &&
   process.env.POSTGRES_URL
 );
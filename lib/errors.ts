@@ -4,7 +4,8 @@ export type ErrorType =
   | "forbidden"
   | "not_found"
   | "rate_limit"
-  | "offline";
+  | "offline"
+  | "internal";
 
 export type Surface =
   | "chat"
@@ -15,7 +16,15 @@ export type Surface =
   | "history"
   | "vote"
   | "document"
-  | "suggestions";
+  | "suggestions"
+  | "fork"
+  | "visibility"
+  | "attachment"
+  | "webhook"
+  | "account"
+  | "team"
+  | "admin"
+  | "api_key";
 
 export type ErrorCode = `${ErrorType}:${Surface}`;
 
@@ -31,6 +40,14 @@ export const visibilityBySurface: Record<Surface, ErrorVisibility> = {
   vote: "response",
   document: "response",
   suggestions: "response",
+  fork: "response",
+  visibility: "response",
+  attachment: "response",
+  webhook: "response",
+  account: "response",
+  team: "response",
+  admin: "response",
+  api_key: "response",
 };
 
 export class ChatSDKError extends Error {
@@ -56,6 +73,13 @@ export class ChatSDKError extends Error {
 
     const { message, cause, statusCode } = this;
 
+    // Internal errors are logged with their cause, which may contain details
+    // that shouldn't reach the client
+    if (this.type === "internal") {
+      console.error({ code, message, cause });
+      return Response.json({ code, message }, { status: statusCode });
+    }
+
     if (visibility === "log") {
       console.error({
         code,
@@ -87,6 +111,8 @@ export function getMessageByErrorCode(errorCode: ErrorCode): string {
     case "forbidden:auth":
       return "Your account does not have access to this feature.";
 
+    case "bad_request:chat":
+      return "Your message couldn't be sent. Please check it and try again.";
     case "rate_limit:chat":
       return "You have exceeded your maximum number of messages for the day. Please try again later.";
     case "not_found:chat":
@@ -97,6 +123,92 @@ export function getMessageByErrorCode(errorCode: ErrorCode): string {
       return "You need to sign in to view this chat. Please sign in and try again.";
     case "offline:chat":
       return "We're having trouble sending your message. Please check your internet connection and try again.";
+    case "internal:chat":
+      return "Something went wrong while processing your message. Please try again.";
+
+    case "not_found:stream":
+      return "The generation was not found. It may have already finished.";
+    case "internal:stream":
+      return "We couldn't stop the response. Please try again.";
+
+    case "internal:history":
+      return "We couldn't load your chats. Please try again later.";
+
+    case "not_found:fork":
+      return "The chat you tried to fork was not found.";
+    case "forbidden:fork":
+      return "This chat is private and can't be forked.";
+    case "unauthorized:fork":
+      return "You need to sign in to fork this chat.";
+    case "internal:fork":
+      return "We couldn't fork this chat. Please try again.";
+
+    case "bad_request:visibility":
+      return "That visibility setting isn't supported. Please choose another one.";
+    case "unauthorized:visibility":
+      return "You need to sign in to change who can see this chat.";
+    case "internal:visibility":
+      return "We couldn't change this chat's visibility. Please try again.";
+
+    case "bad_request:attachment":
+      return "One or more attachments couldn't be used. Please check them and try again.";
+    case "forbidden:attachment":
+      return "This attachment link is invalid or has expired.";
+    case "not_found:attachment":
+      return "The requested attachment was not found.";
+    case "internal:attachment":
+      return "We couldn't process your attachments. Please try again.";
+
+    case "bad_request:webhook":
+      return "The webhook couldn't be saved. Please check it and try again.";
+    case "unauthorized:webhook":
+      return "You need to sign in to manage webhooks.";
+    case "forbidden:webhook":
+      return "Create an account and verify your email to use webhooks.";
+    case "not_found:webhook":
+      return "The webhook was not found.";
+    case "internal:webhook":
+      return "We couldn't load or update your webhooks. Please try again.";
+
+    case "bad_request:account":
+      return "This sign-in method can't be removed.";
+    case "unauthorized:account":
+      return "You need to sign in to manage connected accounts.";
+    case "not_found:account":
+      return "That provider isn't linked to your account.";
+    case "internal:account":
+      return "We couldn't load or update your connected accounts. Please try again.";
+
+    case "bad_request:team":
+      return "The team couldn't be updated. Please check it and try again.";
+    case "unauthorized:team":
+      return "You need to sign in to use teams.";
+    case "forbidden:team":
+      return "You don't have permission to do that in this team.";
+    case "not_found:team":
+      return "The team was not found.";
+    case "internal:team":
+      return "We couldn't load or update your teams. Please try again.";
+
+    case "bad_request:admin":
+      return "The admin request was invalid. Please check it and try again.";
+    case "unauthorized:admin":
+      return "You need to sign in to use the admin console.";
+    case "forbidden:admin":
+      return "Only admins can use the admin console.";
+    case "not_found:admin":
+      return "The user, ban or chat was not found.";
+    case "internal:admin":
+      return "The admin action failed. Please try again.";
+
+    case "bad_request:api_key":
+      return "v0 didn't accept this API key. Please check it and try again.";
+    case "unauthorized:api_key":
+      return "You need to sign in to use your own v0 API key.";
+    case "not_found:api_key":
+      return "You haven't saved a v0 API key.";
+    case "internal:api_key":
+      return "We couldn't load or update your v0 API key. Please try again.";
 
     case "not_found:document":
       return "The requested document was not found. Please check the document ID and try again.";
@@ -126,6 +238,8 @@ function getStatusCodeByType(type: ErrorType) {
       return 429;
     case "offline":
       return 503;
+    case "internal":
+      return 500;
     default:
       return 500;
   }
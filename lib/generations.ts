@@ -0,0 +1,65 @@
+import type { UserType } from "@/app/(auth)/auth";
+import { assertOk } from "./api-errors";
+
+// Streamed responses carry the ID of their generation, which is what the
+// browser uses to stop it
+export const GENERATION_ID_HEADER = "X-Generation-Id";
+
+// The chat a streamed response belongs to, which differs from the requested
+// one when an edited prompt branched the chat
+export const CHAT_ID_HEADER = "X-Chat-Id";
+
+interface StoppableMessage {
+  type: "user" | "assistant";
+  content: unknown;
+  isStreaming?: boolean;
+  stream?: ReadableStream<Uint8Array> | null;
+  stopped?: boolean;
+}
+
+export async function stopGeneration(
+  generationId: string,
+  options?: { userType?: UserType },
+): Promise<void> {
+  const response = await fetch("/api/chat/stop", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ generationId }),
+  });
+
+  await assertOk(response, options);
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+// Ends the streaming assistant message with what had arrived so far, or adds
+// an empty one if the response hadn't started yet
+export function markResponseStopped<T extends StoppableMessage>(
+  history: T[],
+  partialContent: T["content"],
+): T[] {
+  const last = history.at(-1);
+
+  if (last?.type === "assistant" && last.isStreaming) {
+    return [
+      ...history.slice(0, -1),
+      {
+        ...last,
+        content: partialContent,
+        isStreaming: false,
+        stream: undefined,
+        stopped: true,
+      },
+    ];
+  }
+
+  if (last?.type === "user") {
+    return [...history, { type: "assistant", content: [], stopped: true } as T];
+  }
+
+  return history;
+}
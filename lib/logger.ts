@@ -0,0 +1,175 @@
+import "server-only";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash, randomUUID } from "node:crypto";
+
+/*
+ * Structured logger for API routes. Each line is a JSON object carrying the
+ * current request's ID, route and user type. Configure with:
+ *
+ * - LOG_LEVEL: debug, info (default), warn or error
+ * - LOG_REDACTION: how values passed through `redact` (prompts, attachments,
+ *   emails) are logged: redact (default), hash, or off
+ */
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+type RedactionMode = "redact" | "hash" | "off";
+
+type LogFields = Record<string, unknown>;
+
+interface V0CallTiming {
+  call: string;
+  durationMs: number;
+  ok: boolean;
+}
+
+interface RequestContext {
+  requestId: string;
+  route: string;
+  userType?: string;
+  v0Calls: V0CallTiming[];
+}
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const REQUEST_ID_HEADER = "X-Request-Id";
+
+function parseLogLevel(value: string | undefined): LogLevel {
+  return value && value in LOG_LEVELS ? (value as LogLevel) : "info";
+}
+
+function parseRedactionMode(value: string | undefined): RedactionMode {
+  return value === "hash" || value === "off" ? value : "redact";
+}
+
+const minLevel = LOG_LEVELS[parseLogLevel(process.env.LOG_LEVEL)];
+const redactionMode = parseRedactionMode(process.env.LOG_REDACTION);
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return error;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LOG_LEVELS[level] < minLevel) {
+    return;
+  }
+
+  const context = requestContext.getStore();
+  const entry = {
+    level,
+    time: new Date().toISOString(),
+    msg: message,
+    ...(context && {
+      requestId: context.requestId,
+      route: context.route,
+      userType: context.userType,
+    }),
+    ...fields,
+    ...("error" in fields && { error: serializeError(fields.error) }),
+  };
+
+  const line = JSON.stringify(entry);
+
+  if (level === "error") {
+    console.error(line);
+  } else if (level === "warn") {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) =>
+    write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) =>
+    write("error", message, fields),
+};
+
+// Masks sensitive values such as prompt text, attachments and emails
+// according to LOG_REDACTION. Hashes let equal values be correlated across
+// log lines without revealing them.
+export function redact(value: unknown): unknown {
+  if (value === undefined || value === null || redactionMode === "off") {
+    return value;
+  }
+
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+
+  if (redactionMode === "hash") {
+    return `sha256:${createHash("sha256").update(text).digest("hex").slice(0, 16)}`;
+  }
+
+  return `[redacted ${text.length} chars]`;
+}
+
+// Tags every log line for the rest of the current request with the user
+// type, "anonymous" when there is no session
+export function setRequestContext({ userType }: { userType?: string }) {
+  const context = requestContext.getStore();
+  if (context) {
+    context.userType = userType ?? "anonymous";
+  }
+}
+
+// Records a v0 API call against the current request, so its timing shows up
+// in the request's completion log line
+export function recordV0Call(timing: V0CallTiming) {
+  requestContext.getStore()?.v0Calls.push(timing);
+  write(timing.ok ? "debug" : "warn", "v0 call", { ...timing });
+}
+
+function getRequestId(request: Request): string {
+  // Keep IDs assigned by an upstream proxy so logs can be joined
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && /^[\w-]{1,64}$/.test(incoming) ? incoming : randomUUID();
+}
+
+// Wraps a route handler so it runs with a request ID, logs its outcome and
+// latency, and returns the ID in the X-Request-Id response header
+export function withRequestLogging<Req extends Request, Args extends unknown[]>(
+  route: string,
+  handler: (request: Req, ...args: Args) => Promise<Response>,
+) {
+  return (request: Req, ...args: Args): Promise<Response> => {
+    const context: RequestContext = {
+      requestId: getRequestId(request),
+      route,
+      v0Calls: [],
+    };
+
+    return requestContext.run(context, async () => {
+      const start = performance.now();
+      const completionFields = () => ({
+        method: request.method,
+        durationMs: Math.round(performance.now() - start),
+        v0Calls: context.v0Calls,
+      });
+
+      try {
+        const response = await handler(request, ...args);
+        response.headers.set(REQUEST_ID_HEADER, context.requestId);
+        write(response.status >= 500 ? "error" : "info", "request completed", {
+          status: response.status,
+          ...completionFields(),
+        });
+        return response;
+      } catch (error) {
+        write("error", "request failed", { error, ...completionFields() });
+        throw error;
+      }
+    });
+  };
+}
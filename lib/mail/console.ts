@@ -0,0 +1,35 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { logger, redact } from "@/lib/logger";
+import { formatMessage } from "./format";
+import type { MailTransport } from "./mailer";
+
+// Logs each message so local sign-up and password reset flows can be
+// followed without a mail server. The recipient and body go through the
+// usual redaction, so links are only logged with LOG_REDACTION=off. With a
+// directory, messages are also written there as .eml files.
+
+export function createConsoleTransport(directory?: string): MailTransport {
+  const root = directory ? path.resolve(directory) : undefined;
+
+  return {
+    async send(message) {
+      logger.info("Email", {
+        to: redact(message.to),
+        subject: message.subject,
+        text: redact(message.text),
+      });
+
+      if (root) {
+        await mkdir(root, { recursive: true });
+        await writeFile(
+          path.join(
+            root,
+            `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`,
+          ),
+          formatMessage(message),
+        );
+      }
+    },
+  };
+}
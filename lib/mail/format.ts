@@ -0,0 +1,39 @@
+import { randomUUID } from "node:crypto";
+import type { MailMessage } from "./mailer";
+
+// Builds the RFC 5322 message for a plain-text email. The body is base64
+// encoded, so it needs no dot-stuffing or 8BITMIME support over SMTP.
+
+function encodeHeader(value: string) {
+  // biome-ignore lint/suspicious/noControlCharactersInRegex: matches non-ASCII
+  return /^[\x00-\x7f]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+// The bare address from a "Name <address>" mailbox
+function getAddress(mailbox: string) {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+export function formatMessage(message: MailMessage & { from: string }) {
+  const domain = getAddress(message.from).split("@")[1] ?? "localhost";
+  const body =
+    Buffer.from(message.text)
+      .toString("base64")
+      .match(/.{1,76}/g)
+      ?.join("\r\n") ?? "";
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
@@ -0,0 +1,40 @@
+import { createTransport } from "nodemailer";
+import type { MailTransport } from "./mailer";
+
+// Sends through an SMTP server with nodemailer. smtps:// URLs connect with
+// TLS. smtp:// URLs with credentials must upgrade with STARTTLS, so the
+// credentials are never sent in the clear; without credentials STARTTLS is
+// used when the server offers it.
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+export function createSmtpTransport(smtpUrl: string): MailTransport {
+  const url = new URL(smtpUrl);
+  const secure = url.protocol === "smtps:";
+  if (!(secure || url.protocol === "smtp:")) {
+    throw new Error("SMTP_URL must start with smtp:// or smtps://");
+  }
+
+  const user = decodeURIComponent(url.username);
+  const transporter = createTransport({
+    host: url.hostname,
+    port: url.port ? Number(url.port) : secure ? 465 : 587,
+    secure,
+    requireTLS: !secure && Boolean(user),
+    auth: user ? { user, pass: decodeURIComponent(url.password) } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+      });
+    },
+  };
+}
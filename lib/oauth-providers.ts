@@ -0,0 +1,40 @@
+import type { OAuthProvider } from "./db/schema";
+
+export const OAUTH_PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  github: "GitHub",
+  google: "Google",
+};
+
+// Why a provider sign-in or link was refused. Passed back to the login and
+// settings pages as the `error` search param.
+export type OAuthErrorCode =
+  | "AccountTaken"
+  | "ProviderLinked"
+  | "EmailUnverified"
+  | "AccountUnverified"
+  | "RateLimited"
+  | "AccountBanned"
+  | "OAuthFailed";
+
+export const OAUTH_ERROR_MESSAGES: Record<OAuthErrorCode, string> = {
+  AccountTaken: "That account is already linked to another user.",
+  ProviderLinked:
+    "A different account from this provider is already linked. Unlink it first.",
+  EmailUnverified:
+    "An account with this email already exists. Sign in with your password and link the provider from settings.",
+  AccountUnverified:
+    "An account with this email already exists but its email isn't verified. Sign in with your password, verify your email, then link the provider from settings.",
+  RateLimited: "Too many attempts. Please try again in a minute.",
+  AccountBanned: "This account has been suspended.",
+  OAuthFailed: "Sign-in with that provider failed. Please try again.",
+};
+
+export function getOAuthErrorMessage(code: string | undefined) {
+  if (!code) {
+    return undefined;
+  }
+  return (
+    OAUTH_ERROR_MESSAGES[code as OAuthErrorCode] ??
+    OAUTH_ERROR_MESSAGES.OAuthFailed
+  );
+}
@@ -0,0 +1,316 @@
+import "server-only";
+
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import type { Account, Profile } from "next-auth";
+import { clearChatCapabilities, getChatCapabilities } from "./capabilities";
+import { isDevelopmentEnvironment } from "./constants";
+import {
+  claimChats,
+  createAccount,
+  createOAuthUser,
+  getAccountByProviderAccountId,
+  getAccountsByUserId,
+  getUser,
+  getUserById,
+  isBanned,
+} from "./db/queries";
+import {
+  type OAuthProvider,
+  oauthProviderValues,
+  type User,
+} from "./db/schema";
+import { logger } from "./logger";
+import type { OAuthErrorCode } from "./oauth-providers";
+
+/*
+ * Users can sign in with GitHub or Google besides their password. Provider
+ * identities are kept in the accounts table. A provider sign-in resolves to
+ * a user in this order:
+ *
+ * 1. The user who asked to link the provider from settings
+ * 2. The user the identity is already linked to
+ * 3. The existing user with the same email, if both the provider and the
+ *    user verified it
+ * 4. A new user without a password
+ *
+ * What the browser asked for is carried through the provider's redirects in
+ * a short-lived signed cookie, set by the action that starts the sign-in.
+ */
+
+const INTENT_COOKIE = "oauth_intent";
+const INTENT_TTL_SECONDS = 60 * 10; // 10 minutes
+
+const PROVIDER_ENV: Record<OAuthProvider, [string, string]> = {
+  github: ["AUTH_GITHUB_ID", "AUTH_GITHUB_SECRET"],
+  google: ["AUTH_GOOGLE_ID", "AUTH_GOOGLE_SECRET"],
+};
+
+export interface OAuthIntent {
+  // Set when a signed-in user is linking the provider to their account
+  linkUserId?: string;
+  // The guest whose chats are imported once the sign-in completes
+  guestUserId?: string;
+}
+
+interface IntentPayload extends OAuthIntent {
+  exp: number;
+}
+
+type Resolution = { user: User } | { error: OAuthErrorCode };
+
+// Refused sign-ins are sent back to where they started, with the reason
+export type OAuthResolution = { user: User } | { redirectTo: string };
+
+// Providers are enabled by setting their client ID and secret
+export function getEnabledOAuthProviders(): OAuthProvider[] {
+  return oauthProviderValues.filter((provider) =>
+    PROVIDER_ENV[provider].every((name) => process.env[name]),
+  );
+}
+
+export function isOAuthProvider(value: unknown): value is OAuthProvider {
+  return oauthProviderValues.includes(value as OAuthProvider);
+}
+
+function sign(value: string): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required to sign OAuth intents");
+  }
+  return createHmac("sha256", secret)
+    .update(`oauth-intent:${value}`)
+    .digest("base64url");
+}
+
+function decodeIntent(token: string | undefined): OAuthIntent {
+  if (!token) {
+    return {};
+  }
+
+  const [encoded, signature] = token.split(".");
+  if (!(encoded && signature)) {
+    return {};
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return {};
+  }
+
+  try {
+    const { exp, ...intent } = JSON.parse(
+      Buffer.from(encoded, "base64url").toString(),
+    ) as IntentPayload;
+    return exp < Math.floor(Date.now() / 1000) ? {} : intent;
+  } catch {
+    return {};
+  }
+}
+
+// Only callable from route handlers and server actions, where cookies can be
+// written
+export async function setOAuthIntent(intent: OAuthIntent) {
+  const payload: IntentPayload = {
+    ...intent,
+    exp: Math.floor(Date.now() / 1000) + INTENT_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  const cookieStore = await cookies();
+  cookieStore.set(INTENT_COOKIE, `${encoded}.${sign(encoded)}`, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: !isDevelopmentEnvironment,
+    path: "/",
+    maxAge: INTENT_TTL_SECONDS,
+  });
+}
+
+// Reads the intent once, so it can't be replayed by a later sign-in
+export async function consumeOAuthIntent(): Promise<OAuthIntent> {
+  const cookieStore = await cookies();
+  const intent = decodeIntent(cookieStore.get(INTENT_COOKIE)?.value);
+  cookieStore.delete(INTENT_COOKIE);
+  return intent;
+}
+
+interface GitHubEmail {
+  email: string;
+  verified: boolean;
+}
+
+// GitHub profiles don't say whether their email is verified, so it's looked
+// up among the user's emails
+async function isGitHubEmailVerified(email: string, accessToken?: string) {
+  if (!accessToken) {
+    return false;
+  }
+
+  try {
+    const response = await fetch("https://api.github.com/user/emails", {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "User-Agent": "v0.diy",
+      },
+    });
+    if (!response.ok) {
+      return false;
+    }
+    const emails = (await response.json()) as GitHubEmail[];
+    return emails.some(
+      (entry) =>
+        entry.verified && entry.email.toLowerCase() === email.toLowerCase(),
+    );
+  } catch (error) {
+    logger.warn("Failed to check GitHub email verification", { error });
+    return false;
+  }
+}
+
+async function isEmailVerified(
+  provider: OAuthProvider,
+  email: string,
+  account: Account,
+  profile?: Profile,
+) {
+  if (provider === "google") {
+    return profile?.email_verified === true;
+  }
+  return await isGitHubEmailVerified(email, account.access_token);
+}
+
+async function linkAccount(
+  user: User,
+  provider: OAuthProvider,
+  providerAccountId: string,
+): Promise<Resolution> {
+  const existing = await getAccountByProviderAccountId({
+    provider,
+    providerAccountId,
+  });
+  if (existing) {
+    return existing.user_id === user.id ? { user } : { error: "AccountTaken" };
+  }
+
+  const linked = await getAccountsByUserId({ userId: user.id });
+  if (linked.some((account) => account.provider === provider)) {
+    return { error: "ProviderLinked" };
+  }
+
+  await createAccount({ userId: user.id, provider, providerAccountId });
+  logger.info("Account linked", { userId: user.id, provider });
+  return { user };
+}
+
+async function findOrCreateUser(
+  provider: OAuthProvider,
+  providerAccountId: string,
+  email: string | null | undefined,
+  account: Account,
+  profile?: Profile,
+): Promise<Resolution> {
+  const existing = await getAccountByProviderAccountId({
+    provider,
+    providerAccountId,
+  });
+  if (existing) {
+    const user = await getUserById({ id: existing.user_id });
+    return user ? { user } : { error: "OAuthFailed" };
+  }
+
+  if (!email) {
+    return { error: "OAuthFailed" };
+  }
+
+  const emailVerified = await isEmailVerified(
+    provider,
+    email,
+    account,
+    profile,
+  );
+  const [user] = await getUser(email);
+  if (user) {
+    // Linking by an unverified email would let anyone who can put that
+    // address on a provider account take over the user
+    if (!emailVerified) {
+      return { error: "EmailUnverified" };
+    }
+    // Anyone can register an address they don't own and leave it
+    // unverified. Linking to that account would hand the provider's owner a
+    // verified account whose password someone else knows.
+    if (!user.email_verified_at) {
+      return { error: "AccountUnverified" };
+    }
+    return await linkAccount(user, provider, providerAccountId);
+  }
+
+  const created = await createOAuthUser({
+    email,
+    emailVerified,
+    provider,
+    providerAccountId,
+  });
+  logger.info("User created from provider", { userId: created.id, provider });
+  return { user: created };
+}
+
+async function claimGuestChats(userId: string, guestUserId?: string) {
+  const anonymousChatIds = await getChatCapabilities();
+  if (!guestUserId && anonymousChatIds.length === 0) {
+    return;
+  }
+
+  try {
+    const claimed = await claimChats({ userId, guestUserId, anonymousChatIds });
+    await clearChatCapabilities();
+    logger.info("Chats claimed", { userId, count: claimed.length });
+  } catch (error) {
+    logger.error("Failed to claim chats", { userId, error });
+  }
+}
+
+// Works out which user a provider sign-in belongs to, linking or creating
+// them as needed
+export async function resolveOAuthUser({
+  provider,
+  account,
+  profile,
+  email,
+}: {
+  provider: OAuthProvider;
+  account: Account;
+  profile?: Profile;
+  email?: string | null;
+}): Promise<OAuthResolution> {
+  const intent = await consumeOAuthIntent();
+  const providerAccountId = account.providerAccountId;
+
+  if (intent.linkUserId) {
+    const user = await getUserById({ id: intent.linkUserId });
+    const resolution = user
+      ? await linkAccount(user, provider, providerAccountId)
+      : { error: "OAuthFailed" as const };
+    return "error" in resolution
+      ? { redirectTo: `/settings?error=${resolution.error}` }
+      : resolution;
+  }
+
+  const resolution = await findOrCreateUser(
+    provider,
+    providerAccountId,
+    email,
+    account,
+    profile,
+  );
+  if ("error" in resolution) {
+    return { redirectTo: `/login?error=${resolution.error}` };
+  }
+  if (await isBanned({ userId: resolution.user.id })) {
+    return { redirectTo: "/login?error=AccountBanned" };
+  }
+
+  await claimGuestChats(resolution.user.id, intent.guestUserId);
+  return resolution;
+}
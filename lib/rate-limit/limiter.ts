@@ -0,0 +1,145 @@
+import "server-only";
+
+import { getClientIPBucket } from "@/lib/client-ip";
+import { ChatSDKError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { createMemoryStore } from "./memory";
+import {
+  type RateLimitPolicy,
+  type RateLimitWindow,
+  rateLimitPolicies,
+} from "./policies";
+import { createPostgresStore } from "./postgres";
+
+export interface RateLimitCounts {
+  current: number;
+  previous: number;
+}
+
+// Backends count hits per fixed window. The limiter combines the current and
+// previous windows into a sliding window estimate.
+export interface RateLimitStore {
+  increment(
+    key: string,
+    windowStart: number,
+    windowMs: number,
+  ): Promise<RateLimitCounts>;
+}
+
+export interface RateLimitResult {
+  success: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the request would be allowed, 0 when it was
+  retryAfter: number;
+}
+
+function createStore(): RateLimitStore {
+  if (
+    process.env.RATE_LIMIT_BACKEND === "memory" ||
+    !process.env.POSTGRES_URL
+  ) {
+    return createMemoryStore();
+  }
+  return createPostgresStore();
+}
+
+const store = createStore();
+
+async function checkWindow(
+  key: string,
+  { limit, windowMs }: RateLimitWindow,
+  now: number,
+): Promise<RateLimitResult> {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const { current, previous } = await store.increment(
+    `${key}:${windowMs}`,
+    windowStart,
+    windowMs,
+  );
+
+  // Weight the previous window by how much of it still overlaps the
+  // sliding window ending now
+  const overlap = 1 - (now - windowStart) / windowMs;
+  const estimate = Math.floor(previous * overlap) + current;
+  const success = estimate <= limit;
+
+  return {
+    success,
+    limit,
+    remaining: Math.max(0, limit - estimate),
+    retryAfter: success ? 0 : Math.ceil((windowStart + windowMs - now) / 1000),
+  };
+}
+
+// Records a hit for the identifier under the policy. Requests are allowed
+// if the rate limit backend is unavailable.
+export async function rateLimit(
+  policy: RateLimitPolicy,
+  identifier: string,
+): Promise<RateLimitResult> {
+  const now = Date.now();
+
+  try {
+    const results = await Promise.all(
+      rateLimitPolicies[policy].map((window) =>
+        checkWindow(`${policy}:${identifier}`, window, now),
+      ),
+    );
+
+    // Report the window closest to its limit
+    return results.reduce((tightest, result) => {
+      if (result.success !== tightest.success) {
+        return result.success ? tightest : result;
+      }
+      if (!result.success) {
+        return result.retryAfter > tightest.retryAfter ? result : tightest;
+      }
+      return result.remaining < tightest.remaining ? result : tightest;
+    });
+  } catch (error) {
+    logger.error("Rate limit check failed", { policy, error });
+    const [window] = rateLimitPolicies[policy];
+    return {
+      success: true,
+      limit: window.limit,
+      remaining: window.limit,
+      retryAfter: 0,
+    };
+  }
+}
+
+// Signed-in users are limited per account, everyone else per IP address
+// (or IPv6 /64). Clients without a trustworthy IP share a single bucket.
+export function getRateLimitIdentifier(
+  headers: Headers,
+  userId?: string,
+): string {
+  if (userId) {
+    return `user:${userId}`;
+  }
+  return `ip:${getClientIPBucket(headers) ?? "unknown"}`;
+}
+
+export function withRateLimitHeaders<T extends Response>(
+  response: T,
+  result: RateLimitResult,
+): T {
+  response.headers.set("X-RateLimit-Limit", String(result.limit));
+  response.headers.set("X-RateLimit-Remaining", String(result.remaining));
+  if (!result.success) {
+    response.headers.set("Retry-After", String(result.retryAfter));
+  }
+  return response;
+}
+
+// Clients read when to retry from the Retry-After header
+export function rateLimitExceededResponse(result: RateLimitResult) {
+  return withRateLimitHeaders(
+    new ChatSDKError(
+      "rate_limit:chat",
+      "You're sending requests too quickly.",
+    ).toResponse(),
+    result,
+  );
+}
@@ -0,0 +1,64 @@
+import type { RateLimitCounts, RateLimitStore } from "./limiter";
+
+// Counters live in process memory, so limits are per server instance. Used
+// when no database is configured or RATE_LIMIT_BACKEND=memory.
+
+interface Counter {
+  count: number;
+  // When the window can no longer affect any estimate, as the previous
+  // window of the one after it
+  expiresAt: number;
+}
+
+// How often expired counters are swept, so keys that are never seen again
+// don't stay in memory
+const SWEEP_INTERVAL_MS = 60_000;
+
+const globalForRateLimit = globalThis as unknown as {
+  rateLimitCounterEntries?: Map<string, Counter>;
+};
+
+const counters: Map<string, Counter> =
+  globalForRateLimit.rateLimitCounterEntries ?? new Map();
+
+globalForRateLimit.rateLimitCounterEntries = counters;
+
+let lastSweepAt = 0;
+
+function counterKey(key: string, windowStart: number) {
+  return `${key}@${windowStart}`;
+}
+
+function sweepExpired(now: number) {
+  if (now - lastSweepAt < SWEEP_INTERVAL_MS) {
+    return;
+  }
+  lastSweepAt = now;
+
+  for (const [key, counter] of counters) {
+    if (counter.expiresAt <= now) {
+      counters.delete(key);
+    }
+  }
+}
+
+export function createMemoryStore(): RateLimitStore {
+  return {
+    async increment(key, windowStart, windowMs): Promise<RateLimitCounts> {
+      sweepExpired(Date.now());
+
+      const currentKey = counterKey(key, windowStart);
+      const counter = counters.get(currentKey) ?? {
+        count: 0,
+        expiresAt: windowStart + 2 * windowMs,
+      };
+      counter.count++;
+      counters.set(currentKey, counter);
+
+      const previous =
+        counters.get(counterKey(key, windowStart - windowMs))?.count ?? 0;
+
+      return { current: counter.count, previous };
+    },
+  };
+}
@@ -0,0 +1,44 @@
+export interface RateLimitWindow {
+  limit: number;
+  windowMs: number;
+}
+
+// Each policy combines a short burst window with a longer sustained window.
+// A request must fit within every window to be allowed.
+export const rateLimitPolicies = {
+  chat: [
+    { limit: 5, windowMs: 10 * 1000 },
+    { limit: 30, windowMs: 60 * 1000 },
+  ],
+  fork: [
+    { limit: 3, windowMs: 10 * 1000 },
+    { limit: 10, windowMs: 60 * 1000 },
+  ],
+  visibility: [
+    { limit: 10, windowMs: 10 * 1000 },
+    { limit: 30, windowMs: 60 * 1000 },
+  ],
+  webhook: [
+    { limit: 5, windowMs: 10 * 1000 },
+    { limit: 20, windowMs: 60 * 1000 },
+  ],
+  team: [
+    { limit: 5, windowMs: 10 * 1000 },
+    { limit: 20, windowMs: 60 * 1000 },
+  ],
+  // Saving a key checks it with v0
+  apiKey: [
+    { limit: 3, windowMs: 10 * 1000 },
+    { limit: 10, windowMs: 60 * 1000 },
+  ],
+  upload: [
+    { limit: 10, windowMs: 10 * 1000 },
+    { limit: 60, windowMs: 60 * 1000 },
+  ],
+  auth: [
+    { limit: 5, windowMs: 60 * 1000 },
+    { limit: 20, windowMs: 60 * 60 * 1000 },
+  ],
+} satisfies Record<string, RateLimitWindow[]>;
+
+export type RateLimitPolicy = keyof typeof rateLimitPolicies;
@@ -0,0 +1,16 @@
+import { incrementRateLimitCounter } from "@/lib/db/queries";
+import type { RateLimitStore } from "./limiter";
+
+// Counters are shared through Postgres, so limits hold across server
+// instances
+export function createPostgresStore(): RateLimitStore {
+  return {
+    increment(key, windowStart, windowMs) {
+      return incrementRateLimitCounter({
+        key,
+        windowStart: new Date(windowStart),
+        windowMs,
+      });
+    },
+  };
+}
@@ -0,0 +1,165 @@
+import "server-only";
+
+import { auth } from "@/app/(auth)/auth";
+import { buildTokenLink, generateToken, hashToken } from "@/lib/auth-tokens";
+import {
+  createTeamInvite,
+  getTeamInviteByTokenHash,
+  getTeamMembership,
+} from "@/lib/db/queries";
+import type { ChatOwnership, ChatPrivacy, TeamRole } from "@/lib/db/schema";
+import { type Entitlements, getUserEntitlements } from "@/lib/entitlements";
+import { ChatSDKError } from "@/lib/errors";
+import { setRequestContext } from "@/lib/logger";
+import { sendMail } from "@/lib/mail/mailer";
+
+/*
+ * Teams share chats between their members. A chat's owner picks the team
+ * when setting its privacy to "team" or "team-edit", and must be a member.
+ *
+ * - owner: created the team; manages roles and can delete the team
+ * - admin: invites and removes members, and renames the team
+ * - member: reads the team's chats, and edits "team-edit" ones
+ *
+ * People join by accepting an emailed invite while signed in with the
+ * invited address.
+ */
+
+const INVITE_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+const TEAM_ROLE_RANK: Record<TeamRole, number> = {
+  member: 0,
+  admin: 1,
+  owner: 2,
+};
+
+const TEAM_PRIVACY: ChatPrivacy[] = ["team", "team-edit"];
+
+export function hasTeamRole(role: TeamRole, minimum: TeamRole) {
+  return TEAM_ROLE_RANK[role] >= TEAM_ROLE_RANK[minimum];
+}
+
+// Teams are for signed-in accounts. Unverified accounts have guest
+// entitlements, so they can't create teams until their email is verified.
+export async function authorizeTeamUser(): Promise<
+  { userId: string; email: string; entitlements: Entitlements } | ChatSDKError
+> {
+  const session = await auth();
+  setRequestContext({ userType: session?.user?.type });
+
+  if (!session?.user?.id || session.user.type === "guest") {
+    return new ChatSDKError("unauthorized:team");
+  }
+
+  return {
+    userId: session.user.id,
+    email: session.user.email ?? "",
+    entitlements: await getUserEntitlements(session.user),
+  };
+}
+
+// Resolves the signed-in user's membership of a team, requiring at least
+// the given role. Teams the user isn't in aren't found.
+export async function authorizeTeamMember(
+  teamId: string,
+  minimumRole: TeamRole = "member",
+): Promise<
+  { userId: string; role: TeamRole; teamName: string } | ChatSDKError
+> {
+  const user = await authorizeTeamUser();
+  if (user instanceof ChatSDKError) {
+    return user;
+  }
+
+  const membership = await getTeamMembership({ teamId, userId: user.userId });
+  if (!membership) {
+    return new ChatSDKError("not_found:team");
+  }
+  if (!hasTeamRole(membership.role, minimumRole)) {
+    return new ChatSDKError("forbidden:team");
+  }
+
+  return {
+    userId: user.userId,
+    role: membership.role,
+    teamName: membership.name,
+  };
+}
+
+// The team a chat should be shared with when its privacy changes. Team
+// privacy needs a team the owner belongs to: the requested one, or the one
+// the chat is already shared with. Other privacy settings keep the team so
+// switching back restores access.
+export async function resolveChatTeam({
+  userId,
+  ownership,
+  privacy,
+  teamId,
+}: {
+  userId: string;
+  ownership: ChatOwnership;
+  privacy: ChatPrivacy;
+  teamId?: string;
+}): Promise<string | null | ChatSDKError> {
+  const chatTeamId = teamId ?? ownership.team_id;
+  if (!TEAM_PRIVACY.includes(privacy)) {
+    return ownership.team_id;
+  }
+
+  if (!chatTeamId) {
+    return new ChatSDKError(
+      "bad_request:team",
+      "Choose a team to share this chat with",
+    );
+  }
+
+  const membership = await getTeamMembership({ teamId: chatTeamId, userId });
+  if (!membership) {
+    return new ChatSDKError("not_found:team");
+  }
+
+  return chatTeamId;
+}
+
+export async function sendTeamInvite({
+  teamId,
+  teamName,
+  email,
+  role,
+  invitedBy,
+}: {
+  teamId: string;
+  teamName: string;
+  email: string;
+  role: TeamRole;
+  invitedBy: string;
+}) {
+  const { token, tokenHash } = generateToken();
+  const invite = await createTeamInvite({
+    teamId,
+    email,
+    role,
+    tokenHash,
+    invitedBy,
+    expiresAt: new Date(Date.now() + INVITE_TTL_SECONDS * 1000),
+  });
+  const link = await buildTokenLink("/invite", token);
+
+  await sendMail({
+    to: email,
+    subject: `You're invited to join ${teamName}`,
+    text: [
+      `You've been invited to join the team "${teamName}" on v0.diy. Accept the invite here:`,
+      "",
+      link,
+      "",
+      `Sign in or create an account with ${email} to accept. The invite expires in 7 days.`,
+    ].join("\n"),
+  });
+
+  return invite;
+}
+
+export function getTeamInvite(token: string) {
+  return getTeamInviteByTokenHash({ tokenHash: hashToken(token) });
+}
@@ -0,0 +1,71 @@
+import "server-only";
+
+import { getGenerationByMessageId } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { getV0ForChatId } from "./keys";
+import { saveChatMetadata } from "./sync";
+
+/*
+ * Editing an earlier prompt branches the conversation instead of rewriting
+ * it. The chat is forked at the version the edited prompt was sent against,
+ * and the edited prompt is sent to the fork, so the original chat keeps its
+ * full history.
+ */
+
+export interface ChatBranch {
+  // The fork to send the edited prompt to. Undefined when the first prompt
+  // was edited, which starts a new chat.
+  chatId?: string;
+}
+
+export async function branchChatAtMessage(
+  chatId: string,
+  messageId: string,
+): Promise<ChatBranch | ChatSDKError> {
+  const { v0 } = await getV0ForChatId(chatId);
+  const chat = await v0.chats.getById({ chatId });
+  const messageIndex = chat.messages.findIndex(
+    (msg) => msg.id === messageId && msg.role === "user",
+  );
+  if (messageIndex === -1) {
+    return new ChatSDKError(
+      "bad_request:chat",
+      "The message to edit isn't one of this chat's prompts",
+    );
+  }
+
+  const previousResponse = chat.messages
+    .slice(0, messageIndex)
+    .findLast((msg) => msg.role === "assistant");
+  if (!previousResponse) {
+    return {};
+  }
+
+  // Messages don't say which version they produced, so the branch point
+  // comes from the generation that recorded the response
+  const generation = await getGenerationByMessageId({
+    v0MessageId: previousResponse.id,
+  });
+  if (!generation?.v0_version_id) {
+    return new ChatSDKError(
+      "bad_request:chat",
+      "The response before this message has no recorded version to branch from",
+    );
+  }
+
+  const forkedChat = await v0.chats.fork({
+    chatId,
+    versionId: generation.v0_version_id,
+    privacy: "private",
+  });
+  await saveChatMetadata(forkedChat);
+
+  logger.info("Chat branched", {
+    chatId,
+    messageId,
+    branchChatId: forkedChat.id,
+  });
+
+  return { chatId: forkedChat.id };
+}
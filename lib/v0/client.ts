@@ -0,0 +1,94 @@
+import "server-only";
+
+import { createClient } from "v0-sdk";
+import { logger, recordV0Call } from "@/lib/logger";
+import { createEmulatorClient } from "./emulator";
+import { getV0ErrorStatus } from "./errors";
+
+export type V0Client = ReturnType<typeof createClient>;
+
+// The subset of the v0 chats API this app relies on. Both the real SDK
+// client and the local emulator implement it.
+export type V0ChatsApi = Pick<
+  V0Client["chats"],
+  "create" | "sendMessage" | "getById" | "find" | "fork" | "delete" | "update"
+>;
+
+export interface V0Gateway {
+  chats: V0ChatsApi;
+}
+
+export const isV0EmulatorEnabled = process.env.V0_EMULATOR === "true";
+
+// Times every chats API call and records it against the current request.
+// Streaming calls are timed until the stream starts.
+function withCallTimings(gateway: V0Gateway): V0Gateway {
+  const chats = new Proxy(gateway.chats, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== "function") {
+        return value;
+      }
+
+      return async (...args: unknown[]) => {
+        const start = performance.now();
+        let ok = false;
+        try {
+          const result = await value.apply(target, args);
+          ok = true;
+          return result;
+        } finally {
+          recordV0Call({
+            call: `chats.${String(property)}`,
+            durationMs: Math.round(performance.now() - start),
+            ok,
+          });
+        }
+      };
+    },
+  });
+
+  return { chats };
+}
+
+function createSdkClient(apiKey?: string) {
+  // Use a custom baseUrl if V0_API_URL is set
+  return createClient({
+    ...(apiKey && { apiKey }),
+    ...(process.env.V0_API_URL && { baseUrl: process.env.V0_API_URL }),
+  });
+}
+
+// A gateway for the given API key, or for V0_API_KEY when none is given
+export function createGateway(apiKey?: string): V0Gateway {
+  if (isV0EmulatorEnabled) {
+    return withCallTimings(createEmulatorClient());
+  }
+
+  return withCallTimings(createSdkClient(apiKey));
+}
+
+// Whether v0 accepts the key. The emulator accepts any key.
+export async function isValidV0ApiKey(apiKey: string) {
+  if (isV0EmulatorEnabled) {
+    return true;
+  }
+
+  try {
+    await createSdkClient(apiKey).user.get();
+    return true;
+  } catch (error) {
+    const status = getV0ErrorStatus(error);
+    if (status === 401 || status === 403) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+if (isV0EmulatorEnabled) {
+  logger.info("Using local v0 API emulator");
+}
+
+// The shared client, using V0_API_KEY
+export const v0 = createGateway();
@@ -0,0 +1,488 @@
+import type {
+  ChatDetail,
+  ChatSummary,
+  ChatsCreateRequest,
+  ChatsDeleteResponse,
+  ChatsFindResponse,
+  ChatsForkRequest,
+  ChatsSendMessageRequest,
+  ChatsUpdateRequest,
+} from "v0-sdk";
+import { generateUUID } from "../utils";
+
+// Offline stand-in for the v0 chats API. Chats live in process memory, so
+// they survive hot reloads but not server restarts. Enable with
+// V0_EMULATOR=true.
+
+type Privacy = ChatDetail["privacy"];
+type ChatMessage = ChatDetail["messages"][number];
+type MessageContent = NonNullable<ChatMessage["experimental_content"]>;
+
+interface EmulatorVersion {
+  id: string;
+  chatId: string;
+  // The assistant message that produced the version
+  messageId: string;
+  title: string;
+  prompt: string;
+  code: string;
+  createdAt: string;
+}
+
+interface EmulatorStore {
+  chats: Map<string, ChatDetail>;
+  versions: Map<string, EmulatorVersion>;
+}
+
+const globalForEmulator = globalThis as unknown as {
+  v0EmulatorStore?: EmulatorStore;
+};
+
+const store: EmulatorStore = globalForEmulator.v0EmulatorStore ?? {
+  chats: new Map(),
+  versions: new Map(),
+};
+
+globalForEmulator.v0EmulatorStore = store;
+
+const STREAM_CHUNK_DELAY_MS = 25;
+const DEMO_BASE_PATH = "/api/v0-emulator/demo";
+
+function notFound(resource: string): Error {
+  // Mirror the error shape thrown by the v0 SDK for non-2xx responses
+  return new Error(
+    `HTTP 404: ${JSON.stringify({ error: { message: `${resource} not found` } })}`,
+  );
+}
+
+function getChatOrThrow(chatId: string): ChatDetail {
+  const chat = store.chats.get(chatId);
+  if (!chat) {
+    throw notFound(`Chat ${chatId}`);
+  }
+  return chat;
+}
+
+function toTitle(prompt: string): string {
+  const firstLine = prompt.trim().split("\n")[0] || "Untitled";
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+function toComponentName(title: string): string {
+  const name = title
+    .replace(/[^a-zA-Z0-9 ]/g, " ")
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+  return /^[A-Z]/.test(name) ? name : `Generated${name}`;
+}
+
+function generateResponse(prompt: string, attachmentCount: number) {
+  const title = toTitle(prompt);
+  const componentName = toComponentName(title);
+  const attachmentNote =
+    attachmentCount > 0
+      ? ` I received ${attachmentCount} attachment${attachmentCount === 1 ? "" : "s"} with your message.`
+      : "";
+
+  const intro = `I'll build "${title}" for you.${attachmentNote} This response comes from the local v0 emulator, so the code below is a placeholder rather than a real generation.`;
+
+  const code = [
+    "export default function Page() {",
+    "  return (",
+    '    <main className="flex min-h-screen flex-col items-center justify-center gap-4 p-8">',
+    `      <h1 className="font-bold text-4xl">${title.replace(/[{}<>]/g, "")}</h1>`,
+    '      <p className="text-muted-foreground">',
+    `        ${componentName} was generated offline by the v0 emulator.`,
+    "      </p>",
+    "    </main>",
+    "  );",
+    "}",
+    "",
+  ].join("\n");
+
+  return { title, intro, code };
+}
+
+function buildContent(intro: string, code: string): MessageContent {
+  return [
+    [
+      0,
+      [
+        ["p", {}, intro],
+        ["Codeblock", { lang: "tsx", file: "app/page.tsx" }, code],
+      ],
+    ],
+  ];
+}
+
+function createMessage(
+  chatId: string,
+  role: ChatMessage["role"],
+  content: string,
+  experimentalContent?: MessageContent,
+): ChatMessage {
+  const id = generateUUID();
+  return {
+    id,
+    object: "message",
+    content,
+    experimental_content: experimentalContent,
+    createdAt: new Date().toISOString(),
+    type: "message",
+    role,
+    finishReason: role === "assistant" ? "stop" : undefined,
+    apiUrl: `/api/chats/${chatId}`,
+  };
+}
+
+function toVersionDetail(
+  version: EmulatorVersion,
+): NonNullable<ChatDetail["latestVersion"]> {
+  return {
+    id: version.id,
+    object: "version",
+    status: "completed",
+    demoUrl: `${DEMO_BASE_PATH}/${version.id}`,
+    createdAt: version.createdAt,
+    files: [
+      {
+        object: "file",
+        name: "app/page.tsx",
+        content: version.code,
+        locked: false,
+      },
+    ],
+  };
+}
+
+function createEmptyChat(name: string, privacy: Privacy): ChatDetail {
+  const id = generateUUID();
+  const now = new Date().toISOString();
+  return {
+    id,
+    object: "chat",
+    shareable: privacy !== "private",
+    privacy,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    favorite: false,
+    authorId: "v0-emulator",
+    webUrl: `/chats/${id}`,
+    apiUrl: `/api/chats/${id}`,
+    url: `/chats/${id}`,
+    messages: [],
+    text: "",
+    permissions: { write: true },
+  };
+}
+
+// Applies a finished generation to the chat: assistant message, new version
+// and refreshed timestamps.
+function completeGeneration(
+  chat: ChatDetail,
+  prompt: string,
+  attachmentCount: number,
+) {
+  const { title, intro, code } = generateResponse(prompt, attachmentCount);
+  const message = createMessage(
+    chat.id,
+    "assistant",
+    `${intro}\n\n\`\`\`tsx file="app/page.tsx"\n${code}\`\`\``,
+    buildContent(intro, code),
+  );
+  const version: EmulatorVersion = {
+    id: generateUUID(),
+    chatId: chat.id,
+    messageId: message.id,
+    title,
+    prompt,
+    code,
+    createdAt: new Date().toISOString(),
+  };
+  store.versions.set(version.id, version);
+
+  chat.messages.push(message);
+  chat.latestVersion = toVersionDetail(version);
+  chat.demo = chat.latestVersion.demoUrl;
+  chat.text = intro;
+  chat.updatedAt = new Date().toISOString();
+}
+
+function toSummary(chat: ChatDetail): ChatSummary {
+  const { latestVersion, ...rest } = chat;
+  return {
+    id: rest.id,
+    object: "chat",
+    shareable: rest.shareable,
+    privacy: rest.privacy,
+    name: rest.name,
+    createdAt: rest.createdAt,
+    updatedAt: rest.updatedAt,
+    favorite: rest.favorite,
+    authorId: rest.authorId,
+    projectId: rest.projectId,
+    webUrl: rest.webUrl,
+    apiUrl: rest.apiUrl,
+    latestVersion: latestVersion && {
+      id: latestVersion.id,
+      object: "version",
+      status: latestVersion.status,
+      demoUrl: latestVersion.demoUrl,
+      createdAt: latestVersion.createdAt,
+      updatedAt: latestVersion.updatedAt,
+    },
+  };
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/*
+ * Emits the same SSE shape as the v0 `experimental_stream` response mode:
+ * a chat metadata event followed by jsondiffpatch deltas against the
+ * message content. The `[path..., text], 9, 9` delta is v0's custom
+ * "append to string" patch.
+ */
+function createGenerationStream(
+  chat: ChatDetail,
+  prompt: string,
+  attachmentCount: number,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const { intro, code } = generateResponse(prompt, attachmentCount);
+
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    data: unknown,
+  ) => {
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+  };
+
+  const chunk = (text: string, size: number) => {
+    const parts: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      parts.push(text.slice(i, i + size));
+    }
+    return parts;
+  };
+
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      send(controller, toSummary(chat));
+
+      send(controller, {
+        delta: { _t: "a", 0: [[0, [["p", {}, ""]]]] },
+      });
+      for (const part of chunk(intro, 12)) {
+        if (cancelled) {
+          return;
+        }
+        await sleep(STREAM_CHUNK_DELAY_MS);
+        send(controller, { delta: [[0, 1, 0, 2, part], 9, 9] });
+      }
+
+      send(controller, {
+        delta: {
+          _t: "a",
+          0: {
+            _t: "a",
+            1: {
+              _t: "a",
+              1: [["Codeblock", { lang: "tsx", file: "app/page.tsx" }, ""]],
+            },
+          },
+        },
+      });
+      for (const part of chunk(code, 48)) {
+        if (cancelled) {
+          return;
+        }
+        await sleep(STREAM_CHUNK_DELAY_MS);
+        send(controller, { delta: [[0, 1, 1, 2, part], 9, 9] });
+      }
+
+      completeGeneration(chat, prompt, attachmentCount);
+      controller.close();
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
+export function createEmulatorClient() {
+  return {
+    chats: {
+      async create(params: ChatsCreateRequest) {
+        const chat = createEmptyChat(
+          toTitle(params.message),
+          params.chatPrivacy ?? "private",
+        );
+        chat.messages.push(createMessage(chat.id, "user", params.message));
+        store.chats.set(chat.id, chat);
+
+        const attachmentCount = params.attachments?.length ?? 0;
+
+        if (params.responseMode === "experimental_stream") {
+          return createGenerationStream(chat, params.message, attachmentCount);
+        }
+
+        completeGeneration(chat, params.message, attachmentCount);
+        return clone(chat);
+      },
+
+      async sendMessage(params: { chatId: string } & ChatsSendMessageRequest) {
+        const chat = getChatOrThrow(params.chatId);
+        chat.messages.push(createMessage(chat.id, "user", params.message));
+        chat.updatedAt = new Date().toISOString();
+
+        const attachmentCount = params.attachments?.length ?? 0;
+
+        if (params.responseMode === "experimental_stream") {
+          return createGenerationStream(chat, params.message, attachmentCount);
+        }
+
+        completeGeneration(chat, params.message, attachmentCount);
+        return clone(chat);
+      },
+
+      async getById(params: { chatId: string }) {
+        return clone(getChatOrThrow(params.chatId));
+      },
+
+      async find(params?: {
+        limit?: string;
+        offset?: string;
+        isFavorite?: string;
+      }): Promise<ChatsFindResponse> {
+        const offset = Number(params?.offset ?? 0);
+        const limit = Number(params?.limit ?? 60);
+
+        const chats = [...store.chats.values()]
+          .filter(
+            (chat) =>
+              params?.isFavorite === undefined ||
+              chat.favorite === (params.isFavorite === "true"),
+          )
+          .sort((a, b) =>
+            (b.updatedAt ?? b.createdAt).localeCompare(
+              a.updatedAt ?? a.createdAt,
+            ),
+          )
+          .slice(offset, offset + limit);
+
+        return { object: "list", data: chats.map(toSummary) };
+      },
+
+      // Copies the chat, or with a versionId, only the messages up to the
+      // response that produced that version
+      async fork(params: { chatId: string } & ChatsForkRequest) {
+        const source = getChatOrThrow(params.chatId);
+        const privacy = params.privacy ?? source.privacy;
+        const forked = createEmptyChat(source.name ?? "Untitled", privacy);
+
+        let messages = source.messages;
+        let latestVersion = source.latestVersion;
+        let text = source.text;
+        if (params.versionId) {
+          const version = store.versions.get(params.versionId);
+          const end = source.messages.findIndex(
+            (message) => message.id === version?.messageId,
+          );
+          if (!version || version.chatId !== source.id || end === -1) {
+            throw notFound(`Version ${params.versionId}`);
+          }
+          messages = source.messages.slice(0, end + 1);
+          latestVersion = toVersionDetail(version);
+          text = source.messages[end].content;
+        }
+
+        forked.messages = messages.map((message) => ({
+          ...clone(message),
+          id: generateUUID(),
+        }));
+        forked.latestVersion = latestVersion && clone(latestVersion);
+        forked.demo = latestVersion?.demoUrl;
+        forked.text = text;
+
+        store.chats.set(forked.id, forked);
+        return clone(forked);
+      },
+
+      async delete(params: { chatId: string }): Promise<ChatsDeleteResponse> {
+        getChatOrThrow(params.chatId);
+        store.chats.delete(params.chatId);
+        for (const [versionId, version] of store.versions) {
+          if (version.chatId === params.chatId) {
+            store.versions.delete(versionId);
+          }
+        }
+        return { id: params.chatId, object: "chat", deleted: true };
+      },
+
+      async update(params: { chatId: string } & ChatsUpdateRequest) {
+        const chat = getChatOrThrow(params.chatId);
+        if (params.name !== undefined) {
+          chat.name = params.name;
+        }
+        if (params.privacy !== undefined) {
+          chat.privacy = params.privacy;
+          chat.shareable = params.privacy !== "private";
+        }
+        chat.updatedAt = new Date().toISOString();
+        return clone(chat);
+      },
+    },
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Renders a static preview page for an emulated version, standing in for
+// the hosted demo URL v0 would return.
+export function renderEmulatorDemo(versionId: string): string | null {
+  const version = store.versions.get(versionId);
+  if (!version) {
+    return null;
+  }
+
+  const title = escapeHtml(version.title);
+  const prompt = escapeHtml(version.prompt);
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${title}</title>
+    <style>
+      body { margin: 0; font-family: system-ui, sans-serif; background: #fafafa; color: #111; }
+      main { display: flex; min-height: 100vh; flex-direction: column; align-items: center; justify-content: center; gap: 1rem; padding: 2rem; text-align: center; }
+      h1 { font-size: 2.25rem; margin: 0; }
+      p { color: #666; max-width: 40rem; }
+      code { background: #eee; border-radius: 4px; padding: 0.125rem 0.375rem; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${title}</h1>
+      <p>${prompt}</p>
+      <p>Rendered by the local v0 emulator &middot; version <code>${escapeHtml(version.id)}</code></p>
+    </main>
+  </body>
+</html>`;
+}
@@ -0,0 +1,38 @@
+import { ChatSDKError, type Surface } from "@/lib/errors";
+
+// The v0 SDK (and the emulator) throw errors like "HTTP 404: {...}" for
+// non-2xx responses
+export function getV0ErrorStatus(error: unknown): number | undefined {
+  if (!(error instanceof Error)) {
+    return;
+  }
+  const match = error.message.match(/^HTTP (\d{3}):/);
+  return match ? Number(match[1]) : undefined;
+}
+
+// Maps an error thrown while handling a request to the ChatSDKError to
+// respond with. Raw error messages are never passed to the client.
+export function toChatSDKError(error: unknown, surface: Surface): ChatSDKError {
+  if (error instanceof ChatSDKError) {
+    return error;
+  }
+
+  // Malformed JSON request bodies
+  if (error instanceof SyntaxError) {
+    return new ChatSDKError("bad_request:api");
+  }
+
+  const cause = error instanceof Error ? error.message : String(error);
+
+  switch (getV0ErrorStatus(error)) {
+    case 404:
+      return new ChatSDKError(
+        surface === "fork" ? "not_found:fork" : "not_found:chat",
+      );
+    case 400:
+    case 422:
+      return new ChatSDKError(`bad_request:${surface}`);
+    default:
+      return new ChatSDKError(`internal:${surface}`, cause);
+  }
+}
@@ -0,0 +1,334 @@
+import "server-only";
+
+import { after } from "next/server";
+import type { ChatDetail } from "v0-sdk";
+import type { V0MessageInput } from "@/lib/attachments/forward";
+import {
+  getChatOwnership,
+  getLatestGenerationByChatId,
+  getStreamingGenerationByChatId,
+  updateGeneration,
+  updateMessageUsage,
+} from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { emitWebhookEvent } from "@/lib/webhooks";
+import { getV0ForChatId } from "./keys";
+import {
+  appendToStreamBuffer,
+  closeStreamBuffer,
+  openStreamBuffer,
+} from "./stream-buffer";
+import { refreshChatMetadata } from "./sync";
+
+/*
+ * The server reads every v0 generation stream itself and buffers it for the
+ * browser. This tells it a new chat's ID before the response starts, lets a
+ * reloaded browser re-attach to the stream, lets the user stop it, and
+ * records the finished message even if the browser goes away
+ * mid-generation.
+ */
+
+export interface CapturedGeneration {
+  // The stream to send to the browser
+  stream: ReadableStream<Uint8Array>;
+  chatId: string | null;
+}
+
+// Stops the generations running on this instance, by generation ID
+const globalForGenerations = globalThis as unknown as {
+  generationStopHandlers?: Map<string, () => void>;
+};
+
+const stopHandlers: Map<string, () => void> =
+  globalForGenerations.generationStopHandlers ?? new Map();
+
+globalForGenerations.generationStopHandlers = stopHandlers;
+
+function parseEvent(block: string): unknown[] {
+  const data = block
+    .split(/\r?\n/)
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+
+  if (!data) {
+    return [];
+  }
+
+  try {
+    return [JSON.parse(data)];
+  } catch {
+    return [];
+  }
+}
+
+// Splits SSE bytes into parsed `data:` payloads. Call without a chunk to
+// flush the final event once the stream ends.
+function createEventParser() {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  return (chunk?: Uint8Array): unknown[] => {
+    buffer += chunk
+      ? decoder.decode(chunk, { stream: true })
+      : decoder.decode();
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = chunk ? (blocks.pop() ?? "") : "";
+    return blocks.flatMap(parseEvent);
+  };
+}
+
+// v0 opens each stream with the chat's metadata
+function getChatId(event: unknown): string | null {
+  const chat = event as { object?: unknown; id?: unknown } | null;
+  return chat?.object === "chat" && typeof chat.id === "string"
+    ? chat.id
+    : null;
+}
+
+// Records the assistant message and version a finished generation produced
+export async function recordGeneration({
+  generationId,
+  chat,
+  startedAt,
+}: {
+  generationId: string;
+  chat: ChatDetail;
+  startedAt: number;
+}) {
+  const message = chat.messages.findLast((msg) => msg.role === "assistant");
+  const durationMs = Date.now() - startedAt;
+  const demoUrl = chat.latestVersion?.demoUrl ?? chat.demo;
+
+  await updateGeneration({
+    id: generationId,
+    status: "completed",
+    v0ChatId: chat.id,
+    v0MessageId: message?.id,
+    content: message?.content,
+    v0VersionId: chat.latestVersion?.id,
+    demoUrl,
+    completedAt: new Date(),
+    durationMs,
+  });
+
+  logger.info("Generation completed", {
+    generationId,
+    chatId: chat.id,
+    durationMs,
+  });
+
+  // Anonymous chats have no owner to notify
+  const ownership = await getChatOwnership({ v0ChatId: chat.id });
+  if (ownership) {
+    await emitWebhookEvent(ownership.user_id, "generation.completed", {
+      chatId: chat.id,
+      generationId,
+      messageId: message?.id ?? null,
+      versionId: chat.latestVersion?.id ?? null,
+      demoUrl: demoUrl ?? null,
+      durationMs,
+    });
+  }
+}
+
+// Failures are logged rather than thrown, since they are recorded while
+// handling another error
+export async function recordGenerationFailure(
+  generationId: string,
+  error: unknown,
+) {
+  logger.error("Generation failed", { generationId, error });
+
+  try {
+    await updateGeneration({
+      id: generationId,
+      status: "failed",
+      completedAt: new Date(),
+    });
+  } catch (updateError) {
+    logger.error("Failed to record generation failure", {
+      generationId,
+      error: updateError,
+    });
+  }
+}
+
+export interface RegenerationInput extends V0MessageInput {
+  // The generation the new response is an alternative to
+  alternativeOf?: string;
+}
+
+// Regenerating resends the chat's last message as v0 received it, with the
+// contents of text attachments already included. Image and PDF attachments
+// aren't sent again.
+export async function getRegenerationInput(
+  chatId: string,
+): Promise<RegenerationInput | ChatSDKError> {
+  const streaming = await getStreamingGenerationByChatId({ v0ChatId: chatId });
+  if (streaming) {
+    return new ChatSDKError(
+      "bad_request:chat",
+      "Wait for the current response to finish before regenerating it",
+    );
+  }
+
+  const { v0 } = await getV0ForChatId(chatId);
+  const chat = await v0.chats.getById({ chatId });
+  const prompt = chat.messages.findLast((msg) => msg.role === "user");
+  if (!prompt) {
+    return new ChatSDKError(
+      "bad_request:chat",
+      "This chat has no message to regenerate a response to",
+    );
+  }
+
+  const latest = await getLatestGenerationByChatId({ v0ChatId: chatId });
+  return {
+    message: prompt.content,
+    attachments: [],
+    alternativeOf: latest ? (latest.alternative_of ?? latest.id) : undefined,
+  };
+}
+
+// Records a generation the user stopped. Its message doesn't count towards
+// their usage.
+async function recordGenerationStopped({
+  generationId,
+  messageUsageId,
+  startedAt,
+}: {
+  generationId: string;
+  messageUsageId?: string;
+  startedAt: number;
+}) {
+  const durationMs = Date.now() - startedAt;
+
+  await updateGeneration({
+    id: generationId,
+    status: "stopped",
+    completedAt: new Date(),
+    durationMs,
+  });
+  if (messageUsageId) {
+    await updateMessageUsage({ id: messageUsageId, outcome: "cancelled" });
+  }
+
+  logger.info("Generation stopped", { generationId, durationMs });
+}
+
+// Cancels the upstream v0 stream of a generation running on this instance.
+// Returns false if it isn't running here or has already finished streaming.
+export function stopGeneration(generationId: string): boolean {
+  const stop = stopHandlers.get(generationId);
+  if (!stop) {
+    return false;
+  }
+
+  stopHandlers.delete(generationId);
+  stop();
+  return true;
+}
+
+// Reads a v0 stream into the generation's buffer until the chat's ID is
+// known, then keeps reading in the background and records the generation
+// once it completes or is stopped
+export async function captureGeneration(
+  source: ReadableStream<Uint8Array>,
+  {
+    generationId,
+    chatId,
+    messageUsageId,
+    startedAt,
+  }: {
+    generationId: string;
+    chatId?: string;
+    messageUsageId?: string;
+    startedAt: number;
+  },
+): Promise<CapturedGeneration> {
+  const reader = source.getReader();
+  const parse = createEventParser();
+
+  // The browser reads the stream from the buffer, so a browser that reloads
+  // can re-attach to it
+  const clientStream = openStreamBuffer(generationId);
+  const read = async () => {
+    const result = await reader.read();
+    if (result.value) {
+      appendToStreamBuffer(generationId, result.value);
+    }
+    return result;
+  };
+
+  let resolvedChatId = chatId ?? null;
+  let done = false;
+  let stopped = false;
+
+  try {
+    while (!(resolvedChatId || done)) {
+      const result = await read();
+      done = result.done;
+      for (const event of parse(result.value)) {
+        resolvedChatId ??= getChatId(event);
+      }
+    }
+
+    // New chats only get an ID once v0 starts streaming
+    if (!chatId && resolvedChatId) {
+      await updateGeneration({ id: generationId, v0ChatId: resolvedChatId });
+    }
+  } catch (error) {
+    closeStreamBuffer(generationId);
+    throw error;
+  }
+
+  // Cancelling the reader aborts the request to v0
+  stopHandlers.set(generationId, () => {
+    stopped = true;
+    reader.cancel().catch((error) => {
+      logger.warn("Failed to cancel generation stream", {
+        generationId,
+        error,
+      });
+    });
+  });
+
+  const completion = (async () => {
+    try {
+      while (!done) {
+        ({ done } = await read());
+      }
+      stopHandlers.delete(generationId);
+      closeStreamBuffer(generationId);
+
+      if (stopped) {
+        await recordGenerationStopped({
+          generationId,
+          messageUsageId,
+          startedAt,
+        });
+        return;
+      }
+
+      // The stream only carries deltas, so fetch the finished chat from v0
+      const chat = resolvedChatId
+        ? await refreshChatMetadata(resolvedChatId)
+        : null;
+      if (!chat) {
+        throw new Error("Unable to load the chat for a finished generation");
+      }
+      await recordGeneration({ generationId, chat, startedAt });
+    } catch (error) {
+      stopHandlers.delete(generationId);
+      closeStreamBuffer(generationId);
+      await recordGenerationFailure(generationId, error);
+    }
+  })();
+
+  // Keep the function alive until the generation has been recorded
+  after(completion);
+
+  return { stream: clientStream, chatId: resolvedChatId };
+}
@@ -0,0 +1,133 @@
+import "server-only";
+
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from "node:crypto";
+import {
+  deleteV0ApiKey,
+  getChatOwnership,
+  getV0ApiKey,
+  setV0ApiKey,
+} from "@/lib/db/queries";
+import type { ChatOwnership } from "@/lib/db/schema";
+import { ChatSDKError } from "@/lib/errors";
+import { logger } from "@/lib/logger";
+import { createGateway, type V0Gateway, v0 } from "./client";
+
+/*
+ * Users can save their own v0 API key in settings to use their own v0
+ * account and quota instead of V0_API_KEY. Keys are encrypted at rest with
+ * a key derived from AUTH_SECRET.
+ *
+ * A chat lives in the v0 account of the key it was created with, so it's
+ * always read and continued with that key, whoever is sending the message.
+ * Only the key's owner skips the daily allowance, though. Branches and the
+ * owner's forks are created in the same account, while other people fork
+ * with their own key or the shared one. Chats created with the shared key
+ * keep using it after a personal key is saved.
+ */
+
+const KEY_HINT_LENGTH = 4;
+
+export interface V0Connection {
+  v0: V0Gateway;
+  // The user whose personal key is used, or null for the shared key
+  keyUserId: string | null;
+}
+
+function getEncryptionKey() {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is required to encrypt v0 API keys");
+  }
+  return Buffer.from(hkdfSync("sha256", secret, "", "v0-api-key", 32));
+}
+
+function encryptApiKey(apiKey: string) {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(apiKey), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString("base64url"))
+    .join(".");
+}
+
+function decryptApiKey(encryptedKey: string) {
+  const [iv, tag, encrypted] = encryptedKey
+    .split(".")
+    .map((part) => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([
+    decipher.update(encrypted),
+    decipher.final(),
+  ]).toString();
+}
+
+export function saveApiKey(userId: string, apiKey: string) {
+  return setV0ApiKey({
+    userId,
+    encryptedKey: encryptApiKey(apiKey),
+    keyHint: apiKey.slice(-KEY_HINT_LENGTH),
+  });
+}
+
+export function removeApiKey(userId: string) {
+  return deleteV0ApiKey({ userId });
+}
+
+// The user's key, if they saved one that can still be decrypted. Keys saved
+// before AUTH_SECRET was rotated can't be.
+async function loadApiKey(userId: string) {
+  const saved = await getV0ApiKey({ userId });
+  if (!saved) {
+    return;
+  }
+
+  try {
+    return decryptApiKey(saved.encrypted_key);
+  } catch (error) {
+    logger.error("Failed to decrypt v0 API key", { userId, error });
+  }
+}
+
+// The client for new chats started by the user: their own key if they saved
+// one, otherwise the shared key
+export async function getV0ForUser(
+  userId: string | undefined,
+): Promise<V0Connection> {
+  const apiKey = userId ? await loadApiKey(userId) : undefined;
+  if (!(userId && apiKey)) {
+    return { v0, keyUserId: null };
+  }
+
+  return { v0: createGateway(apiKey), keyUserId: userId };
+}
+
+// The client for an existing chat. Anonymous chats have no ownership and
+// always use the shared key.
+export async function getV0ForChat(
+  ownership: ChatOwnership | undefined,
+): Promise<V0Connection> {
+  const keyUserId = ownership?.v0_key_user_id;
+  if (!keyUserId) {
+    return { v0, keyUserId: null };
+  }
+
+  const apiKey = await loadApiKey(keyUserId);
+  if (!apiKey) {
+    throw new ChatSDKError(
+      "bad_request:chat",
+      "This chat was created with a personal v0 API key that is no longer saved",
+    );
+  }
+
+  return { v0: createGateway(apiKey), keyUserId };
+}
+
+export async function getV0ForChatId(chatId: string) {
+  return getV0ForChat(await getChatOwnership({ v0ChatId: chatId }));
+}
@@ -0,0 +1,115 @@
+import "server-only";
+
+// In-flight generation streams are buffered in process memory under their
+// generation ID. The browser that started a generation reads it from here,
+// and a browser that reloads mid-generation can replay what it missed and
+// follow the rest. Buffers are per server instance and are dropped as soon
+// as the generation ends.
+
+// A generation that outgrows this stops being resumable
+const MAX_RESUMABLE_BYTES = 5 * 1024 * 1024;
+
+interface StreamBuffer {
+  chunks: Uint8Array[];
+  size: number;
+  done: boolean;
+  // Whether new readers may still attach
+  resumable: boolean;
+  // Readers waiting for the next chunk
+  waiting: Set<() => void>;
+}
+
+const globalForStreamBuffers = globalThis as unknown as {
+  generationStreamBuffers?: Map<string, StreamBuffer>;
+};
+
+const buffers: Map<string, StreamBuffer> =
+  globalForStreamBuffers.generationStreamBuffers ?? new Map();
+
+globalForStreamBuffers.generationStreamBuffers = buffers;
+
+function notify(buffer: StreamBuffer) {
+  for (const wake of buffer.waiting) {
+    wake();
+  }
+  buffer.waiting.clear();
+}
+
+// Replays a buffer from the start and follows it until it ends
+function createReader(buffer: StreamBuffer): ReadableStream<Uint8Array> {
+  let position = 0;
+  let cancelled = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (position === buffer.chunks.length && !buffer.done) {
+        await new Promise<void>((resolve) => buffer.waiting.add(resolve));
+      }
+
+      if (cancelled) {
+        return;
+      }
+      if (position < buffer.chunks.length) {
+        controller.enqueue(buffer.chunks[position]);
+        position++;
+      } else {
+        controller.close();
+      }
+    },
+    // The browser went away. The generation itself carries on.
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
+// Starts buffering a generation and returns the stream for the browser that
+// started it
+export function openStreamBuffer(
+  generationId: string,
+): ReadableStream<Uint8Array> {
+  const buffer: StreamBuffer = {
+    chunks: [],
+    size: 0,
+    done: false,
+    resumable: true,
+    waiting: new Set(),
+  };
+  buffers.set(generationId, buffer);
+  return createReader(buffer);
+}
+
+export function appendToStreamBuffer(generationId: string, chunk: Uint8Array) {
+  const buffer = buffers.get(generationId);
+  if (!buffer) {
+    return;
+  }
+
+  buffer.chunks.push(chunk);
+  buffer.size += chunk.byteLength;
+  if (buffer.size > MAX_RESUMABLE_BYTES) {
+    buffer.resumable = false;
+  }
+  notify(buffer);
+}
+
+// Ends the stream for current readers. New readers can no longer attach.
+export function closeStreamBuffer(generationId: string) {
+  const buffer = buffers.get(generationId);
+  if (!buffer) {
+    return;
+  }
+
+  buffers.delete(generationId);
+  buffer.done = true;
+  notify(buffer);
+}
+
+// Re-attaches to a generation's stream, or returns null if the generation
+// can't be resumed on this instance
+export function readStreamBuffer(
+  generationId: string,
+): ReadableStream<Uint8Array> | null {
+  const buffer = buffers.get(generationId);
+  return buffer?.resumable ? createReader(buffer) : null;
+}
@@ -0,0 +1,37 @@
+import "server-only";
+
+import type { ChatDetail } from "v0-sdk";
+import { upsertChat } from "@/lib/db/queries";
+import { logger } from "@/lib/logger";
+import { getV0ForChatId } from "./keys";
+
+// Mirrors a v0 chat into the local `chats` table. Failures are logged but
+// never thrown, since the v0 API remains the source of truth.
+export async function saveChatMetadata(chat: ChatDetail) {
+  try {
+    await upsertChat({
+      v0ChatId: chat.id,
+      name: chat.name ?? null,
+      privacy: chat.privacy,
+      demoUrl: chat.latestVersion?.demoUrl ?? chat.demo ?? null,
+      messageCount: chat.messages?.length ?? 0,
+      createdAt: new Date(chat.createdAt),
+      updatedAt: new Date(chat.updatedAt ?? chat.createdAt),
+    });
+  } catch (error) {
+    logger.error("Failed to save chat metadata", { chatId: chat.id, error });
+  }
+}
+
+// Fetches the latest state of a chat from v0 and mirrors it locally
+export async function refreshChatMetadata(chatId: string) {
+  try {
+    const { v0 } = await getV0ForChatId(chatId);
+    const chat = await v0.chats.getById({ chatId });
+    await saveChatMetadata(chat);
+    return chat;
+  } catch (error) {
+    logger.error("Failed to refresh chat metadata", { chatId, error });
+    return null;
+  }
+}
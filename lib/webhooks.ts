@@ -0,0 +1,290 @@
+import "server-only";
+
+import { createHmac, randomBytes } from "node:crypto";
+import { lookup } from "node:dns";
+import { request as httpRequest, type OutgoingHttpHeaders } from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { LookupFunction } from "node:net";
+import { after } from "next/server";
+import { auth } from "@/app/(auth)/auth";
+import { isPublicIP, normalizeIP } from "@/lib/client-ip";
+import { isDevelopmentEnvironment } from "@/lib/constants";
+import {
+  createWebhookDelivery,
+  getWebhooksForEvent,
+  updateWebhookDelivery,
+} from "@/lib/db/queries";
+import type {
+  ChatPrivacy,
+  Webhook,
+  WebhookDelivery,
+  WebhookEvent,
+} from "@/lib/db/schema";
+import { type Entitlements, getUserEntitlements } from "@/lib/entitlements";
+import { ChatSDKError } from "@/lib/errors";
+import { logger, setRequestContext } from "@/lib/logger";
+
+/*
+ * Outgoing webhooks tell a user's own endpoints about their chats. Each
+ * delivery is a JSON POST signed with the webhook's secret:
+ *
+ *   X-Webhook-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ *
+ * where the HMAC covers `<t>.<body>`. Deliveries run after the response has
+ * been sent and are retried with backoff. Every attempt is recorded in the
+ * delivery log.
+ *
+ * The endpoint's host is resolved for every attempt, and the delivery is
+ * refused if any of its addresses isn't public. The connection is made to
+ * the checked address, so the host can't be re-pointed at this server's
+ * network in between. Otherwise webhooks, and the response statuses in the
+ * delivery log, could be used to probe internal services. Any host is
+ * allowed during local development.
+ */
+
+const BLOCKED_ADDRESS_ERROR = "Endpoint address is not allowed";
+
+// Waits between attempts. A delivery is tried once more than this.
+const RETRY_DELAYS_MS = [1_000, 5_000, 25_000];
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+export interface WebhookEventData {
+  "chat.created": { chatId: string; parentChatId?: string };
+  "generation.completed": {
+    chatId: string;
+    generationId: string;
+    messageId: string | null;
+    versionId: string | null;
+    demoUrl: string | null;
+    durationMs: number;
+  };
+  "chat.visibility_changed": { chatId: string; privacy: ChatPrivacy };
+  "chat.forked": { chatId: string; forkedChatId: string };
+  "chat.deleted": { chatId: string };
+}
+
+interface AttemptResult {
+  responseStatus: number | null;
+  error: string | null;
+}
+
+// Webhooks are managed by signed-in users. Guests and unverified accounts
+// can't register any, which is enforced through their entitlements.
+export async function authorizeWebhookUser(): Promise<
+  { userId: string; entitlements: Entitlements } | ChatSDKError
+> {
+  const session = await auth();
+  setRequestContext({ userType: session?.user?.type });
+
+  if (!session?.user?.id) {
+    return new ChatSDKError("unauthorized:webhook");
+  }
+
+  return {
+    userId: session.user.id,
+    entitlements: await getUserEntitlements(session.user),
+  };
+}
+
+// Webhooks as shown to their owner. The secret is only shown once, when
+// the webhook is created.
+export function toWebhookResponse(webhook: Webhook) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    createdAt: webhook.created_at.toISOString(),
+  };
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+function signPayload(secret: string, timestamp: number, payload: string) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${payload}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Timeouts, rate limiting and server errors may succeed on a later attempt.
+// Other client errors and blocked addresses won't.
+function isRetryable({ responseStatus, error }: AttemptResult): boolean {
+  if (responseStatus === null) {
+    return error !== BLOCKED_ADDRESS_ERROR;
+  }
+  return (
+    responseStatus === 408 || responseStatus === 429 || responseStatus >= 500
+  );
+}
+
+// Resolves like dns.lookup, failing if any of the host's addresses isn't
+// public
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "");
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => !isPublicIP(address))
+    ) {
+      callback(new Error(BLOCKED_ADDRESS_ERROR), "");
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// POSTs the payload and resolves to the response status. Redirects aren't
+// followed, since they could point the delivery somewhere the user didn't
+// register.
+function post(
+  url: URL,
+  headers: OutgoingHttpHeaders,
+  body: string,
+): Promise<number> {
+  // IP addresses are connected to without a lookup
+  if (
+    !isDevelopmentEnvironment &&
+    normalizeIP(url.hostname) &&
+    !isPublicIP(url.hostname)
+  ) {
+    return Promise.reject(new Error(BLOCKED_ADDRESS_ERROR));
+  }
+
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: isDevelopmentEnvironment ? undefined : lookupPublicAddress,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      (response) => {
+        // The body isn't used, but is read so the connection can close
+        response.resume();
+        response.on("error", reject);
+        response.on("end", () => resolve(response.statusCode ?? 0));
+      },
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+async function attemptDelivery(
+  webhook: Webhook,
+  delivery: WebhookDelivery,
+): Promise<AttemptResult> {
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const status = await post(
+      new URL(webhook.url),
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "v0.diy-webhooks",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Signature": signPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload,
+        ),
+      },
+      delivery.payload,
+    );
+    const ok = status >= 200 && status < 300;
+
+    return {
+      responseStatus: status,
+      error: ok ? null : `Endpoint responded with ${status}`,
+    };
+  } catch (error) {
+    return {
+      responseStatus: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+async function deliver(webhook: Webhook, delivery: WebhookDelivery) {
+  try {
+    for (let attempt = 1; ; attempt++) {
+      const result = await attemptDelivery(webhook, delivery);
+      const succeeded = result.error === null;
+      const retryDelay = RETRY_DELAYS_MS[attempt - 1];
+      const done =
+        succeeded || retryDelay === undefined || !isRetryable(result);
+
+      await updateWebhookDelivery({
+        id: delivery.id,
+        status: succeeded ? "succeeded" : done ? "failed" : "pending",
+        attempts: attempt,
+        ...result,
+        completedAt: done ? new Date() : undefined,
+      });
+
+      if (done) {
+        logger.info("Webhook delivered", {
+          webhookId: webhook.id,
+          deliveryId: delivery.id,
+          event: delivery.event,
+          succeeded,
+          attempts: attempt,
+          responseStatus: result.responseStatus,
+        });
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, retryDelay));
+    }
+  } catch (error) {
+    logger.error("Failed to deliver webhook", {
+      webhookId: webhook.id,
+      deliveryId: delivery.id,
+      error,
+    });
+  }
+}
+
+// Queues an event for each of the user's webhooks subscribed to it. Never
+// throws, since webhooks shouldn't fail the request that triggered them.
+export async function emitWebhookEvent<E extends WebhookEvent>(
+  userId: string,
+  event: E,
+  data: WebhookEventData[E],
+) {
+  try {
+    const subscribed = await getWebhooksForEvent({ userId, event });
+
+    for (const webhook of subscribed) {
+      const payload = JSON.stringify({
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      });
+      const delivery = await createWebhookDelivery({
+        webhookId: webhook.id,
+        event,
+        payload,
+      });
+
+      after(deliver(webhook, delivery));
+    }
+  } catch (error) {
+    logger.error("Failed to queue webhook event", { event, error });
+  }
+}
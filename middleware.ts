@@ -43,12 +43,25 @@ export async function middleware(request: NextRequest) {
     }
 
     // Redirect protected pages to login
-    if (["/chats", "/projects"].some((path) => pathname.startsWith(path))) {
+    if (
+      ["/chats", "/projects", "/settings"].some((path) =>
+        pathname.startsWith(path),
+      )
+    ) {
       return NextResponse.redirect(new URL("/login", request.url));
     }
 
-    // Allow login and register pages
-    if (["/login", "/register"].includes(pathname)) {
+    // Allow login and register pages, and the pages emailed links open
+    if (
+      [
+        "/login",
+        "/register",
+        "/forgot-password",
+        "/reset-password",
+        "/verify-email",
+        "/invite",
+      ].includes(pathname)
+    ) {
       return NextResponse.next();
     }
 
@@ -70,6 +83,7 @@ export const config = {
     "/",
     "/chats/:path*",
     "/projects/:path*",
+    "/settings/:path*",
     "/api/:path*",
     "/login",
     "/register",